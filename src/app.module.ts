@@ -13,6 +13,9 @@ import { ContactsModule } from './modules/contacts/contacts.module';
 import { TestimonialsModule } from './modules/testimonials/testimonials.module';
 import { ServicesModule } from './modules/services/services.module';
 import { SiteSettingsModule } from './modules/site-settings/site-settings.module';
+import { AuditLogsModule } from './modules/audit-logs/audit-logs.module';
+import { SearchModule } from './modules/search/search.module';
+import { StorageModule } from './modules/storage/storage.module';
 import { SupabaseService } from './core/lib/supabase/supabase.service';
 
 @Module({
@@ -51,6 +54,9 @@ import { SupabaseService } from './core/lib/supabase/supabase.service';
     TestimonialsModule,
     ServicesModule,
     SiteSettingsModule,
+    AuditLogsModule,
+    SearchModule,
+    StorageModule,
   ],
   providers: [SupabaseService],
 })
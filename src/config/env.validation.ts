@@ -28,6 +28,72 @@ export class EnvironmentVariables {
   @IsString()
   JWT_REFRESH_EXPIRES_IN: string;
 
+  @IsOptional()
+  @IsEnum(['lax', 'strict', 'none'])
+  AUTH_COOKIE_SAME_SITE?: string;
+
+  @IsOptional()
+  @IsEnum(['true', 'false'])
+  REQUIRE_ADMIN_2FA?: string;
+
+  @IsOptional()
+  @IsString()
+  TWO_FACTOR_ISSUER?: string;
+
+  @IsOptional()
+  @IsString()
+  GITHUB_CLIENT_ID?: string;
+
+  @IsOptional()
+  @IsString()
+  GITHUB_CLIENT_SECRET?: string;
+
+  @IsOptional()
+  @IsString()
+  GOOGLE_CLIENT_ID?: string;
+
+  @IsOptional()
+  @IsString()
+  GOOGLE_CLIENT_SECRET?: string;
+
+  @IsOptional()
+  @IsString()
+  OAUTH_REDIRECT_BASE_URL?: string;
+
+  @IsOptional()
+  @IsEnum(['true', 'false'])
+  OAUTH_MOCK_ENABLED?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  TRUST_PROXY_HOPS?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  PROJECT_SCHEDULER_INTERVAL_MS?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  PROJECT_VIEW_WINDOW_MINUTES?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  PROJECT_VIEW_RETENTION_DAYS?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  PROJECT_VIEW_PURGE_INTERVAL_MS?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  ACCOUNT_PURGE_INTERVAL_MS?: number;
+
   @IsString()
   MAIL_HOST: string;
 
@@ -51,6 +117,10 @@ export class EnvironmentVariables {
   @IsString()
   BASE_URL?: string;
 
+  @IsOptional()
+  @IsEnum(['supabase', 'local'])
+  STORAGE_DRIVER?: string;
+
   @IsOptional()
   @IsString()
   MULTER_DESTINATION?: string;
@@ -23,3 +23,38 @@ export const SESSION_EXPIRATION_MS = 7 * 24 * 60 * 60 * 1000;
  */
 export const SESSION_EXPIRATION_SECONDS = 7 * 24 * 60 * 60;
 
+
+/**
+ * Cookie name for the refresh token
+ * Scoped to the auth routes so it is not sent with every API request
+ */
+export const REFRESH_TOKEN_COOKIE_NAME = 'NEXT_FLEXIFY_REFRESH_TOKEN';
+
+/**
+ * Cookie name for the CSRF token (double-submit pattern)
+ * Readable by the frontend, must be echoed back in CSRF_HEADER_NAME
+ */
+export const CSRF_TOKEN_COOKIE_NAME = 'NEXT_FLEXIFY_CSRF_TOKEN';
+
+/**
+ * Header carrying the CSRF token on state-changing requests
+ */
+export const CSRF_HEADER_NAME = 'x-csrf-token';
+
+/**
+ * Header a client sends with `cookie` to opt into HTTP-only cookie mode
+ * on login and refresh
+ */
+export const AUTH_MODE_HEADER = 'x-auth-mode';
+
+/**
+ * Cookie name for the OAuth state nonce
+ * Binds an OAuth flow to the browser that started it (login CSRF)
+ */
+export const OAUTH_STATE_COOKIE_NAME = 'NEXT_FLEXIFY_OAUTH_STATE';
+
+/**
+ * Lifetime of an OAuth flow (signed state and nonce cookie) in seconds
+ * Default: 10 minutes
+ */
+export const OAUTH_STATE_EXPIRATION_SECONDS = 10 * 60;
@@ -0,0 +1,23 @@
+/**
+ * Projects Constants
+ *
+ * Constants for anonymous visitor tracking on project pages.
+ */
+
+/**
+ * Cookie name for the signed anonymous visitor id
+ * Identifies visitors who like or share without an account
+ */
+export const VISITOR_ID_COOKIE_NAME = 'NEXT_FLEXIFY_VISITOR_ID';
+
+/**
+ * Visitor id cookie lifetime in milliseconds
+ * Default: 365 days
+ */
+export const VISITOR_ID_EXPIRATION_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Maximum anonymous likes one network (IP address) can add to a
+ * single project per day, however many visitor ids it uses
+ */
+export const MAX_ANONYMOUS_LIKES_PER_IP = 5;
@@ -0,0 +1,33 @@
+import { join } from 'path';
+
+/**
+ * Storage Constants
+ *
+ * Constants for the local filesystem storage driver.
+ */
+
+/**
+ * Directory the local driver writes to, one sub-directory per bucket.
+ * Resolves to <project root>/uploads from both src/ and dist/
+ */
+export const LOCAL_STORAGE_ROOT = join(__dirname, '..', '..', 'uploads');
+
+/**
+ * URL prefix main.ts serves LOCAL_STORAGE_ROOT under
+ */
+export const LOCAL_STORAGE_URL_PREFIX = '/uploads/';
+
+/**
+ * Content types of files served by the local driver, by extension
+ * (the filesystem does not keep the type given on upload)
+ */
+export const LOCAL_STORAGE_CONTENT_TYPES: Record<string, string> = {
+  avif: 'image/avif',
+  gif: 'image/gif',
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  pdf: 'application/pdf',
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+};
@@ -0,0 +1,13 @@
+import { IsArray, ArrayMinSize, ArrayUnique, IsUUID } from 'class-validator';
+
+/**
+ * Body of the `PATCH .../reorder` endpoints: ids in their new order.
+ * Rows not listed keep their relative order after the listed ones.
+ */
+export class ReorderDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsUUID('4', { each: true })
+  ids: string[];
+}
@@ -0,0 +1,180 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalStorageDriver } from './local-storage.driver';
+
+describe('LocalStorageDriver', () => {
+  const BUCKET = 'images';
+  const BASE_URL = 'http://localhost:3000';
+  const PNG = { contentType: 'image/png' };
+
+  let root: string;
+  let driver: LocalStorageDriver;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'local-storage-'));
+    driver = new LocalStorageDriver(root, BASE_URL);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('put / get', () => {
+    it('stores a file under its bucket and reads it back', async () => {
+      await driver.put(BUCKET, 'projects/a.png', Buffer.from('image'), PNG);
+
+      const file = await driver.get(BUCKET, 'projects/a.png');
+
+      expect(file?.body.toString()).toBe('image');
+      expect(file?.contentType).toBe('image/png');
+      await expect(
+        readFile(join(root, BUCKET, 'projects', 'a.png'), 'utf8'),
+      ).resolves.toBe('image');
+    });
+
+    it('refuses to overwrite an existing file unless upsert is set', async () => {
+      await driver.put(BUCKET, 'a.png', Buffer.from('first'), PNG);
+
+      await expect(
+        driver.put(BUCKET, 'a.png', Buffer.from('second'), PNG),
+      ).rejects.toThrow();
+
+      await driver.put(BUCKET, 'a.png', Buffer.from('second'), {
+        ...PNG,
+        upsert: true,
+      });
+      expect((await driver.get(BUCKET, 'a.png'))?.body.toString()).toBe(
+        'second',
+      );
+    });
+
+    it('returns null for a missing file', async () => {
+      await expect(driver.get(BUCKET, 'missing.png')).resolves.toBeNull();
+    });
+  });
+
+  describe('delete', () => {
+    it('removes the given files and ignores missing ones', async () => {
+      await driver.put(BUCKET, 'a.png', Buffer.from('a'), PNG);
+      await driver.put(BUCKET, 'b.png', Buffer.from('b'), PNG);
+
+      await driver.delete(BUCKET, ['a.png', 'missing.png']);
+
+      await expect(driver.get(BUCKET, 'a.png')).resolves.toBeNull();
+      await expect(driver.get(BUCKET, 'b.png')).resolves.not.toBeNull();
+    });
+  });
+
+  describe('list', () => {
+    beforeEach(async () => {
+      await driver.put(BUCKET, 'avatars/one.png', Buffer.from('1'), PNG);
+      await driver.put(BUCKET, 'avatars/two.png', Buffer.from('22'), PNG);
+      await driver.put(
+        BUCKET,
+        'avatars/nested/three.png',
+        Buffer.from(''),
+        PNG,
+      );
+    });
+
+    it('lists files directly inside the prefix', async () => {
+      const files = await driver.list(BUCKET, 'avatars');
+
+      expect(files.map((file) => file.path).sort()).toEqual([
+        'avatars/one.png',
+        'avatars/two.png',
+      ]);
+      expect(files.find((file) => file.name === 'two.png')?.size).toBe(2);
+    });
+
+    it('filters by name and pages the result', async () => {
+      const matching = await driver.list(BUCKET, 'avatars', {
+        search: 'two',
+      });
+      expect(matching.map((file) => file.name)).toEqual(['two.png']);
+
+      const firstPage = await driver.list(BUCKET, 'avatars', { limit: 1 });
+      const secondPage = await driver.list(BUCKET, 'avatars', {
+        limit: 1,
+        offset: 1,
+      });
+      expect(firstPage).toHaveLength(1);
+      expect(secondPage).toHaveLength(1);
+      expect(firstPage[0].name).not.toBe(secondPage[0].name);
+    });
+
+    it('returns an empty list for a bucket nothing was written to', async () => {
+      await expect(driver.list('empty', '')).resolves.toEqual([]);
+    });
+  });
+
+  describe('resolvePath', () => {
+    beforeEach(async () => {
+      await writeFile(join(root, 'secret.txt'), 'secret');
+    });
+
+    it('refuses to write outside the bucket', async () => {
+      await expect(
+        driver.put(BUCKET, '../secret.txt', Buffer.from('x'), {
+          ...PNG,
+          upsert: true,
+        }),
+      ).rejects.toThrow('Invalid storage path');
+      await expect(readFile(join(root, 'secret.txt'), 'utf8')).resolves.toBe(
+        'secret',
+      );
+    });
+
+    it('refuses to read outside the bucket', async () => {
+      await expect(driver.get(BUCKET, '../secret.txt')).resolves.toBeNull();
+      await expect(
+        driver.get(BUCKET, 'nested/../../secret.txt'),
+      ).resolves.toBeNull();
+    });
+
+    it('refuses to delete or list outside the bucket', async () => {
+      await expect(driver.delete(BUCKET, ['../secret.txt'])).rejects.toThrow(
+        'Invalid storage path',
+      );
+      await expect(driver.list(BUCKET, '..')).rejects.toThrow(
+        'Invalid storage path',
+      );
+      await expect(readFile(join(root, 'secret.txt'), 'utf8')).resolves.toBe(
+        'secret',
+      );
+    });
+
+    it('refuses the bucket directory itself', async () => {
+      await expect(
+        driver.put(BUCKET, '.', Buffer.from('x'), PNG),
+      ).rejects.toThrow('Invalid storage path');
+    });
+  });
+
+  it('maps public URLs back to paths', () => {
+    const url = driver.publicUrl(BUCKET, 'projects/my file.png');
+
+    expect(url).toBe(`${BASE_URL}/uploads/images/projects/my%20file.png`);
+    expect(driver.pathFromUrl(BUCKET, url)).toBe('projects/my file.png');
+    expect(driver.pathFromUrl('other', url)).toBeNull();
+  });
+
+  it('ignores URLs that only contain the bucket path', () => {
+    expect(
+      driver.pathFromUrl(
+        BUCKET,
+        'https://attacker.example/uploads/images/projects/a.png',
+      ),
+    ).toBeNull();
+    expect(
+      driver.pathFromUrl(
+        BUCKET,
+        `https://x.example/?u=${BASE_URL}/uploads/images/a.png`,
+      ),
+    ).toBeNull();
+    expect(
+      driver.pathFromUrl(BUCKET, `${BASE_URL}/uploads/images/`),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { dirname, extname, resolve, sep } from 'path';
+import {
+  LOCAL_STORAGE_CONTENT_TYPES,
+  LOCAL_STORAGE_URL_PREFIX,
+} from '../../../../constants/storage.constants';
+import {
+  IStorageDriver,
+  IStorageFile,
+  IStorageListOptions,
+  IStorageObject,
+  IStoragePutOptions,
+} from '../storage.types';
+
+/**
+ * Buckets as directories under `root`, served by main.ts under /uploads.
+ * Meant for offline development and tests: files are public, so
+ * signedUrl() returns the public URL.
+ */
+export class LocalStorageDriver implements IStorageDriver {
+  private readonly DEFAULT_LIST_LIMIT = 100;
+
+  constructor(
+    private readonly root: string,
+    private readonly baseUrl: string,
+  ) {}
+
+  async put(
+    bucket: string,
+    path: string,
+    body: Buffer,
+    options: IStoragePutOptions,
+  ): Promise<void> {
+    const filePath = this.resolvePath(bucket, path);
+
+    await mkdir(dirname(filePath), { recursive: true });
+    // 'wx' fails if the file exists, like Supabase without upsert
+    await writeFile(filePath, body, { flag: options.upsert ? 'w' : 'wx' });
+  }
+
+  async get(bucket: string, path: string): Promise<IStorageFile | null> {
+    try {
+      return {
+        body: await readFile(this.resolvePath(bucket, path)),
+        contentType: this.contentTypeOf(path),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(bucket: string, paths: string[]): Promise<void> {
+    await Promise.all(
+      paths.map((path) => rm(this.resolvePath(bucket, path), { force: true })),
+    );
+  }
+
+  async list(
+    bucket: string,
+    prefix: string,
+    options: IStorageListOptions = {},
+  ): Promise<IStorageObject[]> {
+    const directory = prefix
+      ? this.resolvePath(bucket, prefix)
+      : resolve(this.root, bucket);
+
+    let entries;
+    try {
+      entries = await readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      // Buckets and folders only exist once something was written
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const files = await Promise.all(
+      entries
+        .filter((entry) => entry.isFile())
+        .filter(
+          (entry) => !options.search || entry.name.includes(options.search),
+        )
+        .map(async (entry) => {
+          const stats = await stat(resolve(directory, entry.name));
+          return {
+            name: entry.name,
+            path: prefix ? `${prefix}/${entry.name}` : entry.name,
+            size: stats.size,
+            createdAt: stats.birthtime.toISOString(),
+          };
+        }),
+    );
+
+    const offset = options.offset ?? 0;
+
+    return files
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(offset, offset + (options.limit ?? this.DEFAULT_LIST_LIMIT));
+  }
+
+  publicUrl(bucket: string, path: string): string {
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    return `${this.baseUrl}${LOCAL_STORAGE_URL_PREFIX}${bucket}/${encodedPath}`;
+  }
+
+  signedUrl(bucket: string, path: string): Promise<string> {
+    return Promise.resolve(this.publicUrl(bucket, path));
+  }
+
+  pathFromUrl(bucket: string, url: string): string | null {
+    // Only URLs under this storage's own base URL and bucket
+    const prefix = this.publicUrl(bucket, '');
+
+    if (!url.startsWith(prefix)) {
+      return null;
+    }
+
+    return decodeURIComponent(url.slice(prefix.length).split('?')[0]) || null;
+  }
+
+  /**
+   * Absolute file path, refusing paths that escape the bucket directory
+   */
+  private resolvePath(bucket: string, path: string): string {
+    const bucketRoot = resolve(this.root, bucket);
+    const filePath = resolve(bucketRoot, path);
+
+    if (!filePath.startsWith(bucketRoot + sep)) {
+      throw new Error(`Invalid storage path: ${bucket}/${path}`);
+    }
+
+    return filePath;
+  }
+
+  private contentTypeOf(path: string): string | null {
+    const extension = extname(path).slice(1).toLowerCase();
+    return LOCAL_STORAGE_CONTENT_TYPES[extension] ?? null;
+  }
+}
@@ -0,0 +1,121 @@
+import { SupabaseService } from '../../supabase/supabase.service';
+import {
+  IStorageDriver,
+  IStorageFile,
+  IStorageListOptions,
+  IStorageObject,
+  IStoragePutOptions,
+} from '../storage.types';
+
+/**
+ * Supabase Storage buckets (the production backend)
+ */
+export class SupabaseStorageDriver implements IStorageDriver {
+  private readonly DEFAULT_LIST_LIMIT = 100;
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async put(
+    bucket: string,
+    path: string,
+    body: Buffer,
+    options: IStoragePutOptions,
+  ): Promise<void> {
+    const { error } = await this.from(bucket).upload(path, body, {
+      contentType: options.contentType,
+      upsert: options.upsert ?? false,
+    });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async get(bucket: string, path: string): Promise<IStorageFile | null> {
+    const { data, error } = await this.from(bucket).download(path);
+
+    if (error || !data) {
+      return null;
+    }
+
+    return {
+      body: Buffer.from(await data.arrayBuffer()),
+      contentType: data.type || null,
+    };
+  }
+
+  async delete(bucket: string, paths: string[]): Promise<void> {
+    if (paths.length === 0) {
+      return;
+    }
+
+    const { error } = await this.from(bucket).remove(paths);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async list(
+    bucket: string,
+    prefix: string,
+    options: IStorageListOptions = {},
+  ): Promise<IStorageObject[]> {
+    const { data, error } = await this.from(bucket).list(prefix, {
+      limit: options.limit ?? this.DEFAULT_LIST_LIMIT,
+      offset: options.offset,
+      search: options.search,
+      sortBy: { column: 'created_at', order: 'desc' },
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    // Folders are listed with a null id
+    return (data || [])
+      .filter((file) => file.id !== null)
+      .map((file) => ({
+        name: file.name,
+        path: prefix ? `${prefix}/${file.name}` : file.name,
+        size: file.metadata?.size ?? null,
+        createdAt: file.created_at ?? null,
+      }));
+  }
+
+  publicUrl(bucket: string, path: string): string {
+    return this.from(bucket).getPublicUrl(path).data.publicUrl;
+  }
+
+  async signedUrl(
+    bucket: string,
+    path: string,
+    expiresInSeconds: number,
+  ): Promise<string> {
+    const { data, error } = await this.from(bucket).createSignedUrl(
+      path,
+      expiresInSeconds,
+    );
+
+    if (error || !data) {
+      throw error ?? new Error(`Could not sign ${bucket}/${path}`);
+    }
+
+    return data.signedUrl;
+  }
+
+  pathFromUrl(bucket: string, url: string): string | null {
+    // Only URLs under this storage's own base URL and bucket
+    const prefix = this.publicUrl(bucket, '');
+
+    if (!url.startsWith(prefix)) {
+      return null;
+    }
+
+    return decodeURIComponent(url.slice(prefix.length).split('?')[0]) || null;
+  }
+
+  private from(bucket: string) {
+    return this.supabaseService.getClient().storage.from(bucket);
+  }
+}
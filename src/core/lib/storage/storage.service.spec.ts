@@ -0,0 +1,47 @@
+import { StorageService } from './storage.service';
+
+describe('StorageService.deleteUrls', () => {
+  const BASE_URL = 'http://localhost:3000';
+  const CONFIG: Record<string, string> = {
+    STORAGE_DRIVER: 'local',
+    BASE_URL,
+  };
+
+  let service: StorageService;
+  let deleted: jest.SpyInstance;
+
+  const avatarUrl = (name: string) =>
+    `${BASE_URL}/uploads/avatars/avatars/${name}`;
+
+  beforeEach(() => {
+    service = new StorageService(
+      { get: (key: string) => CONFIG[key] } as any,
+      {} as any,
+    );
+    deleted = jest
+      .spyOn((service as any).driver, 'delete')
+      .mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('deletes only the paths under the given prefix', async () => {
+    await service.deleteUrls(
+      'avatars',
+      [avatarUrl('user-1-1.webp'), avatarUrl('user-2-1.webp')],
+      'avatars/user-1-',
+    );
+
+    expect(deleted).toHaveBeenCalledWith('avatars', ['avatars/user-1-1.webp']);
+  });
+
+  it('skips URLs outside the storage base URL', async () => {
+    await service.deleteUrls('avatars', [
+      'https://cdn.example/uploads/avatars/avatars/user-2-1.webp',
+    ]);
+
+    expect(deleted).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,112 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../supabase/supabase.service';
+import { LOCAL_STORAGE_ROOT } from '../../../constants/storage.constants';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { SupabaseStorageDriver } from './drivers/supabase-storage.driver';
+import {
+  IStorageDriver,
+  IStorageFile,
+  IStorageListOptions,
+  IStorageObject,
+  IStoragePutOptions,
+  StorageDriverName,
+} from './storage.types';
+
+/**
+ * File storage used by every upload. STORAGE_DRIVER selects Supabase
+ * Storage (default) or the local filesystem for offline development.
+ */
+@Injectable()
+export class StorageService implements IStorageDriver {
+  private readonly logger = new Logger(StorageService.name);
+  private readonly driver: IStorageDriver;
+
+  constructor(configService: ConfigService, supabaseService: SupabaseService) {
+    const driverName =
+      configService.get<StorageDriverName>('STORAGE_DRIVER') || 'supabase';
+
+    this.driver =
+      driverName === 'local'
+        ? new LocalStorageDriver(
+            LOCAL_STORAGE_ROOT,
+            configService.get<string>('BASE_URL') ||
+              `http://localhost:${configService.get('PORT') || 3000}`,
+          )
+        : new SupabaseStorageDriver(supabaseService);
+  }
+
+  put(
+    bucket: string,
+    path: string,
+    body: Buffer,
+    options: IStoragePutOptions,
+  ): Promise<void> {
+    return this.driver.put(bucket, path, body, options);
+  }
+
+  get(bucket: string, path: string): Promise<IStorageFile | null> {
+    return this.driver.get(bucket, path);
+  }
+
+  delete(bucket: string, paths: string[]): Promise<void> {
+    return this.driver.delete(bucket, paths);
+  }
+
+  list(
+    bucket: string,
+    prefix: string,
+    options?: IStorageListOptions,
+  ): Promise<IStorageObject[]> {
+    return this.driver.list(bucket, prefix, options);
+  }
+
+  publicUrl(bucket: string, path: string): string {
+    return this.driver.publicUrl(bucket, path);
+  }
+
+  signedUrl(
+    bucket: string,
+    path: string,
+    expiresInSeconds: number,
+  ): Promise<string> {
+    return this.driver.signedUrl(bucket, path, expiresInSeconds);
+  }
+
+  pathFromUrl(bucket: string, url: string): string | null {
+    return this.driver.pathFromUrl(bucket, url);
+  }
+
+  /**
+   * Delete the objects behind public URLs once their rows are gone.
+   * URLs outside the bucket (placeholders, URLs set by hand) are skipped,
+   * as are paths outside `pathPrefix` when one is given.
+   * Best effort: failures are logged and left to the storage cleanup job.
+   */
+  async deleteUrls(
+    bucket: string,
+    urls: Array<string | null | undefined>,
+    pathPrefix = '',
+  ): Promise<void> {
+    const paths = new Set<string>();
+
+    for (const url of urls) {
+      const path = url ? this.pathFromUrl(bucket, url) : null;
+      if (path && path.startsWith(pathPrefix)) {
+        paths.add(path);
+      }
+    }
+
+    if (paths.size === 0) {
+      return;
+    }
+
+    try {
+      await this.driver.delete(bucket, [...paths]);
+    } catch (error) {
+      this.logger.warn(
+        `Could not delete ${paths.size} object(s) from ${bucket}: ${error}`,
+      );
+    }
+  }
+}
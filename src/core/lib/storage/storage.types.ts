@@ -0,0 +1,57 @@
+export type StorageDriverName = 'supabase' | 'local';
+
+export interface IStoragePutOptions {
+  contentType: string;
+  // Overwrite an existing object at the same path
+  upsert?: boolean;
+}
+
+export interface IStorageListOptions {
+  // Only names containing this string
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface IStorageFile {
+  body: Buffer;
+  contentType: string | null;
+}
+
+export interface IStorageObject {
+  name: string;
+  // Path within the bucket, usable with get/delete
+  path: string;
+  size: number | null;
+  createdAt: string | null;
+}
+
+/**
+ * Operations every storage backend provides. Paths are relative to the
+ * bucket; failures throw, except get() which returns null when the
+ * object does not exist.
+ */
+export interface IStorageDriver {
+  put(
+    bucket: string,
+    path: string,
+    body: Buffer,
+    options: IStoragePutOptions,
+  ): Promise<void>;
+  get(bucket: string, path: string): Promise<IStorageFile | null>;
+  delete(bucket: string, paths: string[]): Promise<void>;
+  // Files directly inside `prefix`, newest first
+  list(
+    bucket: string,
+    prefix: string,
+    options?: IStorageListOptions,
+  ): Promise<IStorageObject[]>;
+  publicUrl(bucket: string, path: string): string;
+  signedUrl(
+    bucket: string,
+    path: string,
+    expiresInSeconds: number,
+  ): Promise<string>;
+  // Inverse of publicUrl(); null for URLs outside the bucket
+  pathFromUrl(bucket: string, url: string): string | null;
+}
@@ -1,4 +1,8 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { SupabaseService } from '../lib/supabase/supabase.service';
 import { SupabaseClient } from '@supabase/supabase-js';
 
@@ -41,5 +45,30 @@ export abstract class BaseService {
 
     return (data?.length ?? 0) > 0;
   }
-}
 
+  /**
+   * Renumber order_index atomically: the given ids take positions
+   * 0..n-1, unlisted rows follow in their current order. Pass a scope to
+   * reorder rows of one parent only (e.g. the images of a project).
+   */
+  protected async reorderRows(
+    table: string,
+    ids: string[],
+    scope?: { column: string; value: string },
+  ): Promise<void> {
+    const { error } = await this.getClient().rpc('reorder_rows', {
+      p_table: table,
+      p_ids: ids,
+      p_scope_column: scope?.column ?? null,
+      p_scope_value: scope?.value ?? null,
+    });
+
+    if (error?.code === 'P0002') {
+      throw new NotFoundException('common.reorder.notFound');
+    }
+
+    if (error) {
+      throw new BadRequestException('common.reorder.failed');
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { Injectable } from '@nestjs/common';
+
+/**
+ * Source of the current time for time-based logic (schedules, expiry).
+ * Tests override this provider to control time.
+ */
+@Injectable()
+export class ClockService {
+  now(): Date {
+    return new Date();
+  }
+}
@@ -0,0 +1,159 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import sharp from 'sharp';
+import { encode } from 'blurhash';
+import { StorageService } from '../lib/storage/storage.service';
+import {
+  ImageFormat,
+  IImageVariant,
+  IProcessedImage,
+  IProcessedVariant,
+  IStoredImage,
+} from '../types/image.types';
+
+/**
+ * Normalizes uploaded images before they are stored: applies the EXIF
+ * orientation and strips all metadata (GPS, camera details), encodes
+ * responsive WebP/AVIF variants and computes a blurhash placeholder.
+ */
+@Injectable()
+export class ImageProcessingService {
+  private readonly VARIANT_WIDTHS = [320, 768, 1280];
+  private readonly FORMATS: ImageFormat[] = ['webp', 'avif'];
+  private readonly QUALITY = 80;
+  private readonly BLURHASH_SIZE = 32;
+  private readonly BLURHASH_COMPONENTS = { x: 4, y: 3 };
+
+  constructor(private storageService: StorageService) {}
+
+  async process(buffer: Buffer): Promise<IProcessedImage> {
+    try {
+      // sharp drops metadata on output unless asked to keep it
+      const normalized = await sharp(buffer, { failOn: 'error' })
+        .rotate()
+        .toBuffer({ resolveWithObject: true });
+      const { width, height } = normalized.info;
+
+      // Never upscale: widths above the original collapse into it
+      const widths = [
+        ...new Set(this.VARIANT_WIDTHS.map((w) => Math.min(w, width))),
+      ];
+
+      const variants = await Promise.all(
+        widths.flatMap((variantWidth) =>
+          this.FORMATS.map((format) =>
+            this.encodeVariant(normalized.data, variantWidth, format),
+          ),
+        ),
+      );
+
+      return {
+        width,
+        height,
+        blurhash: await this.computeBlurhash(normalized.data),
+        variants,
+      };
+    } catch {
+      throw new BadRequestException('common.image.invalid');
+    }
+  }
+
+  /**
+   * Upload every variant as `<basePath>-<width>.<format>`. Returns null
+   * (after removing what was uploaded) if any upload fails.
+   */
+  async store(
+    bucket: string,
+    basePath: string,
+    image: IProcessedImage,
+  ): Promise<IStoredImage | null> {
+    const paths = image.variants.map(
+      (variant) => `${basePath}-${variant.width}.${variant.format}`,
+    );
+
+    try {
+      await Promise.all(
+        image.variants.map((variant, index) =>
+          this.storageService.put(bucket, paths[index], variant.buffer, {
+            contentType: variant.contentType,
+          }),
+        ),
+      );
+    } catch {
+      await this.storageService.delete(bucket, paths).catch(() => undefined);
+      return null;
+    }
+
+    const variants: IImageVariant[] = image.variants.map((variant, index) => ({
+      url: this.storageService.publicUrl(bucket, paths[index]),
+      width: variant.width,
+      height: variant.height,
+      format: variant.format,
+    }));
+
+    const largestWebp = variants
+      .filter((variant) => variant.format === 'webp')
+      .reduce((largest, variant) =>
+        variant.width > largest.width ? variant : largest,
+      );
+
+    return {
+      url: largestWebp.url,
+      width: image.width,
+      height: image.height,
+      blurhash: image.blurhash,
+      variants,
+    };
+  }
+
+  /**
+   * Delete a stored image and all of its variants (see
+   * StorageService.deleteUrls)
+   */
+  async remove(
+    bucket: string,
+    url: string | null,
+    variants: IImageVariant[] | null = [],
+    pathPrefix?: string,
+  ): Promise<void> {
+    await this.storageService.deleteUrls(
+      bucket,
+      [url, ...(variants || []).map((variant) => variant.url)],
+      pathPrefix,
+    );
+  }
+
+  private async encodeVariant(
+    source: Buffer,
+    width: number,
+    format: ImageFormat,
+  ): Promise<IProcessedVariant> {
+    const { data, info } = await sharp(source)
+      .resize({ width })
+      .toFormat(format, { quality: this.QUALITY })
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      width: info.width,
+      height: info.height,
+      format,
+      contentType: `image/${format}`,
+      buffer: data,
+    };
+  }
+
+  private async computeBlurhash(source: Buffer): Promise<string> {
+    const { data, info } = await sharp(source)
+      .resize(this.BLURHASH_SIZE, this.BLURHASH_SIZE, { fit: 'inside' })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return encode(
+      new Uint8ClampedArray(data),
+      info.width,
+      info.height,
+      this.BLURHASH_COMPONENTS.x,
+      this.BLURHASH_COMPONENTS.y,
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { SupabaseService } from '../lib/supabase/supabase.service';
+
+export type QueryOperation =
+  'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+export interface IQueryResult {
+  data: any;
+  error: any;
+  count?: number | null;
+}
+
+/**
+ * A PostgREST query as the code under test built it
+ */
+export interface IRecordedQuery {
+  table: string;
+  operation: QueryOperation;
+  payload?: any;
+  // Column -> value for eq(); other filters as `<op>:<column>`, and
+  // not() as `not:<column>` -> `<op>.<value>` (PostgREST syntax)
+  filters: Record<string, any>;
+}
+
+export interface ISupabaseMock {
+  supabaseService: SupabaseService;
+  client: {
+    from: jest.Mock;
+    rpc: jest.Mock;
+  };
+  queries: IRecordedQuery[];
+}
+
+const FILTERS = ['neq', 'gt', 'gte', 'lt', 'lte', 'in', 'is', 'like', 'ilike'];
+const PASSTHROUGH = ['or', 'order', 'range', 'limit', 'single', 'maybeSingle'];
+
+/**
+ * In-memory stand-in for the Supabase client. Every query is recorded
+ * and answered by `handler`; rpc() calls are answered by `rpc`.
+ */
+export function createSupabaseMock(
+  handler: (query: IRecordedQuery) => IQueryResult = () => ({
+    data: null,
+    error: null,
+  }),
+  rpc: (fn: string, params: any) => IQueryResult = () => ({
+    data: null,
+    error: null,
+  }),
+): ISupabaseMock {
+  const queries: IRecordedQuery[] = [];
+
+  const createBuilder = (table: string) => {
+    const query: IRecordedQuery = { table, operation: 'select', filters: {} };
+    const builder: any = {};
+
+    builder.select = () => builder;
+    for (const operation of ['insert', 'update', 'upsert'] as const) {
+      builder[operation] = (payload: any) => {
+        query.operation = operation;
+        query.payload = payload;
+        return builder;
+      };
+    }
+    builder.delete = () => {
+      query.operation = 'delete';
+      return builder;
+    };
+    builder.eq = (column: string, value: any) => {
+      query.filters[column] = value;
+      return builder;
+    };
+    for (const filter of FILTERS) {
+      builder[filter] = (column: string, value: any) => {
+        query.filters[`${filter}:${column}`] = value;
+        return builder;
+      };
+    }
+    builder.not = (column: string, operator: string, value: any) => {
+      query.filters[`not:${column}`] = `${operator}.${value}`;
+      return builder;
+    };
+    for (const method of PASSTHROUGH) {
+      builder[method] = () => builder;
+    }
+    builder.then = (
+      resolve: (result: IQueryResult) => unknown,
+      reject: (error: unknown) => unknown,
+    ) => {
+      queries.push(query);
+      return Promise.resolve()
+        .then(() => handler(query))
+        .then(resolve, reject);
+    };
+
+    return builder;
+  };
+
+  const client = {
+    from: jest.fn((table: string) => createBuilder(table)),
+    rpc: jest.fn((fn: string, params: any) => Promise.resolve(rpc(fn, params))),
+  };
+
+  return {
+    supabaseService: { getClient: () => client } as unknown as SupabaseService,
+    client,
+    queries,
+  };
+}
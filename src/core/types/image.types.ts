@@ -0,0 +1,41 @@
+export type ImageFormat = 'webp' | 'avif';
+
+/**
+ * One encoded size/format of an uploaded image, ready to store
+ */
+export interface IProcessedVariant {
+  width: number;
+  height: number;
+  format: ImageFormat;
+  contentType: string;
+  buffer: Buffer;
+}
+
+export interface IProcessedImage {
+  width: number;
+  height: number;
+  blurhash: string;
+  variants: IProcessedVariant[];
+}
+
+/**
+ * Stored variant as exposed on image records
+ */
+export interface IImageVariant {
+  url: string;
+  width: number;
+  height: number;
+  format: ImageFormat;
+}
+
+/**
+ * Result of storing a processed image. `url` is the default variant
+ * (largest WebP) and is what the existing *_url columns hold.
+ */
+export interface IStoredImage {
+  url: string;
+  width: number;
+  height: number;
+  blurhash: string;
+  variants: IImageVariant[];
+}
@@ -0,0 +1,206 @@
+import { BadRequestException } from '@nestjs/common';
+
+export type CursorDirection = 'next' | 'prev';
+
+/**
+ * Sort a list is paginated by. `id` is always added as the tie-breaker
+ * so every row has a unique position.
+ */
+export interface ICursorSort {
+  column: string;
+  ascending: boolean;
+}
+
+/**
+ * Decoded cursor: the boundary row's sort value and id, the direction
+ * to read in and the sort it was issued for
+ */
+export interface ICursor {
+  value: string | number | boolean | null;
+  id: string;
+  direction: CursorDirection;
+  column: string;
+  ascending: boolean;
+}
+
+export interface IPaginationOptions {
+  sort: ICursorSort;
+  limit: number;
+  page?: number;
+  cursor?: ICursor | null;
+}
+
+export interface ICursorPage<T> {
+  rows: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+/**
+ * Minimal shape of a PostgREST filter builder used by paginate()
+ */
+interface IPaginatableQuery {
+  or(filters: string): this;
+  order(column: string, options: { ascending: boolean }): this;
+  range(from: number, to: number): this;
+  limit(count: number): this;
+}
+
+/**
+ * Keyset (cursor) pagination on top of PostgREST queries.
+ *
+ * Cursors are opaque base64url tokens. A list can be read either with
+ * page/limit (offset) or with a cursor; both modes return cursors so a
+ * client can switch to infinite scroll from any page.
+ */
+export class CursorUtil {
+  /**
+   * Decode a cursor from the query string. Rejects malformed cursors and
+   * cursors issued for a different sort.
+   */
+  static decode(cursor: string, sort: ICursorSort): ICursor {
+    let decoded: ICursor;
+
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new BadRequestException('common.cursor.invalid');
+    }
+
+    if (
+      !decoded ||
+      typeof decoded.id !== 'string' ||
+      (decoded.direction !== 'next' && decoded.direction !== 'prev') ||
+      decoded.column !== sort.column ||
+      decoded.ascending !== sort.ascending
+    ) {
+      throw new BadRequestException('common.cursor.invalid');
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Apply ordering and either the keyset filter (cursor given) or the
+   * offset range. Cursor reads fetch one extra row to detect more data.
+   */
+  static paginate<Q extends IPaginatableQuery>(
+    query: Q,
+    options: IPaginationOptions,
+  ): Q {
+    const { sort, limit, page = 1, cursor } = options;
+
+    if (!cursor) {
+      return query
+        .order(sort.column, { ascending: sort.ascending })
+        .order('id', { ascending: sort.ascending })
+        .range((page - 1) * limit, page * limit - 1);
+    }
+
+    // Reading backwards is reading forwards in the reversed order
+    const ascending =
+      cursor.direction === 'next' ? sort.ascending : !sort.ascending;
+
+    return query
+      .or(this.buildFilter(sort.column, ascending, cursor))
+      .order(sort.column, { ascending })
+      .order('id', { ascending })
+      .limit(limit + 1);
+  }
+
+  /**
+   * Trim the fetched rows to the page and build the next/prev cursors
+   * from the boundary rows. `total` is only used in offset mode.
+   */
+  static toPage<T extends Record<string, any>>(
+    data: T[],
+    options: IPaginationOptions,
+    total: number,
+  ): ICursorPage<T> {
+    const { sort, limit, page = 1, cursor } = options;
+
+    let rows: T[];
+    let hasNext: boolean;
+    let hasPrev: boolean;
+
+    if (!cursor) {
+      rows = data;
+      hasNext = page * limit < total;
+      hasPrev = page > 1;
+    } else {
+      const hasMore = data.length > limit;
+      rows = data.slice(0, limit);
+
+      if (cursor.direction === 'next') {
+        hasNext = hasMore;
+        // The cursor row itself precedes this page
+        hasPrev = true;
+      } else {
+        rows = rows.reverse();
+        hasNext = true;
+        hasPrev = hasMore;
+      }
+    }
+
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+
+    return {
+      rows,
+      nextCursor: hasNext && last ? this.encode(last, sort, 'next') : null,
+      prevCursor: hasPrev && first ? this.encode(first, sort, 'prev') : null,
+    };
+  }
+
+  private static encode(
+    row: Record<string, any>,
+    sort: ICursorSort,
+    direction: CursorDirection,
+  ): string {
+    const cursor: ICursor = {
+      value: row[sort.column] ?? null,
+      id: row.id,
+      direction,
+      column: sort.column,
+      ascending: sort.ascending,
+    };
+
+    return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+  }
+
+  /**
+   * Rows strictly after the cursor row in the given order. Postgres sorts
+   * NULLs last ascending and first descending, so they need their own
+   * branches.
+   */
+  private static buildFilter(
+    column: string,
+    ascending: boolean,
+    cursor: ICursor,
+  ): string {
+    const op = ascending ? 'gt' : 'lt';
+    const id = this.quote(cursor.id);
+
+    if (cursor.value === null) {
+      return ascending
+        ? `and(${column}.is.null,id.${op}.${id})`
+        : `${column}.not.is.null,and(${column}.is.null,id.${op}.${id})`;
+    }
+
+    const value = this.quote(cursor.value);
+    const filters = [
+      `${column}.${op}.${value}`,
+      `and(${column}.eq.${value},id.${op}.${id})`,
+    ];
+
+    if (ascending) {
+      filters.push(`${column}.is.null`);
+    }
+
+    return filters.join(',');
+  }
+
+  private static quote(value: string | number | boolean): string {
+    return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+}
@@ -38,5 +38,84 @@ export class RequestUtil {
 
     return 'en';
   }
-}
 
+  /**
+   * Extracts the client IP address. Behind a proxy (e.g. Vercel), Express
+   * resolves it from X-Forwarded-For for the TRUST_PROXY_HOPS trusted hops
+   * only; the raw header is client-controlled and never read directly.
+   *
+   * @param req Express request object
+   * @returns IP address or null if unavailable
+   */
+  static getClientIp(req: Request): string | null {
+    return req.ip || req.socket?.remoteAddress || null;
+  }
+
+  /**
+   * Extracts the User-Agent header.
+   *
+   * @param req Express request object
+   * @returns User agent string or null if missing
+   */
+  static getUserAgent(req: Request): string | null {
+    return req.headers['user-agent'] || null;
+  }
+
+  /**
+   * Detects crawlers, link previewers and scripted HTTP clients from the
+   * User-Agent header. Requests without a user agent count as bots.
+   *
+   * @param req Express request object
+   * @returns True if the request most likely comes from a bot
+   */
+  static isBot(req: Request): boolean {
+    const userAgent = this.getUserAgent(req);
+
+    if (!userAgent) {
+      return true;
+    }
+
+    return /bot|crawl|spider|slurp|preview|facebookexternalhit|headless|lighthouse|curl|wget|python-requests|axios|node-fetch|go-http-client|okhttp|java\//i.test(
+      userAgent,
+    );
+  }
+
+  /**
+   * Builds a short human-readable device label from the User-Agent header,
+   * e.g. "Chrome on Windows".
+   *
+   * @param req Express request object
+   * @returns Device label or null if the user agent is missing
+   */
+  static getDeviceName(req: Request): string | null {
+    const userAgent = this.getUserAgent(req);
+
+    if (!userAgent) {
+      return null;
+    }
+
+    const browsers: Array<[RegExp, string]> = [
+      [/Edg\//, 'Edge'],
+      [/OPR\//, 'Opera'],
+      [/Firefox\//, 'Firefox'],
+      [/Chrome\//, 'Chrome'],
+      [/Safari\//, 'Safari'],
+    ];
+    const platforms: Array<[RegExp, string]> = [
+      [/Android/, 'Android'],
+      [/iPhone|iPad|iPod/, 'iOS'],
+      [/Windows/, 'Windows'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/Linux/, 'Linux'],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = platforms.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && platform) {
+      return `${browser} on ${platform}`;
+    }
+
+    return browser || platform || 'Unknown device';
+  }
+}
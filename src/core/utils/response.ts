@@ -31,6 +31,17 @@ export interface PaginationMeta {
   totalPages: number;
   isNextPage: boolean;
   isPrevPage: boolean;
+  // Opaque cursors for keyset pagination, on lists that support it
+  nextCursor?: string | null;
+  prevCursor?: string | null;
+}
+
+/**
+ * Cursors for the pages around the current one
+ */
+export interface PaginationCursors {
+  nextCursor: string | null;
+  prevCursor: string | null;
 }
 
 /**
@@ -134,6 +145,7 @@ export class ResponseUtil {
    * @param limit - Number of items per page.
    * @param message - A human-readable success message (defaults to `'Success'`).
    * @param lang - The language code for the message (defaults to `'en'`).
+   * @param cursors - Next/prev cursors; when given they also drive `isNextPage`/`isPrevPage`.
    * @returns A StandardResponse with wrapped array and pagination metadata.
    *
    * @example
@@ -149,17 +161,29 @@ export class ResponseUtil {
     limit: number,
     message: string = 'common.success',
     lang?: string,
+    cursors?: PaginationCursors,
   ): StandardResponse<ArrayDataWithMeta<T>> {
     const language = this.getLang(lang);
     const totalPages = Math.ceil(total / limit);
-    const meta: PaginationMeta = {
-      page,
-      total,
-      limit,
-      totalPages,
-      isNextPage: page < totalPages,
-      isPrevPage: page > 1,
-    };
+    const meta: PaginationMeta = cursors
+      ? {
+          page,
+          total,
+          limit,
+          totalPages,
+          isNextPage: cursors.nextCursor !== null,
+          isPrevPage: cursors.prevCursor !== null,
+          nextCursor: cursors.nextCursor,
+          prevCursor: cursors.prevCursor,
+        }
+      : {
+          page,
+          total,
+          limit,
+          totalPages,
+          isNextPage: page < totalPages,
+          isPrevPage: page > 1,
+        };
 
     return {
       status: 'success',
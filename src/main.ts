@@ -2,27 +2,50 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { NestExpressApplication } from '@nestjs/platform-express';
-import { join } from 'path';
 import cookieParser from 'cookie-parser';
 import helmet from 'helmet';
 import { AppModule } from './app.module';
 import { HttpExceptionFilter } from './core/filters/http-exception.filter';
 import { TransformInterceptor } from './core/interceptors/transform.interceptor';
+import {
+  LOCAL_STORAGE_ROOT,
+  LOCAL_STORAGE_URL_PREFIX,
+} from './constants/storage.constants';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
   const app = await NestFactory.create<NestExpressApplication>(AppModule);
   const configService = app.get(ConfigService);
 
+  // Only trust X-Forwarded-For from the configured number of proxies in
+  // front of the app, so req.ip cannot be spoofed by the client. Vercel
+  // (which sets VERCEL) is one hop; elsewhere production must say, or
+  // every client would share the proxy's IP (lockouts, view dedup, caps)
+  const trustProxySetting =
+    configService.get<string>('TRUST_PROXY_HOPS') ||
+    (configService.get<string>('VERCEL') ? '1' : undefined);
+
+  if (
+    trustProxySetting === undefined &&
+    configService.get<string>('NODE_ENV') === 'production'
+  ) {
+    throw new Error(
+      'TRUST_PROXY_HOPS must be set in production (0 when clients connect directly)',
+    );
+  }
+
+  const trustProxyHops = parseInt(trustProxySetting || '0', 10);
+  app.set('trust proxy', trustProxyHops > 0 ? trustProxyHops : false);
+
   // Security: Helmet for HTTP headers
   app.use(helmet());
 
   // Cookie parser middleware
   app.use(cookieParser());
 
-  // Serve static files
-  app.useStaticAssets(join(__dirname, '..', 'uploads'), {
-    prefix: '/uploads/',
+  // Serve static files (also where the local storage driver writes)
+  app.useStaticAssets(LOCAL_STORAGE_ROOT, {
+    prefix: LOCAL_STORAGE_URL_PREFIX,
   });
 
   // Enable CORS with proper configuration
@@ -43,7 +66,13 @@ async function bootstrap() {
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'Accept-Language'],
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'Accept-Language',
+      'X-Auth-Mode',
+      'X-CSRF-Token',
+    ],
   });
 
   // Global validation pipe with strict validation
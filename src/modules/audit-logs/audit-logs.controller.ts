@@ -0,0 +1,33 @@
+import { Controller, Get, Query, UseGuards, Request } from '@nestjs/common';
+import { AuditLogsService } from './audit-logs.service';
+import { QueryAuditLogDto } from './dto/query-audit-log.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
+import { ResponseUtil, StandardResponse } from '../../core/utils/response';
+import { RequestUtil } from '../../core/utils/request.util';
+
+@Controller('audit-logs')
+export class AuditLogsController {
+  constructor(private readonly auditLogsService: AuditLogsService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  async findAll(
+    @Query() queryDto: QueryAuditLogDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const result = await this.auditLogsService.findAll(queryDto);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successList(
+      result.logs,
+      result.total,
+      result.page,
+      result.limit,
+      'auditLogs.findAll.success',
+      lang,
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { AuditLogsService } from './audit-logs.service';
+import { AuditLogsController } from './audit-logs.controller';
+import { AuditInterceptor } from './interceptors/audit.interceptor';
+import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+
+@Module({
+  controllers: [AuditLogsController],
+  providers: [
+    AuditLogsService,
+    SupabaseService,
+    // Global, but only acts on routes marked with @Audited()
+    { provide: APP_INTERCEPTOR, useClass: AuditInterceptor },
+  ],
+  exports: [AuditLogsService],
+})
+export class AuditLogsModule {}
@@ -0,0 +1,161 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { BaseService } from '../../core/services/base.service';
+import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+import { QueryAuditLogDto } from './dto/query-audit-log.dto';
+import {
+  IAuditChanges,
+  IAuditEntry,
+  IAuditLog,
+  IAuditLogsListResponse,
+  IAuditOptions,
+} from './types/audit-log.types';
+
+@Injectable()
+export class AuditLogsService extends BaseService {
+  private readonly DEFAULT_PAGE = 1;
+  private readonly DEFAULT_LIMIT = 20;
+  private readonly logger = new Logger(AuditLogsService.name);
+
+  // Secrets are never copied into the audit trail
+  private readonly REDACTED_FIELDS = [
+    'password_hash',
+    'two_factor_secret',
+    'two_factor_last_step',
+  ];
+
+  constructor(supabaseService: SupabaseService) {
+    super(supabaseService);
+  }
+
+  /**
+   * Current row of the audited entity, or null if it does not exist
+   */
+  async getSnapshot(
+    options: IAuditOptions,
+    value: string,
+    column = options.column || 'id',
+  ): Promise<Record<string, any> | null> {
+    const { data } = await this.getClient()
+      .from(options.table)
+      .select(options.select || '*')
+      .eq(column, value)
+      .maybeSingle();
+
+    return (data as Record<string, any>) || null;
+  }
+
+  /**
+   * Persist an entry. Failures are logged, never thrown: the mutation
+   * has already happened and must not be reported as failed.
+   */
+  async record(entry: IAuditEntry): Promise<void> {
+    const { error } = await this.getClient().from('audit_logs').insert({
+      actor_id: entry.actorId,
+      actor_role: entry.actorRole,
+      impersonated_by: entry.impersonatedBy,
+      action: entry.action,
+      entity_type: entry.entityType,
+      entity_id: entry.entityId,
+      changes: entry.changes,
+      ip_address: entry.ipAddress,
+      user_agent: entry.userAgent,
+    });
+
+    if (error) {
+      this.logger.error(
+        `Failed to write audit log for ${entry.action} ${entry.entityType} ${entry.entityId}: ${error.message}`,
+      );
+    }
+  }
+
+  async findAll(queryDto: QueryAuditLogDto): Promise<IAuditLogsListResponse> {
+    const {
+      page = this.DEFAULT_PAGE,
+      limit = this.DEFAULT_LIMIT,
+      entityType,
+      entityId,
+      actorId,
+      action,
+      from,
+      to,
+    } = queryDto;
+
+    let query = this.getClient()
+      .from('audit_logs')
+      .select('*', { count: 'exact' });
+
+    if (entityType) query = query.eq('entity_type', entityType);
+    if (entityId) query = query.eq('entity_id', entityId);
+    if (actorId) query = query.eq('actor_id', actorId);
+    if (action) query = query.eq('action', action);
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lte('created_at', to);
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range((page - 1) * limit, page * limit - 1);
+
+    if (error) {
+      throw new BadRequestException('auditLogs.findAll.failed');
+    }
+
+    return {
+      logs: (data || []).map((log) => this.mapToAuditLog(log)),
+      total: count || 0,
+      page,
+      limit,
+      totalPages: Math.ceil((count || 0) / limit),
+    };
+  }
+
+  /**
+   * Field-level diff of two snapshots. Nested values (JSON columns,
+   * embedded translations) are compared as a whole.
+   */
+  diff(
+    before: Record<string, any> | null,
+    after: Record<string, any> | null,
+  ): IAuditChanges {
+    const changes: IAuditChanges = {};
+    const fields = new Set([
+      ...Object.keys(before || {}),
+      ...Object.keys(after || {}),
+    ]);
+
+    for (const field of fields) {
+      // Derived columns change with the content they are built from
+      if (field === 'updated_at' || field === 'search_vector') {
+        continue;
+      }
+
+      const from = before?.[field] ?? null;
+      const to = after?.[field] ?? null;
+
+      if (JSON.stringify(from) === JSON.stringify(to)) {
+        continue;
+      }
+
+      changes[field] = this.REDACTED_FIELDS.includes(field)
+        ? { from: '[redacted]', to: '[redacted]' }
+        : { from, to };
+    }
+
+    return changes;
+  }
+
+  private mapToAuditLog(data: any): IAuditLog {
+    return {
+      id: data.id,
+      actorId: data.actor_id,
+      actorRole: data.actor_role,
+      impersonatedBy: data.impersonated_by,
+      action: data.action,
+      entityType: data.entity_type,
+      entityId: data.entity_id,
+      changes: data.changes || {},
+      ipAddress: data.ip_address,
+      userAgent: data.user_agent,
+      createdAt: data.created_at,
+    };
+  }
+}
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { IAuditOptions } from '../types/audit-log.types';
+
+export const AUDIT_KEY = 'audit';
+
+/**
+ * Record the route's mutation in the audit log (see AuditInterceptor).
+ * The entity row is snapshotted before and after the handler runs.
+ */
+export const Audited = (options: IAuditOptions) =>
+  SetMetadata(AUDIT_KEY, options);
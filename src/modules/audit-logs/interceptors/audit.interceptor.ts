@@ -0,0 +1,93 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable, from } from 'rxjs';
+import { switchMap, tap } from 'rxjs/operators';
+import { AuditLogsService } from '../audit-logs.service';
+import { AUDIT_KEY } from '../decorators/audited.decorator';
+import { IAuditOptions } from '../types/audit-log.types';
+import { RequestUtil } from '../../../core/utils/request.util';
+
+const METHOD_ACTIONS: Record<string, string> = {
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+/**
+ * Writes an audit log entry for routes marked with @Audited().
+ * Only successful mutations are recorded; the entry is written after
+ * the response so it never slows down or fails the request.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private reflector: Reflector,
+    private auditLogsService: AuditLogsService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const options = this.reflector.get<IAuditOptions | undefined>(
+      AUDIT_KEY,
+      context.getHandler(),
+    );
+
+    if (!options) {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const paramValue: string | undefined = options.param
+      ? request.params?.[options.param]
+      : options.value;
+
+    const loadBefore = paramValue
+      ? this.auditLogsService.getSnapshot(options, paramValue)
+      : Promise.resolve(null);
+
+    return from(loadBefore).pipe(
+      switchMap((before) =>
+        next.handle().pipe(
+          tap((response) => {
+            void this.record(options, request, paramValue, before, response);
+          }),
+        ),
+      ),
+    );
+  }
+
+  private async record(
+    options: IAuditOptions,
+    request: any,
+    paramValue: string | undefined,
+    before: Record<string, any> | null,
+    response: any,
+  ): Promise<void> {
+    // Creates have no route param, take the new id from the response
+    const createdId: string | undefined =
+      response?.data?.data?.id ?? response?.data?.id;
+
+    const after = paramValue
+      ? await this.auditLogsService.getSnapshot(options, paramValue)
+      : createdId
+        ? await this.auditLogsService.getSnapshot(options, createdId, 'id')
+        : null;
+
+    await this.auditLogsService.record({
+      actorId: request.user?.sub || request.user?.id || null,
+      actorRole: request.user?.role || null,
+      impersonatedBy: request.user?.impersonatedBy || null,
+      action: options.action || METHOD_ACTIONS[request.method] || 'update',
+      entityType: options.entityType,
+      entityId: paramValue ?? createdId ?? null,
+      changes: this.auditLogsService.diff(before, after),
+      ipAddress: RequestUtil.getClientIp(request),
+      userAgent: RequestUtil.getUserAgent(request),
+    });
+  }
+}
@@ -0,0 +1,46 @@
+export interface IAuditOptions {
+  entityType: string;
+  table: string;
+  // Defaults to create/update/delete from the HTTP method
+  action?: string;
+  // Route param holding the entity identifier; omitted for creates
+  param?: string;
+  // Fixed identifier for routes that always touch the same row
+  value?: string;
+  // Column the param matches (defaults to 'id')
+  column?: string;
+  // PostgREST select used for the before/after snapshots
+  select?: string;
+}
+
+export interface IAuditFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export type IAuditChanges = Record<string, IAuditFieldChange>;
+
+export interface IAuditEntry {
+  actorId: string | null;
+  actorRole: string | null;
+  impersonatedBy: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  changes: IAuditChanges;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface IAuditLog extends IAuditEntry {
+  id: string;
+  createdAt: string;
+}
+
+export interface IAuditLogsListResponse {
+  logs: IAuditLog[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
@@ -2,12 +2,20 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
   Body,
+  Param,
+  ParseUUIDPipe,
+  ParseEnumPipe,
   HttpCode,
   HttpStatus,
   Request,
+  Res,
   UseGuards,
+  ForbiddenException,
 } from '@nestjs/common';
+import type { Response } from 'express';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
 import { AuthService } from './auth.service';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
@@ -17,10 +25,27 @@ import { VerifyEmailDto } from './dto/verify-email.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { ResendVerificationDto } from './dto/resend-verification.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
+import { RecoverTwoFactorDto } from './dto/recover-two-factor.dto';
+import { OAuthCallbackDto } from './dto/oauth-callback.dto';
+import { MagicLinkDto } from './dto/magic-link.dto';
+import { VerifyMagicLinkDto } from './dto/verify-magic-link.dto';
+import { RequestEmailChangeDto } from './dto/request-email-change.dto';
+import { ConfirmEmailChangeDto } from './dto/confirm-email-change.dto';
+import { CancelEmailChangeDto } from './dto/cancel-email-change.dto';
+import { OAuthProvider } from './enums/oauth-provider.enum';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { NoImpersonationGuard } from './guards/no-impersonation.guard';
+import { Roles } from './decorators/roles.decorator';
+import { Audited } from '../audit-logs/decorators/audited.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
 import { ResponseUtil, StandardResponse } from '../../core/utils/response';
 import { RequestUtil } from '../../core/utils/request.util';
 import { UnauthorizedException } from '@nestjs/common';
+import { IAuthResponse, ISessionMetadata } from './types/auth.types';
+import { AuthCookieUtil } from './utils/auth-cookie.util';
 
 @Controller('auth')
 export class AuthController {
@@ -47,11 +72,66 @@ export class AuthController {
   async login(
     @Body() loginDto: LoginDto,
     @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
   ): Promise<StandardResponse<any>> {
-    const result = await this.authService.login(loginDto);
+    const result = await this.authService.login(
+      loginDto,
+      this.getSessionMetadata(req),
+    );
     const lang = RequestUtil.getLanguage(req);
+
+    // 2FA enabled: the client must call /auth/2fa/verify with the challenge
+    if (!('tokens' in result)) {
+      return ResponseUtil.successSingle(
+        result,
+        'auth.twoFactor.challenge',
+        lang,
+        false,
+      );
+    }
+
     return ResponseUtil.successSingle(
-      result,
+      this.toLoginPayload(req, res, result),
+      'auth.login.success',
+      lang,
+      false,
+    );
+  }
+
+  @Post('2fa/verify')
+  @HttpCode(HttpStatus.OK)
+  async verifyTwoFactor(
+    @Body() verifyTwoFactorDto: VerifyTwoFactorDto,
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StandardResponse<any>> {
+    const result = await this.authService.verifyTwoFactorLogin(
+      verifyTwoFactorDto,
+      this.getSessionMetadata(req),
+    );
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(
+      this.toLoginPayload(req, res, result),
+      'auth.login.success',
+      lang,
+      false,
+    );
+  }
+
+  @Post('2fa/recover')
+  @HttpCode(HttpStatus.OK)
+  async recoverTwoFactor(
+    @Body() recoverTwoFactorDto: RecoverTwoFactorDto,
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StandardResponse<any>> {
+    const result = await this.authService.recoverTwoFactorLogin(
+      recoverTwoFactorDto,
+      this.getSessionMetadata(req),
+    );
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(
+      this.toLoginPayload(req, res, result),
       'auth.login.success',
       lang,
       false,
@@ -63,9 +143,32 @@ export class AuthController {
   async refreshToken(
     @Body() refreshTokenDto: RefreshTokenDto,
     @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
   ): Promise<StandardResponse<any>> {
-    const result = await this.authService.refreshToken(refreshTokenDto);
+    const cookieToken = !refreshTokenDto.refreshToken
+      ? AuthCookieUtil.getRefreshToken(req)
+      : null;
+
+    if (cookieToken && !AuthCookieUtil.hasValidCsrfToken(req)) {
+      throw new ForbiddenException('auth.csrf.invalid');
+    }
+
+    const result = await this.authService.refreshToken(
+      cookieToken ? { refreshToken: cookieToken } : refreshTokenDto,
+      this.getSessionMetadata(req),
+    );
     const lang = RequestUtil.getLanguage(req);
+
+    if (cookieToken || AuthCookieUtil.isCookieMode(req)) {
+      const csrfToken = AuthCookieUtil.setAuthCookies(res, result);
+      return ResponseUtil.successSingle(
+        { expiresIn: result.expiresIn, csrfToken },
+        'auth.refreshToken.success',
+        lang,
+        false,
+      );
+    }
+
     return ResponseUtil.successSingle(
       result,
       'auth.refreshToken.success',
@@ -74,6 +177,127 @@ export class AuthController {
     );
   }
 
+  @Post('magic-link')
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  async requestMagicLink(
+    @Body() magicLinkDto: MagicLinkDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    await this.authService.requestMagicLink(
+      magicLinkDto,
+      RequestUtil.getClientIp(req),
+    );
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(null, 'auth.magicLink.sent', lang);
+  }
+
+  @Post('magic-link/verify')
+  @UseGuards(ThrottlerGuard)
+  @HttpCode(HttpStatus.OK)
+  async verifyMagicLink(
+    @Body() verifyMagicLinkDto: VerifyMagicLinkDto,
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StandardResponse<any>> {
+    const result = await this.authService.verifyMagicLink(
+      verifyMagicLinkDto,
+      this.getSessionMetadata(req),
+    );
+    const lang = RequestUtil.getLanguage(req);
+
+    if (!('tokens' in result)) {
+      return ResponseUtil.successSingle(
+        result,
+        'auth.twoFactor.challenge',
+        lang,
+        false,
+      );
+    }
+
+    return ResponseUtil.successSingle(
+      this.toLoginPayload(req, res, result),
+      'auth.login.success',
+      lang,
+      false,
+    );
+  }
+
+  @Get('oauth/accounts')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async getOAuthAccounts(@Request() req: any): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    if (!userId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+    const accounts = await this.authService.getOAuthAccounts(userId);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(
+      accounts,
+      'auth.oauth.accounts.success',
+      lang,
+    );
+  }
+
+  @Get('oauth/:provider/authorize')
+  @HttpCode(HttpStatus.OK)
+  async getOAuthAuthorization(
+    @Param('provider', new ParseEnumPipe(OAuthProvider))
+    provider: OAuthProvider,
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StandardResponse<any>> {
+    const nonce = AuthCookieUtil.setOAuthStateCookie(res);
+    const result = this.authService.getOAuthAuthorization(provider, nonce);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(
+      result,
+      'auth.oauth.authorize.success',
+      lang,
+      false,
+    );
+  }
+
+  @Post('oauth/:provider/callback')
+  @HttpCode(HttpStatus.OK)
+  async oauthCallback(
+    @Param('provider', new ParseEnumPipe(OAuthProvider))
+    provider: OAuthProvider,
+    @Body() oauthCallbackDto: OAuthCallbackDto,
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StandardResponse<any>> {
+    // The state is single-use: drop the nonce whatever the outcome
+    const nonce = AuthCookieUtil.getOAuthStateNonce(req);
+    AuthCookieUtil.clearOAuthStateCookie(res);
+
+    const result = await this.authService.oauthLogin(
+      provider,
+      oauthCallbackDto,
+      nonce,
+      this.getSessionMetadata(req),
+    );
+    const lang = RequestUtil.getLanguage(req);
+
+    if (!('tokens' in result)) {
+      return ResponseUtil.successSingle(
+        result,
+        'auth.twoFactor.challenge',
+        lang,
+        false,
+      );
+    }
+
+    return ResponseUtil.successSingle(
+      this.toLoginPayload(req, res, result),
+      'auth.login.success',
+      lang,
+      false,
+    );
+  }
+
   @Post('forgot-password')
   @HttpCode(HttpStatus.OK)
   async forgotPassword(
@@ -95,7 +319,10 @@ export class AuthController {
     @Body() resetPasswordDto: ResetPasswordDto,
     @Request() req: any,
   ): Promise<StandardResponse<any>> {
-    await this.authService.resetPassword(resetPasswordDto);
+    await this.authService.resetPassword(
+      resetPasswordDto,
+      RequestUtil.getClientIp(req),
+    );
     const lang = RequestUtil.getLanguage(req);
     return ResponseUtil.successSingle(null, 'auth.resetPassword.success', lang);
   }
@@ -106,7 +333,10 @@ export class AuthController {
     @Body() verifyEmailDto: VerifyEmailDto,
     @Request() req: any,
   ): Promise<StandardResponse<any>> {
-    await this.authService.verifyEmail(verifyEmailDto);
+    await this.authService.verifyEmail(
+      verifyEmailDto,
+      RequestUtil.getClientIp(req),
+    );
     const lang = RequestUtil.getLanguage(req);
     return ResponseUtil.successSingle(null, 'auth.verifyAccount.success', lang);
   }
@@ -140,7 +370,7 @@ export class AuthController {
   }
 
   @Post('change-password')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
   @HttpCode(HttpStatus.OK)
   async changePassword(
     @Request() req: any,
@@ -159,16 +389,298 @@ export class AuthController {
     );
   }
 
+  @Post('email-change')
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @HttpCode(HttpStatus.OK)
+  async requestEmailChange(
+    @Request() req: any,
+    @Body() requestEmailChangeDto: RequestEmailChangeDto,
+  ): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    if (!userId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+    await this.authService.requestEmailChange(userId, requestEmailChangeDto);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(
+      null,
+      'auth.emailChange.request.success',
+      lang,
+    );
+  }
+
+  @Post('email-change/confirm')
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @HttpCode(HttpStatus.OK)
+  async confirmEmailChange(
+    @Request() req: any,
+    @Body() confirmEmailChangeDto: ConfirmEmailChangeDto,
+  ): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    if (!userId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+    const user = await this.authService.confirmEmailChange(
+      userId,
+      confirmEmailChangeDto.code,
+    );
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(
+      user,
+      'auth.emailChange.confirm.success',
+      lang,
+    );
+  }
+
+  @Post('email-change/cancel')
+  @HttpCode(HttpStatus.OK)
+  async cancelEmailChange(
+    @Body() cancelEmailChangeDto: CancelEmailChangeDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    await this.authService.cancelEmailChange(cancelEmailChangeDto.token);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(
+      null,
+      'auth.emailChange.cancel.success',
+      lang,
+    );
+  }
+
+  // Also ends an impersonation early: only its own session is revoked
   @Post('logout')
   @UseGuards(JwtAuthGuard)
   @HttpCode(HttpStatus.OK)
-  async logout(@Request() req: any): Promise<StandardResponse<any>> {
+  async logout(
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StandardResponse<any>> {
     const userId = req.user?.sub || req.user?.id;
     if (!userId) {
       throw new UnauthorizedException('auth.user.notAuthenticated');
     }
-    await this.authService.logout(userId);
+    await this.authService.logout(userId, req.user?.sessionId);
+    // Impersonation tokens come as a Bearer header: the cookies are the admin's
+    if (!req.user?.impersonatedBy) {
+      AuthCookieUtil.clearAuthCookies(res);
+    }
     const lang = RequestUtil.getLanguage(req);
     return ResponseUtil.successSingle(null, 'auth.logout.success', lang);
   }
+
+  @Post('logout/all')
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @HttpCode(HttpStatus.OK)
+  async logoutEverywhere(
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    if (!userId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+    await this.authService.logoutEverywhere(userId);
+    AuthCookieUtil.clearAuthCookies(res);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(null, 'auth.logout.allSuccess', lang);
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async getSessions(@Request() req: any): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    if (!userId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+    const sessions = await this.authService.getSessions(
+      userId,
+      req.user?.sessionId,
+    );
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(sessions, 'auth.sessions.success', lang);
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @HttpCode(HttpStatus.OK)
+  async revokeSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    if (!userId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+    await this.authService.revokeSession(userId, id);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(
+      null,
+      'auth.sessions.revoke.success',
+      lang,
+    );
+  }
+
+  @Post('2fa/setup')
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @HttpCode(HttpStatus.OK)
+  async setupTwoFactor(@Request() req: any): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    if (!userId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+    const result = await this.authService.setupTwoFactor(userId);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(
+      result,
+      'auth.twoFactor.setup.success',
+      lang,
+      false,
+    );
+  }
+
+  @Post('2fa/enable')
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @HttpCode(HttpStatus.OK)
+  async enableTwoFactor(
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    if (!userId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+    const result = await this.authService.enableTwoFactor(
+      userId,
+      twoFactorCodeDto.code,
+    );
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(
+      result,
+      'auth.twoFactor.enable.success',
+      lang,
+      false,
+    );
+  }
+
+  @Post('2fa/disable')
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @HttpCode(HttpStatus.OK)
+  async disableTwoFactor(
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    if (!userId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+    await this.authService.disableTwoFactor(userId, twoFactorCodeDto.code);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(
+      null,
+      'auth.twoFactor.disable.success',
+      lang,
+    );
+  }
+
+  @Post('2fa/recovery-codes')
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @HttpCode(HttpStatus.OK)
+  async regenerateRecoveryCodes(
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    if (!userId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+    const result = await this.authService.regenerateRecoveryCodes(
+      userId,
+      twoFactorCodeDto.code,
+    );
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(
+      result,
+      'auth.twoFactor.recoveryCodes.success',
+      lang,
+      false,
+    );
+  }
+
+  @Post('accounts/:userId/unlock')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({
+    entityType: 'user',
+    table: 'users',
+    param: 'userId',
+    action: 'unlock',
+  })
+  @HttpCode(HttpStatus.OK)
+  async unlockAccount(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    await this.authService.unlockAccount(userId);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(
+      null,
+      'auth.lockout.unlock.success',
+      lang,
+    );
+  }
+
+  @Post('impersonate/:userId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({
+    entityType: 'user',
+    table: 'users',
+    param: 'userId',
+    action: 'impersonate',
+  })
+  @HttpCode(HttpStatus.OK)
+  async impersonate(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const adminId = req.user?.sub || req.user?.id;
+    if (!adminId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+
+    const result = await this.authService.impersonate(userId, adminId);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(
+      result,
+      'auth.impersonation.success',
+      lang,
+      false,
+    );
+  }
+
+  /**
+   * In cookie mode, move the tokens into HTTP-only cookies so they
+   * never reach the frontend's JavaScript
+   */
+  private toLoginPayload(req: any, res: Response, result: IAuthResponse) {
+    if (!AuthCookieUtil.isCookieMode(req)) {
+      return result;
+    }
+
+    const csrfToken = AuthCookieUtil.setAuthCookies(res, result.tokens);
+    return {
+      user: result.user,
+      expiresIn: result.tokens.expiresIn,
+      csrfToken,
+    };
+  }
+
+  private getSessionMetadata(req: any): ISessionMetadata {
+    return {
+      deviceName: RequestUtil.getDeviceName(req),
+      ipAddress: RequestUtil.getClientIp(req),
+      userAgent: RequestUtil.getUserAgent(req),
+    };
+  }
 }
@@ -10,6 +10,8 @@ import { UsersModule } from '../users/users.module';
 import { MailerModule } from '../mailer/mailer.module';
 import { SupabaseService } from '../../core/lib/supabase/supabase.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { LoginAttemptsService } from './login-attempts.service';
+import { OAuthProviderRegistry } from './oauth/oauth-provider.registry';
 
 @Module({
   imports: [
@@ -37,7 +39,13 @@ import { JwtStrategy } from './strategies/jwt.strategy';
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, SupabaseService, JwtStrategy],
+  providers: [
+    AuthService,
+    LoginAttemptsService,
+    OAuthProviderRegistry,
+    SupabaseService,
+    JwtStrategy,
+  ],
   exports: [AuthService],
 })
 export class AuthModule {}
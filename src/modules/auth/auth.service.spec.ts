@@ -0,0 +1,383 @@
+import {
+  BadRequestException,
+  ConflictException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { AuthService } from './auth.service';
+import { OAuthProvider } from './enums/oauth-provider.enum';
+import { MockOAuthProvider } from './oauth/mock.provider';
+import { UserRole } from '../users/enums/user-role.enum';
+import {
+  createSupabaseMock,
+  IQueryResult,
+  IRecordedQuery,
+  ISupabaseMock,
+} from '../../core/testing/supabase.mock';
+
+describe('AuthService OAuth sign-in (mock provider)', () => {
+  const CONFIG: Record<string, string> = {
+    JWT_SECRET: 'test-secret',
+    JWT_EXPIRES_IN: '15m',
+    JWT_REFRESH_EXPIRES_IN: '7d',
+  };
+  const EMAIL = 'owner@example.com';
+
+  let mock: ISupabaseMock;
+  let service: AuthService;
+  let usersService: Record<string, jest.Mock>;
+  let linked: { id: string; user_id: string } | null;
+  let linkResult: IQueryResult;
+  let sessionResult: IQueryResult;
+
+  const user = (overrides: Record<string, any> = {}) => ({
+    id: 'user-1',
+    email: EMAIL,
+    role: UserRole.USER,
+    isActive: true,
+    isEmailVerified: true,
+    ...overrides,
+  });
+
+  const linkInserts = () =>
+    mock.queries.filter(
+      (query: IRecordedQuery) =>
+        query.table === 'oauth_accounts' && query.operation === 'insert',
+    );
+
+  const startFlow = (nonce = 'browser-nonce') =>
+    service.getOAuthAuthorization(OAuthProvider.MOCK, nonce).state;
+
+  beforeEach(() => {
+    linked = null;
+    linkResult = { data: null, error: null };
+    sessionResult = { data: { id: 'token-1' }, error: null };
+
+    mock = createSupabaseMock((query) => {
+      if (query.table === 'oauth_accounts') {
+        if (query.operation === 'insert') {
+          return linkResult;
+        }
+        return {
+          data: query.operation === 'select' ? linked : null,
+          error: null,
+        };
+      }
+      if (query.table === 'users') {
+        return {
+          data: {
+            two_factor_enabled: false,
+            two_factor_secret: null,
+            two_factor_last_step: null,
+          },
+          error: null,
+        };
+      }
+      if (query.table === 'refresh_tokens') {
+        return sessionResult;
+      }
+      return { data: null, error: null };
+    });
+
+    usersService = {
+      findOne: jest.fn().mockResolvedValue(user()),
+      findByEmail: jest.fn().mockResolvedValue(null),
+      create: jest
+        .fn()
+        .mockResolvedValue(user({ id: 'new-1', isEmailVerified: false })),
+      update: jest.fn((id: string, dto: any) =>
+        Promise.resolve(user({ id, ...dto })),
+      ),
+      deleteById: jest.fn().mockResolvedValue(undefined),
+      updateLastLogin: jest.fn().mockResolvedValue(undefined),
+    };
+
+    service = new AuthService(
+      mock.supabaseService,
+      usersService as any,
+      new JwtService(),
+      { get: (key: string) => CONFIG[key] } as any,
+      {} as any,
+      {} as any,
+      {
+        get: () => new MockOAuthProvider(),
+        getRedirectUri: () => 'http://localhost:3001/auth/oauth/mock/callback',
+      } as any,
+    );
+  });
+
+  describe('state', () => {
+    it('rejects a state issued to another browser', async () => {
+      const state = startFlow('browser-nonce');
+
+      await expect(
+        service.oauthLogin(
+          OAuthProvider.MOCK,
+          { code: EMAIL, state },
+          'attacker-nonce',
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('rejects a callback without the nonce cookie', async () => {
+      const state = startFlow();
+
+      await expect(
+        service.oauthLogin(OAuthProvider.MOCK, { code: EMAIL, state }, null),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('rejects a state issued for another provider', async () => {
+      const state = service.getOAuthAuthorization(
+        OAuthProvider.GITHUB,
+        'browser-nonce',
+      ).state;
+
+      await expect(
+        service.oauthLogin(
+          OAuthProvider.MOCK,
+          { code: EMAIL, state },
+          'browser-nonce',
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mock.queries).toHaveLength(0);
+    });
+
+    it('embeds the state in the mock consent redirect', () => {
+      const { authorizationUrl, state } = service.getOAuthAuthorization(
+        OAuthProvider.MOCK,
+        'browser-nonce',
+      );
+
+      const url = new URL(authorizationUrl);
+      expect(url.searchParams.get('state')).toBe(state);
+      expect(url.searchParams.get('code')).toBe('mock-user@example.com');
+    });
+  });
+
+  describe('account resolution', () => {
+    it('signs in the user of an already linked identity', async () => {
+      linked = { id: 'link-1', user_id: 'user-1' };
+
+      const result = await service.oauthLogin(
+        OAuthProvider.MOCK,
+        { code: EMAIL, state: startFlow() },
+        'browser-nonce',
+      );
+
+      expect(usersService.findOne).toHaveBeenCalledWith('user-1');
+      expect('tokens' in result && result.tokens.accessToken).toBeTruthy();
+      expect(linkInserts()).toHaveLength(0);
+    });
+
+    it('issues no tokens when the session cannot be stored', async () => {
+      linked = { id: 'link-1', user_id: 'user-1' };
+      sessionResult = { data: null, error: { code: '08006' } };
+
+      await expect(
+        service.oauthLogin(
+          OAuthProvider.MOCK,
+          { code: EMAIL, state: startFlow() },
+          'browser-nonce',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('links a verified local account with the same email', async () => {
+      usersService.findByEmail.mockResolvedValue(user());
+
+      await service.oauthLogin(
+        OAuthProvider.MOCK,
+        { code: EMAIL, state: startFlow() },
+        'browser-nonce',
+      );
+
+      expect(linkInserts()).toHaveLength(1);
+      expect(linkInserts()[0].payload).toMatchObject({
+        user_id: 'user-1',
+        provider: OAuthProvider.MOCK,
+        provider_account_id: `mock-${EMAIL}`,
+      });
+    });
+
+    it('refuses to link an unverified local account', async () => {
+      usersService.findByEmail.mockResolvedValue(
+        user({ isEmailVerified: false }),
+      );
+
+      await expect(
+        service.oauthLogin(
+          OAuthProvider.MOCK,
+          { code: EMAIL, state: startFlow() },
+          'browser-nonce',
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(usersService.update).not.toHaveBeenCalled();
+      expect(linkInserts()).toHaveLength(0);
+    });
+
+    it('creates a verified account when no user has the email', async () => {
+      await service.oauthLogin(
+        OAuthProvider.MOCK,
+        { code: EMAIL, state: startFlow() },
+        'browser-nonce',
+      );
+
+      expect(usersService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ email: EMAIL }),
+      );
+      expect(usersService.update).toHaveBeenCalledWith(
+        'new-1',
+        expect.objectContaining({ isEmailVerified: true }),
+      );
+      expect(linkInserts()[0].payload.user_id).toBe('new-1');
+      expect(usersService.deleteById).not.toHaveBeenCalled();
+    });
+
+    it('rolls back the created account when linking fails', async () => {
+      linkResult = { data: null, error: { code: '23505' } };
+
+      await expect(
+        service.oauthLogin(
+          OAuthProvider.MOCK,
+          { code: EMAIL, state: startFlow() },
+          'browser-nonce',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(usersService.deleteById).toHaveBeenCalledWith('new-1');
+    });
+  });
+});
+
+describe('AuthService impersonation', () => {
+  const jwtService = new JwtService();
+  let mock: ISupabaseMock;
+  let service: AuthService;
+  let insertResult: IQueryResult;
+
+  beforeEach(() => {
+    insertResult = { data: null, error: null };
+    mock = createSupabaseMock((query) =>
+      query.operation === 'insert' ? insertResult : { data: [], error: null },
+    );
+
+    service = new AuthService(
+      mock.supabaseService,
+      {
+        findOne: jest.fn().mockResolvedValue({
+          id: 'user-1',
+          role: UserRole.USER,
+          isActive: true,
+        }),
+      } as any,
+      jwtService,
+      { get: () => 'test-secret' } as any,
+      {} as any,
+      {} as any,
+      {} as any,
+    );
+  });
+
+  it('records a revocable session for the impersonation token', async () => {
+    const result = await service.impersonate('user-1', 'admin-1');
+
+    const inserts = mock.queries.filter(
+      (query) => query.table === 'refresh_tokens',
+    );
+    expect(inserts).toHaveLength(1);
+    expect(inserts[0].payload).toMatchObject({
+      user_id: 'user-1',
+      family_id: result.sessionId,
+      impersonated_by: 'admin-1',
+    });
+
+    const payload = jwtService.verify(result.accessToken, {
+      secret: 'test-secret',
+    });
+    expect(payload).toMatchObject({
+      sub: 'user-1',
+      sid: result.sessionId,
+      act: { sub: 'admin-1' },
+    });
+  });
+
+  it('issues no token when the session cannot be stored', async () => {
+    insertResult = { data: null, error: { code: '23503' } };
+
+    await expect(service.impersonate('user-1', 'admin-1')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('refuses to refresh an impersonation session', async () => {
+    mock = createSupabaseMock(() => ({
+      data: {
+        id: 'token-1',
+        user_id: 'user-1',
+        family_id: 'session-1',
+        is_revoked: false,
+        expires_at: new Date(Date.now() + 60_000).toISOString(),
+        impersonated_by: 'admin-1',
+      },
+      error: null,
+    }));
+    service = new AuthService(
+      mock.supabaseService,
+      {} as any,
+      jwtService,
+      { get: () => 'test-secret' } as any,
+      {} as any,
+      {} as any,
+      {} as any,
+    );
+
+    await expect(
+      service.refreshToken({ refreshToken: 'stored-token' }),
+    ).rejects.toThrow(UnauthorizedException);
+    expect(
+      mock.queries.filter((query) => query.operation === 'update'),
+    ).toHaveLength(0);
+  });
+});
+
+describe('AuthService logout', () => {
+  let mock: ISupabaseMock;
+  let service: AuthService;
+
+  const revocations = () =>
+    mock.queries.filter(
+      (query) =>
+        query.table === 'refresh_tokens' && query.operation === 'update',
+    );
+
+  beforeEach(() => {
+    mock = createSupabaseMock();
+    service = new AuthService(
+      mock.supabaseService,
+      {} as any,
+      new JwtService(),
+      { get: () => 'test-secret' } as any,
+      {} as any,
+      {} as any,
+      {} as any,
+    );
+  });
+
+  it('revokes only the current session', async () => {
+    await service.logout('user-1', 'session-1');
+
+    expect(revocations()).toHaveLength(1);
+    expect(revocations()[0].filters).toMatchObject({
+      user_id: 'user-1',
+      family_id: 'session-1',
+    });
+  });
+
+  it('revokes every session when asked to log out everywhere', async () => {
+    await service.logoutEverywhere('user-1');
+
+    expect(revocations()).toHaveLength(1);
+    expect(revocations()[0].filters.user_id).toBe('user-1');
+    expect(revocations()[0].filters.family_id).toBeUndefined();
+  });
+});
@@ -2,6 +2,9 @@ import {
   Injectable,
   UnauthorizedException,
   BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  ConflictException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
@@ -16,13 +19,40 @@ import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
 import { VerifyEmailDto } from './dto/verify-email.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
+import { RecoverTwoFactorDto } from './dto/recover-two-factor.dto';
+import { OAuthCallbackDto } from './dto/oauth-callback.dto';
+import { MagicLinkDto } from './dto/magic-link.dto';
+import { VerifyMagicLinkDto } from './dto/verify-magic-link.dto';
+import { RequestEmailChangeDto } from './dto/request-email-change.dto';
 import {
   IAuthResponse,
   IAuthTokens,
+  IImpersonationToken,
+  IJwtPayload,
+  ILoginResponse,
+  IOAuthAccount,
+  IOAuthAuthorization,
+  IOAuthProfile,
+  IOAuthStatePayload,
   IRefreshTokenResponse,
+  ISession,
+  ISessionMetadata,
+  ITokenSessionOptions,
+  ITwoFactorChallengePayload,
+  ITwoFactorRecoveryCodes,
+  ITwoFactorSetup,
 } from './types/auth.types';
+import { TotpUtil } from './utils/totp.util';
+import { LoginAttemptsService } from './login-attempts.service';
+import { OAuthProviderRegistry } from './oauth/oauth-provider.registry';
+import { OAuthProvider } from './enums/oauth-provider.enum';
+import { IUser } from '../users/types/user.types';
+import { UserRole } from '../users/enums/user-role.enum';
 import * as bcrypt from 'bcryptjs';
 import { v4 as uuidv4 } from 'uuid';
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { OAUTH_STATE_EXPIRATION_SECONDS } from '../../constants/auth.constants';
 
 @Injectable()
 export class AuthService extends BaseService {
@@ -30,6 +60,13 @@ export class AuthService extends BaseService {
   private readonly OTP_LENGTH = 6;
   private readonly OTP_EXPIRY_MINUTES = 10;
   private readonly RESET_TOKEN_EXPIRY_HOURS = 24;
+  private readonly TWO_FACTOR_CHALLENGE_EXPIRY_SECONDS = 5 * 60;
+  private readonly RECOVERY_CODE_COUNT = 10;
+  private readonly MAX_OTP_ATTEMPTS = 5;
+  private readonly MAGIC_LINK_EXPIRY_MINUTES = 10;
+  private readonly MAGIC_LINK_COOLDOWN_SECONDS = 60;
+  private readonly EMAIL_CHANGE_CANCEL_WINDOW_HOURS = 72;
+  private readonly IMPERSONATION_EXPIRY_SECONDS = 15 * 60;
 
   constructor(
     supabaseService: SupabaseService,
@@ -37,6 +74,8 @@ export class AuthService extends BaseService {
     private jwtService: JwtService,
     private configService: ConfigService,
     private mailerService: MailerService,
+    private loginAttemptsService: LoginAttemptsService,
+    private oauthProviderRegistry: OAuthProviderRegistry,
   ) {
     super(supabaseService);
   }
@@ -106,104 +145,1109 @@ export class AuthService extends BaseService {
     }
   }
 
-  async login(loginDto: LoginDto): Promise<IAuthResponse> {
+  async login(
+    loginDto: LoginDto,
+    metadata?: ISessionMetadata,
+  ): Promise<ILoginResponse> {
     const supabase = this.getClient();
+    const accountKey = LoginAttemptsService.accountKey(loginDto.email);
+    const ipKey = LoginAttemptsService.ipKey(metadata?.ipAddress);
+
+    await this.loginAttemptsService.assertNotLocked([accountKey, ipKey]);
 
     // Find user by email
     const user = await this.usersService.findByEmail(loginDto.email);
 
-    if (!user) {
-      throw new UnauthorizedException('auth.login.invalid');
-    }
+    if (!user) {
+      // Count unknown emails too, so lockout does not reveal which accounts exist
+      await this.recordLoginFailure(loginDto.email, metadata?.ipAddress);
+      throw new UnauthorizedException('auth.login.invalid');
+    }
+
+    if (!user.isActive) {
+      throw new UnauthorizedException('auth.login.inactive');
+    }
+
+    // Get password hash and verify in one optimized query
+    const { data: userData } = await supabase
+      .from('users')
+      .select('password_hash, two_factor_enabled')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData) {
+      throw new UnauthorizedException('auth.login.invalid');
+    }
+
+    // Verify password
+    const isPasswordValid = await bcrypt.compare(
+      loginDto.password,
+      userData.password_hash,
+    );
+
+    if (!isPasswordValid) {
+      await this.recordLoginFailure(loginDto.email, metadata?.ipAddress, user);
+      throw new UnauthorizedException('auth.login.invalid');
+    }
+
+    await this.loginAttemptsService.reset(accountKey);
+
+    return this.startSession(user, userData.two_factor_enabled, metadata);
+  }
+
+  /**
+   * Last step of a first-factor login (password or OAuth): either a
+   * 2FA challenge or a new session
+   */
+  private async startSession(
+    user: IUser,
+    twoFactorEnabled: boolean,
+    metadata?: ISessionMetadata,
+  ): Promise<ILoginResponse> {
+    // Second step required: no tokens until the TOTP code is verified
+    if (twoFactorEnabled) {
+      return {
+        requiresTwoFactor: true,
+        challengeToken: this.createTwoFactorChallenge(user.id),
+        expiresIn: this.TWO_FACTOR_CHALLENGE_EXPIRY_SECONDS,
+      };
+    }
+
+    // Update last login (non-blocking)
+    this.usersService.updateLastLogin(user.id).catch(() => {
+      // Silently fail - not critical
+    });
+
+    // Generate tokens (starts a new session)
+    const tokens = await this.generateTokens(user, { metadata });
+
+    return {
+      user: this.mapToAuthUser(user),
+      tokens,
+    };
+  }
+
+  /**
+   * Email a single-use sign-in link and code. Always succeeds so the
+   * response does not reveal which emails have an account.
+   */
+  async requestMagicLink(
+    magicLinkDto: MagicLinkDto,
+    clientIp?: string | null,
+  ): Promise<void> {
+    await this.loginAttemptsService.assertNotLocked([
+      LoginAttemptsService.ipKey(clientIp),
+    ]);
+
+    const user = await this.usersService.findByEmail(magicLinkDto.email);
+
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    const supabase = this.getClient();
+
+    // Per-account cooldown so the endpoint cannot be used to spam an inbox
+    const cooldownStart = new Date(
+      Date.now() - this.MAGIC_LINK_COOLDOWN_SECONDS * 1000,
+    ).toISOString();
+    const { data: recent } = await supabase
+      .from('magic_link_tokens')
+      .select('id')
+      .eq('user_id', user.id)
+      .gt('created_at', cooldownStart)
+      .limit(1);
+
+    if (recent && recent.length > 0) {
+      return;
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const otp = this.generateOTP(this.OTP_LENGTH);
+    const expiresAt = new Date();
+    expiresAt.setMinutes(
+      expiresAt.getMinutes() + this.MAGIC_LINK_EXPIRY_MINUTES,
+    );
+
+    // Only the latest link stays valid
+    await supabase
+      .from('magic_link_tokens')
+      .update({ used_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .is('used_at', null);
+
+    const { error } = await supabase.from('magic_link_tokens').insert({
+      user_id: user.id,
+      token_hash: this.hashToken(token),
+      otp_hash: this.hashToken(otp),
+      expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+      throw new BadRequestException('auth.magicLink.failed');
+    }
+
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL') || '';
+
+    // Send magic link email (non-blocking)
+    this.mailerService
+      .sendMagicLinkEmail(user.email, {
+        firstName: user.firstName,
+        lastName: user.lastName,
+        magicLink: `${frontendUrl}/auth/magic-link?token=${token}`,
+        otp,
+        expiresInMinutes: this.MAGIC_LINK_EXPIRY_MINUTES,
+      })
+      .catch(() => {
+        // Silently fail - not critical
+      });
+  }
+
+  /**
+   * Exchange a magic link token, or an email + code, for a session
+   */
+  async verifyMagicLink(
+    verifyMagicLinkDto: VerifyMagicLinkDto,
+    metadata?: ISessionMetadata,
+  ): Promise<ILoginResponse> {
+    const supabase = this.getClient();
+    const ipKey = LoginAttemptsService.ipKey(metadata?.ipAddress);
+    const accountKey = verifyMagicLinkDto.email
+      ? LoginAttemptsService.accountKey(verifyMagicLinkDto.email)
+      : null;
+
+    await this.loginAttemptsService.assertNotLocked([accountKey, ipKey]);
+
+    const recordFailure = () =>
+      Promise.all([
+        this.loginAttemptsService.recordFailure(accountKey),
+        this.loginAttemptsService.recordFailure(ipKey),
+      ]);
+
+    let query = supabase
+      .from('magic_link_tokens')
+      .select('id, user_id, otp_hash, expires_at, failed_attempts')
+      .is('used_at', null);
+
+    if (verifyMagicLinkDto.token) {
+      query = query.eq('token_hash', this.hashToken(verifyMagicLinkDto.token));
+    } else {
+      const user = await this.usersService.findByEmail(
+        verifyMagicLinkDto.email as string,
+      );
+
+      if (!user) {
+        await recordFailure();
+        throw new UnauthorizedException('auth.magicLink.invalid');
+      }
+
+      // Only the latest code is valid
+      query = query
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(1);
+    }
+
+    const { data: tokenData } = await query.maybeSingle();
+
+    if (!tokenData) {
+      await recordFailure();
+      throw new UnauthorizedException('auth.magicLink.invalid');
+    }
+
+    if (new Date(tokenData.expires_at) < new Date()) {
+      throw new UnauthorizedException('auth.magicLink.expired');
+    }
+
+    if (
+      !verifyMagicLinkDto.token &&
+      tokenData.otp_hash !== this.hashToken(verifyMagicLinkDto.code as string)
+    ) {
+      await recordFailure();
+      const failedAttempts = tokenData.failed_attempts + 1;
+
+      // Too many wrong guesses: burn the code, a new one must be requested
+      await supabase
+        .from('magic_link_tokens')
+        .update({
+          failed_attempts: failedAttempts,
+          ...(failedAttempts >= this.MAX_OTP_ATTEMPTS && {
+            used_at: new Date().toISOString(),
+          }),
+        })
+        .eq('id', tokenData.id);
+
+      throw new UnauthorizedException(
+        failedAttempts >= this.MAX_OTP_ATTEMPTS
+          ? 'auth.magicLink.tooManyAttempts'
+          : 'auth.magicLink.invalid',
+      );
+    }
+
+    // Consume atomically so the link cannot be used twice
+    const { data: consumed } = await supabase
+      .from('magic_link_tokens')
+      .update({ used_at: new Date().toISOString() })
+      .eq('id', tokenData.id)
+      .is('used_at', null)
+      .select('id');
+
+    if (!consumed || consumed.length === 0) {
+      throw new UnauthorizedException('auth.magicLink.invalid');
+    }
+
+    let user = await this.usersService.findOne(tokenData.user_id);
+
+    if (!user.isActive) {
+      throw new UnauthorizedException('auth.login.inactive');
+    }
+
+    await this.loginAttemptsService.reset(
+      LoginAttemptsService.accountKey(user.email),
+    );
+
+    // Receiving the email proves ownership of the address
+    if (!user.isEmailVerified) {
+      user = await this.usersService.update(user.id, {
+        isEmailVerified: true,
+      });
+    }
+
+    const state = await this.getTwoFactorState(user.id);
+
+    return this.startSession(user, state.two_factor_enabled, metadata);
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Start an OAuth flow: provider consent URL plus a signed state that
+   * carries the nonce stored in the caller's OAuth state cookie
+   */
+  getOAuthAuthorization(
+    provider: OAuthProvider,
+    nonce: string,
+  ): IOAuthAuthorization {
+    const oauthProvider = this.oauthProviderRegistry.get(provider);
+
+    const statePayload: IOAuthStatePayload = {
+      purpose: 'oauth_state',
+      provider,
+      nonce,
+    };
+    const state = this.jwtService.sign(statePayload, {
+      secret: this.configService.get<string>('JWT_SECRET'),
+      expiresIn: OAUTH_STATE_EXPIRATION_SECONDS,
+    });
+
+    return {
+      authorizationUrl: oauthProvider.getAuthorizationUrl(
+        state,
+        this.oauthProviderRegistry.getRedirectUri(provider),
+      ),
+      state,
+    };
+  }
+
+  /**
+   * Finish an OAuth flow: resolve (or create) the linked user and sign in.
+   * The state must have been issued to this browser (nonce cookie).
+   */
+  async oauthLogin(
+    provider: OAuthProvider,
+    oauthCallbackDto: OAuthCallbackDto,
+    nonce: string | null,
+    metadata?: ISessionMetadata,
+  ): Promise<ILoginResponse> {
+    this.verifyOAuthState(oauthCallbackDto.state, provider, nonce);
+
+    const profile = await this.oauthProviderRegistry
+      .get(provider)
+      .getProfile(
+        oauthCallbackDto.code,
+        this.oauthProviderRegistry.getRedirectUri(provider),
+      );
+
+    const user = await this.resolveOAuthUser(provider, profile);
+
+    if (!user.isActive) {
+      throw new UnauthorizedException('auth.login.inactive');
+    }
+
+    const state = await this.getTwoFactorState(user.id);
+
+    return this.startSession(user, state.two_factor_enabled, metadata);
+  }
+
+  async getOAuthAccounts(userId: string): Promise<IOAuthAccount[]> {
+    const { data, error } = await this.getClient()
+      .from('oauth_accounts')
+      .select('provider, email, last_used_at, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new BadRequestException('auth.oauth.accountsFetchFailed');
+    }
+
+    return (data || []).map((account) => ({
+      provider: account.provider,
+      email: account.email,
+      lastUsedAt: account.last_used_at,
+      createdAt: account.created_at,
+    }));
+  }
+
+  /**
+   * Linked account first, then link by verified email, else create a user
+   */
+  private async resolveOAuthUser(
+    provider: OAuthProvider,
+    profile: IOAuthProfile,
+  ): Promise<IUser> {
+    const supabase = this.getClient();
+
+    const { data: linked } = await supabase
+      .from('oauth_accounts')
+      .select('id, user_id')
+      .eq('provider', provider)
+      .eq('provider_account_id', profile.providerAccountId)
+      .maybeSingle();
+
+    if (linked) {
+      await supabase
+        .from('oauth_accounts')
+        .update({
+          email: profile.email,
+          last_used_at: new Date().toISOString(),
+        })
+        .eq('id', linked.id);
+      return this.usersService.findOne(linked.user_id);
+    }
+
+    if (!profile.email) {
+      throw new BadRequestException('auth.oauth.emailRequired');
+    }
+
+    // Linking by email is only safe when the provider verified it
+    if (!profile.emailVerified) {
+      throw new BadRequestException('auth.oauth.emailNotVerified');
+    }
+
+    const existing = await this.usersService.findByEmail(profile.email);
+
+    if (existing) {
+      // Anyone can register an unverified account for someone else's
+      // email; linking it would hand them the owner's OAuth sign-in
+      if (!existing.isEmailVerified) {
+        throw new ConflictException('auth.oauth.unverifiedAccount');
+      }
+
+      await this.linkOAuthAccount(existing.id, provider, profile);
+      return existing;
+    }
+
+    // OAuth-only account: random password, reset flow can set a real one
+    const created = await this.usersService.create({
+      email: profile.email,
+      password: randomBytes(32).toString('hex'),
+      firstName: profile.firstName || undefined,
+      lastName: profile.lastName || undefined,
+    });
+
+    try {
+      const user = await this.usersService.update(created.id, {
+        isEmailVerified: true,
+        avatarUrl: profile.avatarUrl || undefined,
+      });
+      await this.linkOAuthAccount(user.id, provider, profile);
+      return user;
+    } catch (error) {
+      // Roll back so a failed link does not leave an orphaned account
+      await this.usersService.deleteById(created.id).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private async linkOAuthAccount(
+    userId: string,
+    provider: OAuthProvider,
+    profile: IOAuthProfile,
+  ): Promise<void> {
+    const { error } = await this.getClient().from('oauth_accounts').insert({
+      user_id: userId,
+      provider,
+      provider_account_id: profile.providerAccountId,
+      email: profile.email,
+    });
+
+    if (error) {
+      // The user already has another identity from this provider
+      throw new BadRequestException('auth.oauth.linkFailed');
+    }
+  }
+
+  private verifyOAuthState(
+    state: string,
+    provider: OAuthProvider,
+    nonce: string | null,
+  ): void {
+    try {
+      const payload = this.jwtService.verify<IOAuthStatePayload>(state, {
+        secret: this.configService.get<string>('JWT_SECRET'),
+      });
+
+      if (payload.purpose !== 'oauth_state' || payload.provider !== provider) {
+        throw new Error('Invalid OAuth state');
+      }
+
+      const expected = Buffer.from(String(payload.nonce ?? ''));
+      const actual = Buffer.from(nonce ?? '');
+
+      if (
+        !expected.length ||
+        expected.length !== actual.length ||
+        !timingSafeEqual(expected, actual)
+      ) {
+        throw new Error('OAuth state was issued to another browser');
+      }
+    } catch {
+      throw new UnauthorizedException('auth.oauth.invalidState');
+    }
+  }
+
+  /**
+   * Map IUser to IAuthResponse user format
+   */
+  private mapToAuthUser(user: any): IAuthResponse['user'] {
+    return {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      avatarUrl: user.avatarUrl,
+      phone: user.phone,
+      isEmailVerified: user.isEmailVerified,
+      isActive: user.isActive,
+      role: user.role,
+    };
+  }
+
+  async refreshToken(
+    refreshTokenDto: RefreshTokenDto,
+    metadata?: ISessionMetadata,
+  ): Promise<IRefreshTokenResponse> {
+    if (!refreshTokenDto.refreshToken) {
+      throw new UnauthorizedException('auth.refreshToken.invalid');
+    }
+
+    const supabase = this.getClient();
+
+    // Find refresh token (revoked ones included, to detect reuse)
+    const { data: tokenData, error } = await supabase
+      .from('refresh_tokens')
+      .select(
+        'id, user_id, family_id, expires_at, is_revoked, session_started_at, two_factor_verified, impersonated_by',
+      )
+      .eq('token', refreshTokenDto.refreshToken)
+      .maybeSingle();
+
+    // Impersonation sessions end with their access token
+    if (error || !tokenData || tokenData.impersonated_by) {
+      throw new UnauthorizedException('auth.refreshToken.invalid');
+    }
+
+    // A rotated token being replayed means it leaked: revoke the whole session
+    if (tokenData.is_revoked) {
+      await this.revokeTokenFamily(tokenData.family_id);
+      throw new UnauthorizedException('auth.refreshToken.reused');
+    }
+
+    // Check if token is expired
+    if (new Date(tokenData.expires_at) < new Date()) {
+      throw new UnauthorizedException('auth.refreshToken.expired');
+    }
+
+    // Claim the token atomically so two concurrent refreshes cannot both rotate it
+    const { data: claimed } = await supabase
+      .from('refresh_tokens')
+      .update({ is_revoked: true, revoked_at: new Date().toISOString() })
+      .eq('id', tokenData.id)
+      .eq('is_revoked', false)
+      .select('id');
+
+    if (!claimed || claimed.length === 0) {
+      await this.revokeTokenFamily(tokenData.family_id);
+      throw new UnauthorizedException('auth.refreshToken.reused');
+    }
+
+    // Reload the user so the new access token carries the current role
+    const user = await this.usersService.findOne(tokenData.user_id);
+
+    if (!user.isActive) {
+      await this.revokeTokenFamily(tokenData.family_id);
+      throw new UnauthorizedException('auth.login.inactive');
+    }
+
+    return this.generateTokens(user, {
+      familyId: tokenData.family_id,
+      sessionStartedAt: tokenData.session_started_at,
+      rotatedFromId: tokenData.id,
+      twoFactorVerified: tokenData.two_factor_verified,
+      metadata,
+    });
+  }
+
+  /**
+   * List the user's active sessions (one per refresh token family)
+   */
+  async getSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<ISession[]> {
+    const supabase = this.getClient();
+
+    const { data, error } = await supabase
+      .from('refresh_tokens')
+      .select(
+        'family_id, device_name, ip_address, user_agent, session_started_at, created_at, expires_at, impersonated_by',
+      )
+      .eq('user_id', userId)
+      .eq('is_revoked', false)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new BadRequestException('auth.sessions.fetchFailed');
+    }
+
+    return (data || []).map((token) => ({
+      id: token.family_id,
+      deviceName: token.device_name,
+      ipAddress: token.ip_address,
+      userAgent: token.user_agent,
+      startedAt: token.session_started_at,
+      lastUsedAt: token.created_at,
+      expiresAt: token.expires_at,
+      isCurrent: token.family_id === currentSessionId,
+      impersonatedBy: token.impersonated_by,
+    }));
+  }
+
+  /**
+   * Whether a session still has a live (unrevoked, unexpired) token
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const { data, error } = await this.getClient()
+      .from('refresh_tokens')
+      .select('id')
+      .eq('family_id', sessionId)
+      .eq('is_revoked', false)
+      .gt('expires_at', new Date().toISOString())
+      .limit(1);
+
+    return !error && (data?.length ?? 0) > 0;
+  }
+
+  /**
+   * Revoke a single session. Its access token stays valid until it expires.
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const supabase = this.getClient();
+
+    const { data, error } = await supabase
+      .from('refresh_tokens')
+      .update({ is_revoked: true, revoked_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('family_id', sessionId)
+      .eq('is_revoked', false)
+      .select('id');
+
+    if (error) {
+      throw new BadRequestException('auth.sessions.revokeFailed');
+    }
+
+    if (!data || data.length === 0) {
+      throw new NotFoundException('auth.sessions.notFound');
+    }
+  }
+
+  /**
+   * Revoke every token of a refresh token family
+   */
+  private async revokeTokenFamily(familyId: string): Promise<void> {
+    await this.getClient()
+      .from('refresh_tokens')
+      .update({ is_revoked: true, revoked_at: new Date().toISOString() })
+      .eq('family_id', familyId)
+      .eq('is_revoked', false);
+  }
+
+  /**
+   * Start 2FA enrolment: store a new secret (not active until confirmed)
+   */
+  async setupTwoFactor(userId: string): Promise<ITwoFactorSetup> {
+    const user = await this.usersService.findOne(userId);
+    const state = await this.getTwoFactorState(userId);
+
+    if (state.two_factor_enabled) {
+      throw new BadRequestException('auth.twoFactor.alreadyEnabled');
+    }
+
+    const secret = TotpUtil.generateSecret();
+
+    const { error } = await this.getClient()
+      .from('users')
+      .update({ two_factor_secret: secret, two_factor_last_step: null })
+      .eq('id', userId);
+
+    if (error) {
+      throw new BadRequestException('auth.twoFactor.setupFailed');
+    }
+
+    const issuer =
+      this.configService.get<string>('TWO_FACTOR_ISSUER') || 'Flexify';
+
+    return {
+      secret,
+      otpauthUri: TotpUtil.buildOtpAuthUri(secret, user.email, issuer),
+    };
+  }
+
+  /**
+   * Confirm enrolment with a first valid code and issue recovery codes
+   */
+  async enableTwoFactor(
+    userId: string,
+    code: string,
+  ): Promise<ITwoFactorRecoveryCodes> {
+    const state = await this.getTwoFactorState(userId);
+
+    if (state.two_factor_enabled) {
+      throw new BadRequestException('auth.twoFactor.alreadyEnabled');
+    }
+
+    if (!state.two_factor_secret) {
+      throw new BadRequestException('auth.twoFactor.notSetUp');
+    }
+
+    await this.verifyTotpCode(userId, state, code);
+
+    const { error } = await this.getClient()
+      .from('users')
+      .update({
+        two_factor_enabled: true,
+        two_factor_enabled_at: new Date().toISOString(),
+      })
+      .eq('id', userId);
+
+    if (error) {
+      throw new BadRequestException('auth.twoFactor.setupFailed');
+    }
+
+    return { recoveryCodes: await this.createRecoveryCodes(userId) };
+  }
+
+  async disableTwoFactor(userId: string, code: string): Promise<void> {
+    const user = await this.usersService.findOne(userId);
+
+    if (this.isTwoFactorRequired(user.role)) {
+      throw new BadRequestException('auth.twoFactor.requiredForRole');
+    }
+
+    const state = await this.getTwoFactorState(userId);
+
+    if (!state.two_factor_enabled) {
+      throw new BadRequestException('auth.twoFactor.notEnabled');
+    }
+
+    await this.verifyTotpCode(userId, state, code);
+
+    const supabase = this.getClient();
+
+    await Promise.all([
+      supabase
+        .from('users')
+        .update({
+          two_factor_enabled: false,
+          two_factor_secret: null,
+          two_factor_enabled_at: null,
+          two_factor_last_step: null,
+        })
+        .eq('id', userId),
+      supabase
+        .from('two_factor_recovery_codes')
+        .delete()
+        .eq('user_id', userId),
+    ]);
+  }
+
+  /**
+   * Replace all recovery codes (the old ones stop working)
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<ITwoFactorRecoveryCodes> {
+    const state = await this.getTwoFactorState(userId);
+
+    if (!state.two_factor_enabled) {
+      throw new BadRequestException('auth.twoFactor.notEnabled');
+    }
+
+    await this.verifyTotpCode(userId, state, code);
+
+    return { recoveryCodes: await this.createRecoveryCodes(userId) };
+  }
+
+  /**
+   * Second login step with a TOTP code
+   */
+  async verifyTwoFactorLogin(
+    verifyTwoFactorDto: VerifyTwoFactorDto,
+    metadata?: ISessionMetadata,
+  ): Promise<IAuthResponse> {
+    const userId = this.verifyTwoFactorChallenge(
+      verifyTwoFactorDto.challengeToken,
+    );
+    const user = await this.usersService.findOne(userId);
+    const state = await this.getTwoFactorState(userId);
+
+    if (!state.two_factor_enabled) {
+      throw new UnauthorizedException('auth.twoFactor.challengeInvalid');
+    }
+
+    await this.loginAttemptsService.assertNotLocked([
+      LoginAttemptsService.accountKey(user.email),
+      LoginAttemptsService.ipKey(metadata?.ipAddress),
+    ]);
+
+    try {
+      await this.verifyTotpCode(userId, state, verifyTwoFactorDto.code);
+    } catch (error) {
+      await this.recordLoginFailure(user.email, metadata?.ipAddress, user);
+      throw error;
+    }
+
+    return this.completeTwoFactorLogin(userId, metadata);
+  }
+
+  /**
+   * Second login step with a single-use recovery code
+   */
+  async recoverTwoFactorLogin(
+    recoverTwoFactorDto: RecoverTwoFactorDto,
+    metadata?: ISessionMetadata,
+  ): Promise<IAuthResponse> {
+    const userId = this.verifyTwoFactorChallenge(
+      recoverTwoFactorDto.challengeToken,
+    );
+    const user = await this.usersService.findOne(userId);
+
+    await this.loginAttemptsService.assertNotLocked([
+      LoginAttemptsService.accountKey(user.email),
+      LoginAttemptsService.ipKey(metadata?.ipAddress),
+    ]);
+
+    try {
+      await this.consumeRecoveryCode(userId, recoverTwoFactorDto.recoveryCode);
+    } catch (error) {
+      await this.recordLoginFailure(user.email, metadata?.ipAddress, user);
+      throw error;
+    }
+
+    return this.completeTwoFactorLogin(userId, metadata);
+  }
+
+  private async completeTwoFactorLogin(
+    userId: string,
+    metadata?: ISessionMetadata,
+  ): Promise<IAuthResponse> {
+    const user = await this.usersService.findOne(userId);
+
+    if (!user.isActive) {
+      throw new UnauthorizedException('auth.login.inactive');
+    }
+
+    // Update last login (non-blocking)
+    this.usersService.updateLastLogin(user.id).catch(() => {
+      // Silently fail - not critical
+    });
+
+    const tokens = await this.generateTokens(user, {
+      metadata,
+      twoFactorVerified: true,
+    });
+
+    return {
+      user: this.mapToAuthUser(user),
+      tokens,
+    };
+  }
+
+  /**
+   * Whether REQUIRE_ADMIN_2FA forces 2FA on this role
+   */
+  isTwoFactorRequired(role: string): boolean {
+    return (
+      this.configService.get<string>('REQUIRE_ADMIN_2FA') === 'true' &&
+      (role === UserRole.ADMIN || role === UserRole.SUPER_ADMIN)
+    );
+  }
+
+  private async getTwoFactorState(userId: string): Promise<{
+    two_factor_enabled: boolean;
+    two_factor_secret: string | null;
+    two_factor_last_step: number | null;
+  }> {
+    const { data, error } = await this.getClient()
+      .from('users')
+      .select('two_factor_enabled, two_factor_secret, two_factor_last_step')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error || !data) {
+      throw new UnauthorizedException('auth.user.notFound');
+    }
+
+    return data;
+  }
+
+  /**
+   * Verify a TOTP code and record its time step so it cannot be replayed
+   */
+  private async verifyTotpCode(
+    userId: string,
+    state: { two_factor_secret: string | null; two_factor_last_step: number | null },
+    code: string,
+  ): Promise<void> {
+    const step = state.two_factor_secret
+      ? TotpUtil.verify(code, state.two_factor_secret)
+      : null;
+
+    if (
+      step === null ||
+      (state.two_factor_last_step !== null &&
+        step <= Number(state.two_factor_last_step))
+    ) {
+      throw new UnauthorizedException('auth.twoFactor.invalidCode');
+    }
+
+    await this.getClient()
+      .from('users')
+      .update({ two_factor_last_step: step })
+      .eq('id', userId);
+  }
+
+  private async createRecoveryCodes(userId: string): Promise<string[]> {
+    const supabase = this.getClient();
+
+    const codes = Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const raw = randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    const hashes = await Promise.all(
+      codes.map((code) =>
+        bcrypt.hash(this.normalizeRecoveryCode(code), this.BCRYPT_ROUNDS),
+      ),
+    );
 
-    if (!user.isActive) {
-      throw new UnauthorizedException('auth.login.inactive');
-    }
+    await supabase
+      .from('two_factor_recovery_codes')
+      .delete()
+      .eq('user_id', userId);
 
-    // Get password hash and verify in one optimized query
-    const { data: userData } = await supabase
-      .from('users')
-      .select('password_hash')
-      .eq('id', user.id)
-      .single();
+    const { error } = await supabase.from('two_factor_recovery_codes').insert(
+      hashes.map((codeHash) => ({
+        user_id: userId,
+        code_hash: codeHash,
+      })),
+    );
 
-    if (!userData) {
-      throw new UnauthorizedException('auth.login.invalid');
+    if (error) {
+      throw new BadRequestException('auth.twoFactor.setupFailed');
     }
 
-    // Verify password
-    const isPasswordValid = await bcrypt.compare(
-      loginDto.password,
-      userData.password_hash,
-    );
+    return codes;
+  }
 
-    if (!isPasswordValid) {
-      throw new UnauthorizedException('auth.login.invalid');
+  private async consumeRecoveryCode(
+    userId: string,
+    recoveryCode: string,
+  ): Promise<void> {
+    const supabase = this.getClient();
+
+    const { data: codes } = await supabase
+      .from('two_factor_recovery_codes')
+      .select('id, code_hash')
+      .eq('user_id', userId)
+      .is('used_at', null);
+
+    const normalized = this.normalizeRecoveryCode(recoveryCode);
+
+    for (const code of codes || []) {
+      if (await bcrypt.compare(normalized, code.code_hash)) {
+        // Conditional update so a code can only be consumed once
+        const { data: consumed } = await supabase
+          .from('two_factor_recovery_codes')
+          .update({ used_at: new Date().toISOString() })
+          .eq('id', code.id)
+          .is('used_at', null)
+          .select('id');
+
+        if (consumed && consumed.length > 0) {
+          return;
+        }
+      }
     }
 
-    // Update last login (non-blocking)
-    this.usersService.updateLastLogin(user.id).catch(() => {
-      // Silently fail - not critical
-    });
+    throw new UnauthorizedException('auth.twoFactor.invalidRecoveryCode');
+  }
 
-    // Generate tokens
-    const tokens = await this.generateTokens(user.id);
+  private normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
 
-    return {
-      user: this.mapToAuthUser(user),
-      tokens,
+  private createTwoFactorChallenge(userId: string): string {
+    const payload: ITwoFactorChallengePayload = {
+      sub: userId,
+      purpose: 'two_factor',
     };
+
+    return this.jwtService.sign(payload, {
+      secret: this.configService.get<string>('JWT_SECRET'),
+      expiresIn: this.TWO_FACTOR_CHALLENGE_EXPIRY_SECONDS,
+    });
   }
 
   /**
-   * Map IUser to IAuthResponse user format
+   * @returns The user ID the challenge was issued for
    */
-  private mapToAuthUser(user: any): IAuthResponse['user'] {
-    return {
-      id: user.id,
-      email: user.email,
-      firstName: user.firstName,
-      lastName: user.lastName,
-      avatarUrl: user.avatarUrl,
-      phone: user.phone,
-      isEmailVerified: user.isEmailVerified,
-      isActive: user.isActive,
-      role: user.role,
-    };
+  private verifyTwoFactorChallenge(challengeToken: string): string {
+    try {
+      const payload = this.jwtService.verify<ITwoFactorChallengePayload>(
+        challengeToken,
+        { secret: this.configService.get<string>('JWT_SECRET') },
+      );
+
+      if (payload.purpose !== 'two_factor' || !payload.sub) {
+        throw new Error('Invalid challenge purpose');
+      }
+
+      return payload.sub;
+    } catch {
+      throw new UnauthorizedException('auth.twoFactor.challengeInvalid');
+    }
   }
 
-  async refreshToken(
-    refreshTokenDto: RefreshTokenDto,
-  ): Promise<IRefreshTokenResponse> {
-    const supabase = this.getClient();
+  /**
+   * Admin action: clear the failed-attempt lockout of an account
+   */
+  async unlockAccount(userId: string): Promise<void> {
+    const user = await this.usersService.findOne(userId);
+    await this.loginAttemptsService.reset(
+      LoginAttemptsService.accountKey(user.email),
+    );
+  }
 
-    // Find refresh token
-    const { data: tokenData, error } = await supabase
-      .from('refresh_tokens')
-      .select('id, user_id, expires_at')
-      .eq('token', refreshTokenDto.refreshToken)
-      .eq('is_revoked', false)
-      .maybeSingle();
+  /**
+   * Admin action: short-lived access token acting as another user.
+   * The token carries the admin in `act` and gets its own session so the
+   * user (or logout-all) can revoke it; no refresh token is handed out.
+   */
+  async impersonate(
+    userId: string,
+    adminId: string,
+  ): Promise<IImpersonationToken> {
+    if (userId === adminId) {
+      throw new BadRequestException('auth.impersonation.self');
+    }
 
-    if (error || !tokenData) {
-      throw new UnauthorizedException('auth.refreshToken.invalid');
+    const user = await this.usersService.findOne(userId);
+
+    if (user.role === UserRole.ADMIN || user.role === UserRole.SUPER_ADMIN) {
+      throw new ForbiddenException('auth.impersonation.adminTarget');
     }
 
-    // Check if token is expired
-    if (new Date(tokenData.expires_at) < new Date()) {
-      throw new UnauthorizedException('auth.refreshToken.expired');
+    if (!user.isActive) {
+      throw new BadRequestException('auth.login.inactive');
     }
 
-    // Generate new tokens and revoke old token in parallel
-    const [tokens] = await Promise.all([
-      this.generateTokens(tokenData.user_id),
-      supabase
-        .from('refresh_tokens')
-        .update({ is_revoked: true })
-        .eq('id', tokenData.id),
+    const sessionId = uuidv4();
+    const expiresAt = new Date();
+    expiresAt.setSeconds(
+      expiresAt.getSeconds() + this.IMPERSONATION_EXPIRY_SECONDS,
+    );
+
+    const { error } = await this.getClient()
+      .from('refresh_tokens')
+      .insert({
+        user_id: user.id,
+        token: uuidv4(),
+        expires_at: expiresAt.toISOString(),
+        family_id: sessionId,
+        impersonated_by: adminId,
+      });
+
+    if (error) {
+      throw new BadRequestException('auth.impersonation.failed');
+    }
+
+    const payload: IJwtPayload = {
+      sub: user.id,
+      role: user.role as UserRole,
+      sid: sessionId,
+      act: { sub: adminId },
+    };
+
+    const accessToken = this.jwtService.sign(payload, {
+      secret: this.configService.get<string>('JWT_SECRET'),
+      expiresIn: this.IMPERSONATION_EXPIRY_SECONDS,
+    });
+
+    return {
+      accessToken,
+      expiresIn: this.IMPERSONATION_EXPIRY_SECONDS,
+      impersonatedBy: adminId,
+      sessionId,
+    };
+  }
+
+  /**
+   * Count a failed sign-in for the account and the IP, and warn the
+   * owner by email when the account gets locked
+   */
+  private async recordLoginFailure(
+    email: string,
+    ipAddress: string | null | undefined,
+    user?: Pick<IUser, 'email' | 'firstName' | 'lastName'>,
+  ): Promise<void> {
+    const [accountState] = await Promise.all([
+      this.loginAttemptsService.recordFailure(
+        LoginAttemptsService.accountKey(email),
+      ),
+      this.loginAttemptsService.recordFailure(
+        LoginAttemptsService.ipKey(ipAddress),
+      ),
     ]);
 
-    return tokens;
+    if (user && accountState?.justLocked && accountState.lockedUntil) {
+      // Send suspicious sign-in email (non-blocking)
+      this.mailerService
+        .sendSuspiciousSignInEmail(user.email, {
+          firstName: user.firstName,
+          lastName: user.lastName,
+          attempts: accountState.failedCount,
+          ipAddress: ipAddress || null,
+          lockedUntil: accountState.lockedUntil,
+        })
+        .catch(() => {
+          // Silently fail - not critical
+        });
+    }
   }
 
   async forgotPassword(forgotPasswordDto: ForgotPasswordDto): Promise<void> {
@@ -229,8 +1273,14 @@ export class AuthService extends BaseService {
       });
   }
 
-  async resetPassword(resetPasswordDto: ResetPasswordDto): Promise<void> {
+  async resetPassword(
+    resetPasswordDto: ResetPasswordDto,
+    clientIp?: string | null,
+  ): Promise<void> {
     const supabase = this.getClient();
+    const ipKey = LoginAttemptsService.ipKey(clientIp);
+
+    await this.loginAttemptsService.assertNotLocked([ipKey]);
 
     // Find password reset token
     const { data: tokenData, error } = await supabase
@@ -241,6 +1291,7 @@ export class AuthService extends BaseService {
       .maybeSingle();
 
     if (error || !tokenData) {
+      await this.loginAttemptsService.recordFailure(ipKey);
       throw new BadRequestException('auth.resetPassword.invalidToken');
     }
 
@@ -295,19 +1346,48 @@ export class AuthService extends BaseService {
     }
   }
 
-  async verifyEmail(verifyEmailDto: VerifyEmailDto): Promise<void> {
+  async verifyEmail(
+    verifyEmailDto: VerifyEmailDto,
+    clientIp?: string | null,
+  ): Promise<void> {
     const supabase = this.getClient();
+    const ipKey = LoginAttemptsService.ipKey(clientIp);
+
+    await this.loginAttemptsService.assertNotLocked([ipKey]);
 
-    // Find verification token by ID (verificationToken) and OTP
+    // Find verification token by ID (verificationToken)
     const { data: tokenData, error } = await supabase
       .from('email_verification_tokens')
-      .select('id, user_id, expires_at')
+      .select('id, user_id, token, expires_at, failed_attempts')
       .eq('id', verifyEmailDto.verificationToken)
-      .eq('token', verifyEmailDto.otp)
       .is('used_at', null)
       .maybeSingle();
 
     if (error || !tokenData) {
+      await this.loginAttemptsService.recordFailure(ipKey);
+      throw new BadRequestException('auth.verify.invalidCode');
+    }
+
+    if (tokenData.token !== verifyEmailDto.otp) {
+      await this.loginAttemptsService.recordFailure(ipKey);
+      const failedAttempts = tokenData.failed_attempts + 1;
+
+      // Too many wrong guesses: burn the OTP, a new one must be requested
+      if (failedAttempts >= this.MAX_OTP_ATTEMPTS) {
+        await supabase
+          .from('email_verification_tokens')
+          .update({
+            failed_attempts: failedAttempts,
+            used_at: new Date().toISOString(),
+          })
+          .eq('id', tokenData.id);
+        throw new BadRequestException('auth.verify.tooManyAttempts');
+      }
+
+      await supabase
+        .from('email_verification_tokens')
+        .update({ failed_attempts: failedAttempts })
+        .eq('id', tokenData.id);
       throw new BadRequestException('auth.verify.invalidCode');
     }
 
@@ -329,6 +1409,212 @@ export class AuthService extends BaseService {
     ]);
   }
 
+  /**
+   * Start an email change: OTP to the new address, cancel link to the old one
+   */
+  async requestEmailChange(
+    userId: string,
+    requestEmailChangeDto: RequestEmailChangeDto,
+  ): Promise<void> {
+    const supabase = this.getClient();
+    const user = await this.usersService.findOne(userId);
+    const newEmail = requestEmailChangeDto.newEmail.trim().toLowerCase();
+
+    if (newEmail === user.email.toLowerCase()) {
+      throw new BadRequestException('auth.emailChange.sameEmail');
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('password_hash')
+      .eq('id', userId)
+      .single();
+
+    const isPasswordValid =
+      !!userData &&
+      (await bcrypt.compare(
+        requestEmailChangeDto.password,
+        userData.password_hash,
+      ));
+
+    if (!isPasswordValid) {
+      throw new UnauthorizedException('auth.changePassword.invalid');
+    }
+
+    if (await this.exists('users', 'email', newEmail)) {
+      throw new ConflictException('users.update.emailExists');
+    }
+
+    // Only the latest request stays pending
+    await supabase
+      .from('email_change_requests')
+      .update({ cancelled_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('confirmed_at', null)
+      .is('cancelled_at', null);
+
+    const otp = this.generateOTP(this.OTP_LENGTH);
+    const expiresAt = new Date();
+    expiresAt.setMinutes(expiresAt.getMinutes() + this.OTP_EXPIRY_MINUTES);
+
+    const { data: request, error } = await supabase
+      .from('email_change_requests')
+      .insert({
+        user_id: userId,
+        old_email: user.email,
+        new_email: newEmail,
+        token: otp,
+        expires_at: expiresAt.toISOString(),
+      })
+      .select('cancel_token')
+      .single();
+
+    if (error || !request) {
+      throw new BadRequestException('auth.emailChange.failed');
+    }
+
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL') || '';
+
+    // The code must reach the new inbox, otherwise the change cannot be confirmed
+    await this.mailerService.sendEmailChangeConfirmEmail(newEmail, {
+      firstName: user.firstName,
+      lastName: user.lastName,
+      newEmail,
+      otp,
+      expiresInMinutes: this.OTP_EXPIRY_MINUTES,
+    });
+
+    // Send notice to the old address (non-blocking)
+    this.mailerService
+      .sendEmailChangeNoticeEmail(user.email, {
+        firstName: user.firstName,
+        lastName: user.lastName,
+        newEmail,
+        cancelLink: `${frontendUrl}/auth/email-change/cancel?token=${request.cancel_token}`,
+        cancelWindowHours: this.EMAIL_CHANGE_CANCEL_WINDOW_HOURS,
+      })
+      .catch(() => {
+        // Silently fail - not critical
+      });
+  }
+
+  /**
+   * Apply the pending email change once the OTP is confirmed
+   */
+  async confirmEmailChange(
+    userId: string,
+    code: string,
+  ): Promise<IAuthResponse['user']> {
+    const supabase = this.getClient();
+
+    const { data: request } = await supabase
+      .from('email_change_requests')
+      .select('id, new_email, token, expires_at, failed_attempts')
+      .eq('user_id', userId)
+      .is('confirmed_at', null)
+      .is('cancelled_at', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!request) {
+      throw new BadRequestException('auth.emailChange.notFound');
+    }
+
+    if (new Date(request.expires_at) < new Date()) {
+      throw new BadRequestException('auth.verify.codeExpired');
+    }
+
+    if (request.token !== code) {
+      const failedAttempts = request.failed_attempts + 1;
+
+      // Too many wrong guesses: drop the request, a new one must be made
+      await supabase
+        .from('email_change_requests')
+        .update({
+          failed_attempts: failedAttempts,
+          ...(failedAttempts >= this.MAX_OTP_ATTEMPTS && {
+            cancelled_at: new Date().toISOString(),
+          }),
+        })
+        .eq('id', request.id);
+
+      throw new BadRequestException(
+        failedAttempts >= this.MAX_OTP_ATTEMPTS
+          ? 'auth.verify.tooManyAttempts'
+          : 'auth.verify.invalidCode',
+      );
+    }
+
+    // The address may have been taken since the request was made
+    if (await this.exists('users', 'email', request.new_email, userId)) {
+      throw new ConflictException('users.update.emailExists');
+    }
+
+    const { error } = await supabase
+      .from('users')
+      .update({ email: request.new_email, is_email_verified: true })
+      .eq('id', userId);
+
+    if (error) {
+      throw new BadRequestException('auth.emailChange.failed');
+    }
+
+    await supabase
+      .from('email_change_requests')
+      .update({ confirmed_at: new Date().toISOString() })
+      .eq('id', request.id);
+
+    return this.getCurrentUser(userId);
+  }
+
+  /**
+   * Cancel link from the old address. Cancels a pending change, or
+   * reverts a confirmed one within the cancel window and signs out
+   * every device.
+   */
+  async cancelEmailChange(cancelToken: string): Promise<void> {
+    const supabase = this.getClient();
+
+    const { data: request } = await supabase
+      .from('email_change_requests')
+      .select('id, user_id, old_email, confirmed_at, cancelled_at')
+      .eq('cancel_token', cancelToken)
+      .maybeSingle();
+
+    if (!request || request.cancelled_at) {
+      throw new BadRequestException('auth.emailChange.invalidCancelToken');
+    }
+
+    if (request.confirmed_at) {
+      const windowEnd =
+        new Date(request.confirmed_at).getTime() +
+        this.EMAIL_CHANGE_CANCEL_WINDOW_HOURS * 60 * 60 * 1000;
+
+      if (Date.now() > windowEnd) {
+        throw new BadRequestException('auth.emailChange.cancelExpired');
+      }
+
+      if (
+        await this.exists('users', 'email', request.old_email, request.user_id)
+      ) {
+        throw new ConflictException('users.update.emailExists');
+      }
+
+      await supabase
+        .from('users')
+        .update({ email: request.old_email })
+        .eq('id', request.user_id);
+
+      await this.logoutEverywhere(request.user_id);
+    }
+
+    await supabase
+      .from('email_change_requests')
+      .update({ cancelled_at: new Date().toISOString() })
+      .eq('id', request.id);
+  }
+
   async getCurrentUser(userId: string): Promise<IAuthResponse['user']> {
     const user = await this.usersService.findOne(userId);
     return this.mapToAuthUser(user);
@@ -373,13 +1659,30 @@ export class AuthService extends BaseService {
       .eq('id', userId);
   }
 
-  async logout(userId: string): Promise<void> {
+  /**
+   * Sign out the current session only; the user's other devices stay
+   * signed in. Tokens issued without a session id sign out everywhere.
+   */
+  async logout(userId: string, sessionId?: string): Promise<void> {
+    if (!sessionId) {
+      return this.logoutEverywhere(userId);
+    }
+
+    await this.getClient()
+      .from('refresh_tokens')
+      .update({ is_revoked: true, revoked_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('family_id', sessionId)
+      .eq('is_revoked', false);
+  }
+
+  async logoutEverywhere(userId: string): Promise<void> {
     const supabase = this.getClient();
 
     // Revoke all refresh tokens for this user (logout from all devices)
     await supabase
       .from('refresh_tokens')
-      .update({ is_revoked: true })
+      .update({ is_revoked: true, revoked_at: new Date().toISOString() })
       .eq('user_id', userId)
       .eq('is_revoked', false);
   }
@@ -416,7 +1719,10 @@ export class AuthService extends BaseService {
     });
   }
 
-  private async generateTokens(userId: string): Promise<IAuthTokens> {
+  private async generateTokens(
+    user: Pick<IUser, 'id' | 'role'>,
+    session: ITokenSessionOptions = {},
+  ): Promise<IAuthTokens> {
     const jwtSecret = this.configService.get<string>('JWT_SECRET');
     const jwtExpiresIn = this.configService.get<string>('JWT_EXPIRES_IN');
     const jwtRefreshExpiresIn = this.configService.get<string>(
@@ -429,7 +1735,13 @@ export class AuthService extends BaseService {
       );
     }
 
-    const payload = { sub: userId };
+    const familyId = session.familyId || uuidv4();
+    const payload: IJwtPayload = {
+      sub: user.id,
+      role: user.role as UserRole,
+      sid: familyId,
+      tfa: session.twoFactorVerified || false,
+    };
 
     const accessToken = this.jwtService.sign(payload, {
       secret: jwtSecret,
@@ -446,11 +1758,35 @@ export class AuthService extends BaseService {
     );
 
     const supabase = this.getClient();
-    await supabase.from('refresh_tokens').insert({
-      user_id: userId,
-      token: refreshToken,
-      expires_at: expiresAt.toISOString(),
-    });
+    const { data: storedToken, error: storeError } = await supabase
+      .from('refresh_tokens')
+      .insert({
+        user_id: user.id,
+        token: refreshToken,
+        expires_at: expiresAt.toISOString(),
+        family_id: familyId,
+        session_started_at:
+          session.sessionStartedAt || new Date().toISOString(),
+        device_name: session.metadata?.deviceName || null,
+        ip_address: session.metadata?.ipAddress || null,
+        user_agent: session.metadata?.userAgent || null,
+        two_factor_verified: session.twoFactorVerified || false,
+      })
+      .select('id')
+      .single();
+
+    // Without the stored token the refresh token could never be used
+    if (storeError || !storedToken) {
+      throw new BadRequestException('auth.sessions.createFailed');
+    }
+
+    // Link the rotated token to its successor for auditing
+    if (session.rotatedFromId) {
+      await supabase
+        .from('refresh_tokens')
+        .update({ replaced_by: storedToken.id })
+        .eq('id', session.rotatedFromId);
+    }
 
     return {
       accessToken,
@@ -513,7 +1849,7 @@ export class AuthService extends BaseService {
   private generateOTP(length: number = this.OTP_LENGTH): string {
     const digits = '0123456789';
     return Array.from({ length }, () =>
-      digits.charAt(Math.floor(Math.random() * digits.length)),
+      digits.charAt(randomInt(digits.length)),
     ).join('');
   }
 
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from '../../users/enums/user-role.enum';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Restrict a route (or every route of a controller) to the given roles.
+ * Must be combined with JwtAuthGuard and RolesGuard.
+ */
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
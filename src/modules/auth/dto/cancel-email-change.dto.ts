@@ -0,0 +1,6 @@
+import { IsUUID } from 'class-validator';
+
+export class CancelEmailChangeDto {
+  @IsUUID()
+  token: string; // From the cancel link sent to the old address
+}
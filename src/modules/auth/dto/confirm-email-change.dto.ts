@@ -0,0 +1,8 @@
+import { IsString, Length, Matches } from 'class-validator';
+
+export class ConfirmEmailChangeDto {
+  @IsString()
+  @Length(6, 6)
+  @Matches(/^\d+$/)
+  code: string; // 6-digit OTP sent to the new address
+}
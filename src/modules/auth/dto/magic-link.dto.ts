@@ -0,0 +1,6 @@
+import { IsEmail } from 'class-validator';
+
+export class MagicLinkDto {
+  @IsEmail()
+  email: string;
+}
@@ -0,0 +1,10 @@
+import { IsString, MaxLength } from 'class-validator';
+
+export class OAuthCallbackDto {
+  @IsString()
+  @MaxLength(2048)
+  code: string; // Authorization code from the provider redirect
+
+  @IsString()
+  state: string; // Returned by the authorize endpoint
+}
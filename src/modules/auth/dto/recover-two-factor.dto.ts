@@ -0,0 +1,10 @@
+import { IsString, MaxLength } from 'class-validator';
+
+export class RecoverTwoFactorDto {
+  @IsString()
+  challengeToken: string; // Returned by login when 2FA is enabled
+
+  @IsString()
+  @MaxLength(20)
+  recoveryCode: string;
+}
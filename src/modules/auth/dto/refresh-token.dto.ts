@@ -1,7 +1,8 @@
-import { IsString } from 'class-validator';
+import { IsOptional, IsString } from 'class-validator';
 
 export class RefreshTokenDto {
+  // Optional in cookie mode, where the refresh token comes from its cookie
+  @IsOptional()
   @IsString()
-  refreshToken: string;
+  refreshToken?: string;
 }
-
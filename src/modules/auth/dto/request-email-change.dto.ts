@@ -0,0 +1,10 @@
+import { IsEmail, IsString, MaxLength } from 'class-validator';
+
+export class RequestEmailChangeDto {
+  @IsEmail()
+  newEmail: string;
+
+  @IsString()
+  @MaxLength(100)
+  password: string; // Current password, re-authenticates the request
+}
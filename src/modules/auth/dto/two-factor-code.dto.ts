@@ -0,0 +1,8 @@
+import { IsString, Length, Matches } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  @IsString()
+  @Length(6, 6)
+  @Matches(/^\d+$/)
+  code: string; // 6-digit code from the authenticator app
+}
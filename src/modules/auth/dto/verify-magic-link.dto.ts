@@ -0,0 +1,27 @@
+import {
+  IsEmail,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  ValidateIf,
+} from 'class-validator';
+
+/**
+ * Either the `token` from the emailed link, or the `email` + `code` pair
+ */
+export class VerifyMagicLinkDto {
+  @IsOptional()
+  @IsString()
+  token?: string;
+
+  @ValidateIf((dto: VerifyMagicLinkDto) => !dto.token)
+  @IsEmail()
+  email?: string;
+
+  @ValidateIf((dto: VerifyMagicLinkDto) => !dto.token)
+  @IsString()
+  @Length(6, 6)
+  @Matches(/^\d+$/)
+  code?: string; // 6-digit code from the email
+}
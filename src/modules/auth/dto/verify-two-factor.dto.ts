@@ -0,0 +1,7 @@
+import { IsString } from 'class-validator';
+import { TwoFactorCodeDto } from './two-factor-code.dto';
+
+export class VerifyTwoFactorDto extends TwoFactorCodeDto {
+  @IsString()
+  challengeToken: string; // Returned by login when 2FA is enabled
+}
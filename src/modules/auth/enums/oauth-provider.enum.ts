@@ -0,0 +1,5 @@
+export enum OAuthProvider {
+  GITHUB = 'github',
+  GOOGLE = 'google',
+  MOCK = 'mock', // Local provider for tests, disabled in production
+}
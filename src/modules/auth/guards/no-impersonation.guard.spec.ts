@@ -0,0 +1,23 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { NoImpersonationGuard } from './no-impersonation.guard';
+
+describe('NoImpersonationGuard', () => {
+  const guard = new NoImpersonationGuard();
+
+  const createContext = (user: any): ExecutionContext =>
+    ({
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    }) as unknown as ExecutionContext;
+
+  it('rejects impersonation tokens with 403', () => {
+    expect(() =>
+      guard.canActivate(
+        createContext({ sub: 'user-1', impersonatedBy: 'admin-1' }),
+      ),
+    ).toThrow(ForbiddenException);
+  });
+
+  it("allows the user's own tokens", () => {
+    expect(guard.canActivate(createContext({ sub: 'user-1' }))).toBe(true);
+  });
+});
@@ -0,0 +1,25 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+
+/**
+ * Rejects impersonation tokens (JWT `act` claim) on account-security
+ * routes: an admin acting as a user must not change their credentials,
+ * sessions or email, nor export their data.
+ * Must run after JwtAuthGuard.
+ */
+@Injectable()
+export class NoImpersonationGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+
+    if (request.user?.impersonatedBy) {
+      throw new ForbiddenException('auth.impersonation.notAllowed');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,13 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * Authenticates the request when a valid token is present, but lets
+ * anonymous requests (and invalid tokens) through with no `req.user`.
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  handleRequest<TUser = any>(err: any, user: any): TUser {
+    return (err || !user ? undefined : user) as TUser;
+  }
+}
@@ -0,0 +1,54 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { RolesGuard } from './roles.guard';
+import { UserRole } from '../../users/enums/user-role.enum';
+
+describe('RolesGuard', () => {
+  const ADMIN_ROLES = [UserRole.ADMIN, UserRole.SUPER_ADMIN];
+
+  const createContext = (user: any): ExecutionContext =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    }) as unknown as ExecutionContext;
+
+  const createGuard = (roles: UserRole[] | undefined) => {
+    const reflector = {
+      getAllAndOverride: () => roles,
+    } as unknown as Reflector;
+    const config = { get: () => undefined } as unknown as ConfigService;
+    return new RolesGuard(reflector, config);
+  };
+
+  it('rejects a plain user on admin routes with 403', () => {
+    const guard = createGuard(ADMIN_ROLES);
+
+    expect(() =>
+      guard.canActivate(createContext({ sub: 'u1', role: UserRole.USER })),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('rejects requests without a user', () => {
+    const guard = createGuard(ADMIN_ROLES);
+
+    expect(() => guard.canActivate(createContext(undefined))).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('lets admins through', () => {
+    const guard = createGuard(ADMIN_ROLES);
+
+    expect(
+      guard.canActivate(createContext({ sub: 'a1', role: UserRole.ADMIN })),
+    ).toBe(true);
+  });
+
+  it('allows routes without @Roles()', () => {
+    const guard = createGuard(undefined);
+
+    expect(guard.canActivate(createContext(undefined))).toBe(true);
+  });
+});
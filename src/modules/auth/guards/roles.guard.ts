@@ -0,0 +1,52 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { UserRole } from '../../users/enums/user-role.enum';
+
+/**
+ * Checks the role carried in the JWT payload against the roles
+ * declared with the @Roles() decorator.
+ * Routes without @Roles() are allowed through.
+ * With REQUIRE_ADMIN_2FA=true, admins must also have passed 2FA.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly configService: ConfigService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredRoles || requiredRoles.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const role = request.user?.role as UserRole | undefined;
+
+    if (!role || !requiredRoles.includes(role)) {
+      throw new ForbiddenException('auth.forbidden');
+    }
+
+    if (
+      this.configService.get<string>('REQUIRE_ADMIN_2FA') === 'true' &&
+      (role === UserRole.ADMIN || role === UserRole.SUPER_ADMIN) &&
+      !request.user?.twoFactorVerified
+    ) {
+      throw new ForbiddenException('auth.twoFactor.required');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,107 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { LoginAttemptsService } from './login-attempts.service';
+import {
+  createSupabaseMock,
+  IQueryResult,
+  ISupabaseMock,
+} from '../../core/testing/supabase.mock';
+
+describe('LoginAttemptsService', () => {
+  let mock: ISupabaseMock;
+  let rpcResult: IQueryResult;
+  let stored: Record<string, unknown> | null;
+  let service: LoginAttemptsService;
+
+  const row = (failedCount: number, lockedUntil: string | null = null) => ({
+    scope: 'account',
+    identifier: 'owner@example.com',
+    failed_count: failedCount,
+    last_failed_at: new Date().toISOString(),
+    locked_until: lockedUntil,
+  });
+
+  beforeEach(() => {
+    rpcResult = { data: row(1), error: null };
+    stored = null;
+    mock = createSupabaseMock(
+      () => ({ data: stored, error: null }),
+      () => rpcResult,
+    );
+    service = new LoginAttemptsService(mock.supabaseService);
+  });
+
+  describe('recordFailure', () => {
+    it('counts the failure in one RPC with the scope policy', async () => {
+      const state = await service.recordFailure(
+        LoginAttemptsService.accountKey(' Owner@Example.com '),
+      );
+
+      expect(mock.client.rpc).toHaveBeenCalledWith('record_auth_failure', {
+        p_scope: 'account',
+        p_identifier: 'owner@example.com',
+        p_window_minutes: 60,
+        p_free_attempts: 3,
+        p_lockout_threshold: 10,
+        p_max_backoff_seconds: 300,
+        p_lockout_minutes: 15,
+      });
+      expect(mock.queries).toHaveLength(0);
+      expect(state).toMatchObject({ failedCount: 1, justLocked: false });
+    });
+
+    it('flags the failure that triggered the lockout', async () => {
+      const lockedUntil = new Date(Date.now() + 15 * 60 * 1000).toISOString();
+      rpcResult = { data: row(10, lockedUntil), error: null };
+
+      const state = await service.recordFailure(
+        LoginAttemptsService.accountKey('owner@example.com'),
+      );
+
+      expect(state).toMatchObject({
+        failedCount: 10,
+        lockedUntil,
+        justLocked: true,
+      });
+    });
+
+    it('ignores requests without a key', async () => {
+      await expect(
+        service.recordFailure(LoginAttemptsService.ipKey(null)),
+      ).resolves.toBeNull();
+      expect(mock.client.rpc).not.toHaveBeenCalled();
+    });
+
+    it('returns null when the failure cannot be recorded', async () => {
+      rpcResult = { data: null, error: { code: '08006' } };
+
+      await expect(
+        service.recordFailure(LoginAttemptsService.ipKey('203.0.113.7')),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('assertNotLocked', () => {
+    it('answers 429 while a key is locked', async () => {
+      stored = row(10, new Date(Date.now() + 60 * 60 * 1000).toISOString());
+
+      const error = await service
+        .assertNotLocked([LoginAttemptsService.accountKey('owner@example.com')])
+        .catch((caught: HttpException) => caught);
+
+      expect(error).toBeInstanceOf(HttpException);
+      expect((error as HttpException).getStatus()).toBe(
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    });
+
+    it('lets the attempt through once the lock has expired', async () => {
+      stored = row(10, new Date(Date.now() - 1000).toISOString());
+
+      await expect(
+        service.assertNotLocked([
+          LoginAttemptsService.accountKey('owner@example.com'),
+        ]),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { BaseService } from '../../core/services/base.service';
+import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+import {
+  IAttemptKey,
+  IAttemptPolicy,
+  IAttemptState,
+  AttemptScope,
+} from './types/auth.types';
+
+/**
+ * Tracks failed authentication attempts per account and per IP.
+ * Each failure past `freeAttempts` doubles the wait before the next
+ * attempt; reaching `lockoutThreshold` locks the key temporarily.
+ */
+@Injectable()
+export class LoginAttemptsService extends BaseService {
+  // Failures older than this no longer count
+  private readonly ATTEMPT_WINDOW_MINUTES = 60;
+
+  private readonly POLICIES: Record<AttemptScope, IAttemptPolicy> = {
+    account: {
+      freeAttempts: 3,
+      lockoutThreshold: 10,
+      maxBackoffSeconds: 5 * 60,
+      lockoutMinutes: 15,
+    },
+    ip: {
+      freeAttempts: 10,
+      lockoutThreshold: 50,
+      maxBackoffSeconds: 5 * 60,
+      lockoutMinutes: 30,
+    },
+  };
+
+  constructor(supabaseService: SupabaseService) {
+    super(supabaseService);
+  }
+
+  static accountKey(email: string): IAttemptKey {
+    return { scope: 'account', identifier: email.trim().toLowerCase() };
+  }
+
+  static ipKey(ipAddress: string | null | undefined): IAttemptKey | null {
+    return ipAddress ? { scope: 'ip', identifier: ipAddress } : null;
+  }
+
+  /**
+   * Throws 429 if any of the keys is currently backed off or locked
+   */
+  async assertNotLocked(keys: (IAttemptKey | null)[]): Promise<void> {
+    const activeKeys = keys.filter((key): key is IAttemptKey => !!key);
+    const states = await Promise.all(
+      activeKeys.map((key) => this.findState(key)),
+    );
+
+    const now = Date.now();
+    const lockedUntil = states
+      .map((state) => state?.lockedUntil)
+      .filter(
+        (date): date is string => !!date && new Date(date).getTime() > now,
+      )
+      .sort()
+      .pop();
+
+    if (lockedUntil) {
+      const retryAfter = Math.ceil(
+        (new Date(lockedUntil).getTime() - now) / 1000,
+      );
+      throw new HttpException(
+        retryAfter > 60
+          ? 'auth.lockout.locked'
+          : 'auth.lockout.tooManyAttempts',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * Count a failure and compute the next allowed attempt time. Both
+   * happen in record_auth_failure so concurrent failures are not lost.
+   */
+  async recordFailure(key: IAttemptKey | null): Promise<IAttemptState | null> {
+    if (!key) {
+      return null;
+    }
+
+    const policy = this.POLICIES[key.scope];
+    const { data, error } = await this.getClient().rpc('record_auth_failure', {
+      p_scope: key.scope,
+      p_identifier: key.identifier,
+      p_window_minutes: this.ATTEMPT_WINDOW_MINUTES,
+      p_free_attempts: policy.freeAttempts,
+      p_lockout_threshold: policy.lockoutThreshold,
+      p_max_backoff_seconds: policy.maxBackoffSeconds,
+      p_lockout_minutes: policy.lockoutMinutes,
+    });
+
+    if (error || !data) {
+      return null;
+    }
+
+    return {
+      failedCount: data.failed_count,
+      lastFailedAt: data.last_failed_at,
+      lockedUntil: data.locked_until,
+      // True only on the failure that triggered the lockout
+      justLocked: data.failed_count === policy.lockoutThreshold,
+    };
+  }
+
+  async reset(key: IAttemptKey | null): Promise<void> {
+    if (!key) {
+      return;
+    }
+
+    await this.getClient()
+      .from('auth_failed_attempts')
+      .delete()
+      .eq('scope', key.scope)
+      .eq('identifier', key.identifier);
+  }
+
+  private async findState(key: IAttemptKey): Promise<IAttemptState | null> {
+    const { data } = await this.getClient()
+      .from('auth_failed_attempts')
+      .select('failed_count, last_failed_at, locked_until')
+      .eq('scope', key.scope)
+      .eq('identifier', key.identifier)
+      .maybeSingle();
+
+    if (!data) {
+      return null;
+    }
+
+    return {
+      failedCount: data.failed_count,
+      lastFailedAt: data.last_failed_at,
+      lockedUntil: data.locked_until,
+      justLocked: false,
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { IOAuthProfile, IOAuthProvider } from '../types/auth.types';
+
+interface IGitHubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+/**
+ * GitHub OAuth app (authorization code flow)
+ */
+export class GitHubOAuthProvider implements IOAuthProvider {
+  constructor(
+    private readonly clientId: string,
+    private readonly clientSecret: string,
+  ) {}
+
+  getAuthorizationUrl(state: string, redirectUri: string): string {
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: redirectUri,
+      scope: 'read:user user:email',
+      state,
+    });
+    return `https://github.com/login/oauth/authorize?${params.toString()}`;
+  }
+
+  async getProfile(code: string, redirectUri: string): Promise<IOAuthProfile> {
+    const tokenResponse = await fetch(
+      'https://github.com/login/oauth/access_token',
+      {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          client_id: this.clientId,
+          client_secret: this.clientSecret,
+          code,
+          redirect_uri: redirectUri,
+        }),
+      },
+    );
+    const tokenData = await tokenResponse.json();
+
+    if (!tokenResponse.ok || !tokenData.access_token) {
+      throw new UnauthorizedException('auth.oauth.codeExchangeFailed');
+    }
+
+    const headers = {
+      Accept: 'application/vnd.github+json',
+      Authorization: `Bearer ${tokenData.access_token}`,
+      'User-Agent': 'flexify-backend',
+    };
+
+    const [userResponse, emailsResponse] = await Promise.all([
+      fetch('https://api.github.com/user', { headers }),
+      fetch('https://api.github.com/user/emails', { headers }),
+    ]);
+
+    if (!userResponse.ok) {
+      throw new UnauthorizedException('auth.oauth.profileFailed');
+    }
+
+    const user = await userResponse.json();
+    const emails: IGitHubEmail[] = emailsResponse.ok
+      ? await emailsResponse.json()
+      : [];
+
+    // The public profile email is not necessarily verified, use the primary one
+    const primaryEmail = emails.find((email) => email.primary) || null;
+    const [firstName, ...rest] = (user.name || '').trim().split(/\s+/);
+
+    return {
+      providerAccountId: String(user.id),
+      email: primaryEmail?.email || null,
+      emailVerified: primaryEmail?.verified === true,
+      firstName: firstName || user.login || null,
+      lastName: rest.length > 0 ? rest.join(' ') : null,
+      avatarUrl: user.avatar_url || null,
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { IOAuthProfile, IOAuthProvider } from '../types/auth.types';
+
+/**
+ * Google OpenID Connect (authorization code flow)
+ */
+export class GoogleOAuthProvider implements IOAuthProvider {
+  constructor(
+    private readonly clientId: string,
+    private readonly clientSecret: string,
+  ) {}
+
+  getAuthorizationUrl(state: string, redirectUri: string): string {
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      scope: 'openid email profile',
+      state,
+    });
+    return `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
+  }
+
+  async getProfile(code: string, redirectUri: string): Promise<IOAuthProfile> {
+    const tokenResponse = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        code,
+        grant_type: 'authorization_code',
+        redirect_uri: redirectUri,
+      }),
+    });
+    const tokenData = await tokenResponse.json();
+
+    if (!tokenResponse.ok || !tokenData.access_token) {
+      throw new UnauthorizedException('auth.oauth.codeExchangeFailed');
+    }
+
+    const userResponse = await fetch(
+      'https://openidconnect.googleapis.com/v1/userinfo',
+      { headers: { Authorization: `Bearer ${tokenData.access_token}` } },
+    );
+
+    if (!userResponse.ok) {
+      throw new UnauthorizedException('auth.oauth.profileFailed');
+    }
+
+    const user = await userResponse.json();
+
+    return {
+      providerAccountId: String(user.sub),
+      email: user.email || null,
+      emailVerified: user.email_verified === true,
+      firstName: user.given_name || null,
+      lastName: user.family_name || null,
+      avatarUrl: user.picture || null,
+    };
+  }
+}
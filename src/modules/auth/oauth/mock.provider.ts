@@ -0,0 +1,34 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { IOAuthProfile, IOAuthProvider } from '../types/auth.types';
+
+/**
+ * Local provider for tests and development: the "consent" step
+ * redirects straight back, and the authorization code is the email
+ * of the user to sign in (e.g. `dev@example.com`).
+ */
+export class MockOAuthProvider implements IOAuthProvider {
+  getAuthorizationUrl(state: string, redirectUri: string): string {
+    const params = new URLSearchParams({
+      code: 'mock-user@example.com',
+      state,
+    });
+    return `${redirectUri}?${params.toString()}`;
+  }
+
+  async getProfile(code: string): Promise<IOAuthProfile> {
+    const email = code.trim().toLowerCase();
+
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+      throw new UnauthorizedException('auth.oauth.codeExchangeFailed');
+    }
+
+    return {
+      providerAccountId: `mock-${email}`,
+      email,
+      emailVerified: true,
+      firstName: email.split('@')[0],
+      lastName: null,
+      avatarUrl: null,
+    };
+  }
+}
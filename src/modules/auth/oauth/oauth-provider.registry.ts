@@ -0,0 +1,66 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OAuthProvider } from '../enums/oauth-provider.enum';
+import { IOAuthProvider } from '../types/auth.types';
+import { GitHubOAuthProvider } from './github.provider';
+import { GoogleOAuthProvider } from './google.provider';
+import { MockOAuthProvider } from './mock.provider';
+
+/**
+ * Builds the OAuth providers that are configured in the environment
+ */
+@Injectable()
+export class OAuthProviderRegistry {
+  constructor(private readonly configService: ConfigService) {}
+
+  get(provider: OAuthProvider): IOAuthProvider {
+    const instance = this.create(provider);
+
+    if (!instance) {
+      throw new BadRequestException('auth.oauth.providerNotConfigured');
+    }
+
+    return instance;
+  }
+
+  /**
+   * Where the provider sends the user back (a frontend route that
+   * forwards `code` and `state` to the callback endpoint)
+   */
+  getRedirectUri(provider: OAuthProvider): string {
+    const baseUrl =
+      this.configService.get<string>('OAUTH_REDIRECT_BASE_URL') ||
+      `${this.configService.get<string>('FRONTEND_URL') || ''}/auth/oauth`;
+    return `${baseUrl}/${provider}/callback`;
+  }
+
+  private create(provider: OAuthProvider): IOAuthProvider | null {
+    switch (provider) {
+      case OAuthProvider.GITHUB: {
+        const clientId = this.configService.get<string>('GITHUB_CLIENT_ID');
+        const clientSecret = this.configService.get<string>(
+          'GITHUB_CLIENT_SECRET',
+        );
+        return clientId && clientSecret
+          ? new GitHubOAuthProvider(clientId, clientSecret)
+          : null;
+      }
+      case OAuthProvider.GOOGLE: {
+        const clientId = this.configService.get<string>('GOOGLE_CLIENT_ID');
+        const clientSecret = this.configService.get<string>(
+          'GOOGLE_CLIENT_SECRET',
+        );
+        return clientId && clientSecret
+          ? new GoogleOAuthProvider(clientId, clientSecret)
+          : null;
+      }
+      case OAuthProvider.MOCK:
+        return this.configService.get<string>('OAUTH_MOCK_ENABLED') ===
+          'true' && this.configService.get<string>('NODE_ENV') !== 'production'
+          ? new MockOAuthProvider()
+          : null;
+      default:
+        return null;
+    }
+  }
+}
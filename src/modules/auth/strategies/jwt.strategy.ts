@@ -1,11 +1,27 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
+import type { Request } from 'express';
+import {
+  IJwtPayload,
+  ITwoFactorChallengePayload,
+} from '../types/auth.types';
+import { AuthCookieUtil } from '../utils/auth-cookie.util';
+import { UsersService } from '../../users/users.service';
+import { AuthService } from '../auth.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private usersService: UsersService,
+    private authService: AuthService,
+  ) {
     const jwtSecret = configService.get<string>('JWT_SECRET');
     
     if (!jwtSecret) {
@@ -13,17 +29,54 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     }
 
     super({
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      // Bearer header first, then the HTTP-only session cookie
+      jwtFromRequest: ExtractJwt.fromExtractors([
+        ExtractJwt.fromAuthHeaderAsBearerToken(),
+        (req: Request) => AuthCookieUtil.getAccessToken(req),
+      ]),
       ignoreExpiration: false,
       secretOrKey: jwtSecret,
+      passReqToCallback: true,
     });
   }
 
-  async validate(payload: any) {
-    if (!payload.sub) {
+  async validate(
+    req: Request,
+    payload: IJwtPayload | ITwoFactorChallengePayload,
+  ) {
+    // 2FA challenge tokens share the secret but are not access tokens
+    if (!payload.sub || 'purpose' in payload) {
       throw new UnauthorizedException('Invalid token payload');
     }
-    return { sub: payload.sub, id: payload.sub };
+
+    // Cookies are sent automatically by the browser, so require a CSRF token
+    const usedCookie = !ExtractJwt.fromAuthHeaderAsBearerToken()(req);
+    if (usedCookie && !AuthCookieUtil.hasValidCsrfToken(req)) {
+      throw new ForbiddenException('auth.csrf.invalid');
+    }
+
+    // Deactivation must take effect before the access token expires
+    if (!(await this.usersService.isActive(payload.sub))) {
+      throw new UnauthorizedException('auth.login.inactive');
+    }
+
+    // Impersonation has no refresh token to revoke, so its session is
+    // checked on every request: revoking it ends the impersonation
+    if (
+      payload.act &&
+      !(payload.sid && (await this.authService.isSessionActive(payload.sid)))
+    ) {
+      throw new UnauthorizedException('auth.impersonation.revoked');
+    }
+
+    return {
+      sub: payload.sub,
+      id: payload.sub,
+      role: payload.role,
+      sessionId: payload.sid,
+      twoFactorVerified: payload.tfa === true,
+      impersonatedBy: payload.act?.sub,
+    };
   }
 }
 
@@ -1,3 +1,5 @@
+import { UserRole } from '../../users/enums/user-role.enum';
+
 export interface ILoginRequest {
   email: string;
   password: string;
@@ -48,9 +50,132 @@ export interface IAuthResponse {
   tokens: IAuthTokens;
 }
 
+export interface ITwoFactorChallenge {
+  requiresTwoFactor: true;
+  challengeToken: string; // Short-lived, exchanged for tokens at /auth/2fa/verify
+  expiresIn: number;
+}
+
+export type ILoginResponse = IAuthResponse | ITwoFactorChallenge;
+
 export interface IRefreshTokenResponse {
   accessToken: string;
   refreshToken: string;
   expiresIn: number;
 }
 
+
+export interface IJwtPayload {
+  sub: string;
+  role: UserRole;
+  sid?: string; // Session (refresh token family) ID
+  tfa?: boolean; // Session passed the second factor
+  act?: { sub: string }; // Impersonating admin (RFC 8693 actor claim)
+}
+
+export interface IImpersonationToken {
+  accessToken: string;
+  expiresIn: number;
+  impersonatedBy: string;
+  sessionId: string; // Revocable via DELETE /auth/sessions/:id
+}
+
+export interface ITwoFactorChallengePayload {
+  sub: string;
+  purpose: 'two_factor';
+}
+
+export interface ITwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface ITwoFactorRecoveryCodes {
+  recoveryCodes: string[];
+}
+
+export interface ISessionMetadata {
+  deviceName: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface ITokenSessionOptions {
+  familyId?: string; // Existing session when rotating, new one otherwise
+  sessionStartedAt?: string;
+  rotatedFromId?: string; // Refresh token row being replaced
+  twoFactorVerified?: boolean;
+  metadata?: ISessionMetadata;
+}
+
+export interface ISession {
+  id: string;
+  deviceName: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  startedAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+  impersonatedBy: string | null; // Admin acting as the user
+}
+
+export type AttemptScope = 'account' | 'ip';
+
+export interface IAttemptKey {
+  scope: AttemptScope;
+  identifier: string; // Lowercased email or client IP
+}
+
+export interface IAttemptPolicy {
+  freeAttempts: number; // Failures allowed before backoff starts
+  lockoutThreshold: number;
+  maxBackoffSeconds: number;
+  lockoutMinutes: number;
+}
+
+export interface IAttemptState {
+  failedCount: number;
+  lastFailedAt: string | null;
+  lockedUntil: string | null;
+  justLocked: boolean;
+}
+
+export interface IOAuthProfile {
+  providerAccountId: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName: string | null;
+  lastName: string | null;
+  avatarUrl: string | null;
+}
+
+export interface IOAuthProvider {
+  /**
+   * URL the browser is sent to for consent
+   */
+  getAuthorizationUrl(state: string, redirectUri: string): string;
+
+  /**
+   * Exchange the authorization code and load the user's profile
+   */
+  getProfile(code: string, redirectUri: string): Promise<IOAuthProfile>;
+}
+
+export interface IOAuthStatePayload {
+  purpose: 'oauth_state';
+  provider: string;
+  nonce: string; // Must match the browser's OAuth state cookie
+}
+
+export interface IOAuthAuthorization {
+  authorizationUrl: string;
+  state: string; // Echo back to the callback endpoint
+}
+
+export interface IOAuthAccount {
+  provider: string;
+  email: string | null;
+  lastUsedAt: string;
+  createdAt: string;
+}
@@ -0,0 +1,141 @@
+import type { CookieOptions, Request, Response } from 'express';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import {
+  AUTH_MODE_HEADER,
+  CSRF_HEADER_NAME,
+  CSRF_TOKEN_COOKIE_NAME,
+  OAUTH_STATE_COOKIE_NAME,
+  OAUTH_STATE_EXPIRATION_SECONDS,
+  REFRESH_TOKEN_COOKIE_NAME,
+  SESSION_EXPIRATION_MS,
+  SESSION_TOKEN_COOKIE_NAME,
+} from '../../../constants/auth.constants';
+import { IAuthTokens } from '../types/auth.types';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+const OAUTH_COOKIE_PATH = '/api/auth/oauth';
+
+/**
+ * Helpers for the HTTP-only cookie session mode.
+ */
+export class AuthCookieUtil {
+  /**
+   * Whether the client asked for cookie mode (`X-Auth-Mode: cookie`).
+   */
+  static isCookieMode(req: Request): boolean {
+    return req.headers[AUTH_MODE_HEADER] === 'cookie';
+  }
+
+  /**
+   * Sets the access, refresh and CSRF cookies.
+   *
+   * @returns The CSRF token the client must echo in the X-CSRF-Token header
+   */
+  static setAuthCookies(res: Response, tokens: IAuthTokens): string {
+    const csrfToken = randomBytes(32).toString('hex');
+
+    res.cookie(SESSION_TOKEN_COOKIE_NAME, tokens.accessToken, {
+      ...this.getBaseOptions(),
+      httpOnly: true,
+      maxAge: tokens.expiresIn * 1000,
+    });
+    res.cookie(REFRESH_TOKEN_COOKIE_NAME, tokens.refreshToken, {
+      ...this.getBaseOptions(),
+      httpOnly: true,
+      path: '/api/auth',
+      maxAge: SESSION_EXPIRATION_MS,
+    });
+    res.cookie(CSRF_TOKEN_COOKIE_NAME, csrfToken, {
+      ...this.getBaseOptions(),
+      httpOnly: false,
+      maxAge: SESSION_EXPIRATION_MS,
+    });
+
+    return csrfToken;
+  }
+
+  /**
+   * Clears every auth cookie. Options must match the ones used to set them.
+   */
+  static clearAuthCookies(res: Response): void {
+    res.clearCookie(SESSION_TOKEN_COOKIE_NAME, this.getBaseOptions());
+    res.clearCookie(REFRESH_TOKEN_COOKIE_NAME, {
+      ...this.getBaseOptions(),
+      path: '/api/auth',
+    });
+    res.clearCookie(CSRF_TOKEN_COOKIE_NAME, this.getBaseOptions());
+  }
+
+  static getAccessToken(req: Request): string | null {
+    return req?.cookies?.[SESSION_TOKEN_COOKIE_NAME] || null;
+  }
+
+  static getRefreshToken(req: Request): string | null {
+    return req?.cookies?.[REFRESH_TOKEN_COOKIE_NAME] || null;
+  }
+
+  /**
+   * Binds an OAuth flow to this browser: stores a random nonce the
+   * signed state must carry when the callback comes back.
+   *
+   * @returns The nonce to embed in the state
+   */
+  static setOAuthStateCookie(res: Response): string {
+    const nonce = randomBytes(32).toString('hex');
+
+    res.cookie(OAUTH_STATE_COOKIE_NAME, nonce, {
+      ...this.getBaseOptions(),
+      httpOnly: true,
+      path: OAUTH_COOKIE_PATH,
+      maxAge: OAUTH_STATE_EXPIRATION_SECONDS * 1000,
+    });
+
+    return nonce;
+  }
+
+  static getOAuthStateNonce(req: Request): string | null {
+    return req?.cookies?.[OAUTH_STATE_COOKIE_NAME] || null;
+  }
+
+  static clearOAuthStateCookie(res: Response): void {
+    res.clearCookie(OAUTH_STATE_COOKIE_NAME, {
+      ...this.getBaseOptions(),
+      path: OAUTH_COOKIE_PATH,
+    });
+  }
+
+  /**
+   * Double-submit check: the X-CSRF-Token header must match the CSRF cookie.
+   * Safe methods (GET, HEAD, OPTIONS) are always allowed.
+   */
+  static hasValidCsrfToken(req: Request): boolean {
+    if (SAFE_METHODS.includes(req.method)) {
+      return true;
+    }
+
+    const cookieToken = req.cookies?.[CSRF_TOKEN_COOKIE_NAME];
+    const headerToken = req.headers[CSRF_HEADER_NAME];
+
+    if (typeof cookieToken !== 'string' || typeof headerToken !== 'string') {
+      return false;
+    }
+
+    const expected = Buffer.from(cookieToken);
+    const actual = Buffer.from(headerToken);
+
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+
+  private static getBaseOptions(): CookieOptions {
+    const sameSite = (process.env.AUTH_COOKIE_SAME_SITE ||
+      'lax') as CookieOptions['sameSite'];
+
+    return {
+      secure: process.env.NODE_ENV === 'production' || sameSite === 'none',
+      sameSite,
+      path: '/',
+    };
+  }
+}
@@ -15,8 +15,18 @@ import { CategoriesService } from './categories.service';
 import { CreateCategoryDto } from './dto/create-category.dto';
 import { UpdateCategoryDto } from './dto/update-category.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Audited } from '../audit-logs/decorators/audited.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
 import { ResponseUtil, StandardResponse } from '../../core/utils/response';
 import { RequestUtil } from '../../core/utils/request.util';
+import { ReorderDto } from '../../core/dto/reorder.dto';
+
+const CATEGORY_AUDIT = {
+  entityType: 'category',
+  table: 'categories',
+};
 
 @Controller('categories')
 export class CategoriesController {
@@ -37,8 +47,10 @@ export class CategoriesController {
   }
 
   @Post()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.CREATED)
+  @Audited(CATEGORY_AUDIT)
   async create(
     @Body() createDto: CreateCategoryDto,
     @Request() req: any,
@@ -48,8 +60,23 @@ export class CategoriesController {
     return ResponseUtil.successSingle(category, 'categories.create.success', lang);
   }
 
+  @Patch('reorder')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...CATEGORY_AUDIT, action: 'reorder' })
+  async reorder(
+    @Body() reorderDto: ReorderDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    await this.categoriesService.reorder(reorderDto.ids);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(null, 'categories.reorder.success', lang, false);
+  }
+
   @Patch(':id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...CATEGORY_AUDIT, param: 'id' })
   async update(
     @Param('id') id: string,
     @Body() updateDto: UpdateCategoryDto,
@@ -61,8 +88,10 @@ export class CategoriesController {
   }
 
   @Delete(':id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.NO_CONTENT)
+  @Audited({ ...CATEGORY_AUDIT, param: 'id' })
   async remove(@Param('id') id: string, @Request() req: any): Promise<StandardResponse<any>> {
     await this.categoriesService.remove(id);
     const lang = RequestUtil.getLanguage(req);
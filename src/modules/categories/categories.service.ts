@@ -70,6 +70,10 @@ export class CategoriesService extends BaseService {
     return this.mapToCategory(category);
   }
 
+  async reorder(ids: string[]): Promise<void> {
+    await this.reorderRows('categories', ids);
+  }
+
   async update(id: string, updateDto: UpdateCategoryDto): Promise<ICategory> {
     const supabase = this.getClient();
 
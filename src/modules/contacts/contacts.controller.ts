@@ -18,9 +18,19 @@ import { UpdateContactDto } from './dto/update-contact.dto';
 import { QueryContactDto } from './dto/query-contact.dto';
 import { ReplyContactDto } from './dto/reply-contact.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Audited } from '../audit-logs/decorators/audited.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
 import { ResponseUtil, StandardResponse } from '../../core/utils/response';
 import { RequestUtil } from '../../core/utils/request.util';
 
+const CONTACT_AUDIT = {
+  entityType: 'contact',
+  table: 'contacts',
+  param: 'id',
+};
+
 @Controller('contacts')
 export class ContactsController {
   constructor(private readonly contactsService: ContactsService) {}
@@ -37,7 +47,8 @@ export class ContactsController {
   }
 
   @Get()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   async findAll(
     @Query() queryDto: QueryContactDto,
     @Request() req: any,
@@ -51,11 +62,13 @@ export class ContactsController {
       result.limit,
       'contacts.findAll.success',
       lang,
+      { nextCursor: result.nextCursor, prevCursor: result.prevCursor },
     );
   }
 
   @Get(':id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   async findOne(@Param('id') id: string, @Request() req: any): Promise<StandardResponse<any>> {
     const contact = await this.contactsService.findOne(id);
     const lang = RequestUtil.getLanguage(req);
@@ -63,7 +76,9 @@ export class ContactsController {
   }
 
   @Patch(':id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited(CONTACT_AUDIT)
   async update(
     @Param('id') id: string,
     @Body() updateDto: UpdateContactDto,
@@ -75,8 +90,10 @@ export class ContactsController {
   }
 
   @Delete(':id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.NO_CONTENT)
+  @Audited(CONTACT_AUDIT)
   async remove(@Param('id') id: string, @Request() req: any): Promise<StandardResponse<any>> {
     await this.contactsService.remove(id);
     const lang = RequestUtil.getLanguage(req);
@@ -84,8 +101,10 @@ export class ContactsController {
   }
 
   @Post(':id/reply')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.OK)
+  @Audited({ ...CONTACT_AUDIT, action: 'reply' })
   async reply(
     @Param('id') id: string,
     @Body() replyDto: ReplyContactDto,
@@ -16,6 +16,7 @@ import { IContact, IContactsListResponse } from './types/contact.types';
 import { ContactStatus } from './enums/contact-status.enum';
 import { MailerService } from '../mailer/mailer.service';
 import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+import { CursorUtil } from '../../core/utils/cursor.util';
 
 @Injectable()
 export class ContactsService extends BaseService {
@@ -78,6 +79,7 @@ export class ContactsService extends BaseService {
       inquiryTypeId,
       sortBy = ContactSortBy.CREATED_AT,
       sortOrder = SortOrder.DESC,
+      cursor,
     } = queryDto;
 
     let query = supabase.from('contacts').select(
@@ -109,14 +111,17 @@ export class ContactsService extends BaseService {
       query = query.eq('inquiry_type_id', inquiryTypeId);
     }
 
-    // Sort
+    // Sort and paginate
     const ascending = sortOrder === SortOrder.ASC;
-    query = query.order(sortBy, { ascending });
-
-    // Pagination
-    const from = (page - 1) * limit;
-    const to = from + limit - 1;
-    query = query.range(from, to);
+    const pagination = {
+      sort: { column: sortBy, ascending },
+      limit,
+      page,
+      cursor: cursor
+        ? CursorUtil.decode(cursor, { column: sortBy, ascending })
+        : null,
+    };
+    query = CursorUtil.paginate(query, pagination);
 
     const { data, error, count } = await query;
 
@@ -124,13 +129,20 @@ export class ContactsService extends BaseService {
       throw new BadRequestException('contacts.findAll.failed');
     }
 
-    const contacts = (data || []).map((item) => this.mapToContact(item));
+    const { rows, nextCursor, prevCursor } = CursorUtil.toPage(
+      data || [],
+      pagination,
+      count || 0,
+    );
+    const contacts = rows.map((item) => this.mapToContact(item));
 
     return {
       contacts,
       total: count || 0,
       page,
       limit,
+      nextCursor,
+      prevCursor,
     };
   }
 
@@ -36,6 +36,11 @@ export class QueryContactDto {
   @Type(() => Number)
   limit?: number;
 
+  // Opaque cursor from a previous response's meta, used instead of page
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
   @IsOptional()
   @IsEnum(ContactSortBy)
   sortBy?: ContactSortBy;
@@ -26,5 +26,7 @@ export interface IContactsListResponse {
   total: number;
   page: number;
   limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
 }
 
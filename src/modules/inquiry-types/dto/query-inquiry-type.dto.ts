@@ -27,6 +27,19 @@ export class QueryInquiryTypeDto {
   @IsString()
   locale?: string;
 
+  @IsOptional()
+  @Type(() => Number)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  limit?: number;
+
+  // Opaque cursor from a previous response's meta, used instead of page
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
   @IsOptional()
   @IsEnum(InquiryTypeSortBy)
   sortBy?: InquiryTypeSortBy;
@@ -17,16 +17,29 @@ import { CreateInquiryTypeDto } from './dto/create-inquiry-type.dto';
 import { UpdateInquiryTypeDto } from './dto/update-inquiry-type.dto';
 import { QueryInquiryTypeDto } from './dto/query-inquiry-type.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Audited } from '../audit-logs/decorators/audited.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
 import { ResponseUtil, StandardResponse } from '../../core/utils/response';
 import { RequestUtil } from '../../core/utils/request.util';
+import { ReorderDto } from '../../core/dto/reorder.dto';
+
+const INQUIRY_TYPE_AUDIT = {
+  entityType: 'inquiry_type',
+  table: 'inquiry_types',
+  select: '*, inquiry_type_translations(*)',
+};
 
 @Controller('inquiry-types')
 export class InquiryTypesController {
   constructor(private readonly inquiryTypesService: InquiryTypesService) {}
 
   @Post()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.CREATED)
+  @Audited(INQUIRY_TYPE_AUDIT)
   async create(
     @Body() createDto: CreateInquiryTypeDto,
     @Request() req: any,
@@ -50,6 +63,7 @@ export class InquiryTypesController {
       result.limit,
       'inquiryTypes.findAll.success',
       lang,
+      { nextCursor: result.nextCursor, prevCursor: result.prevCursor },
     );
   }
 
@@ -67,8 +81,23 @@ export class InquiryTypesController {
     return ResponseUtil.successSingle(inquiryType, 'inquiryTypes.findOne.success', lang);
   }
 
+  @Patch('reorder')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...INQUIRY_TYPE_AUDIT, action: 'reorder' })
+  async reorder(
+    @Body() reorderDto: ReorderDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    await this.inquiryTypesService.reorder(reorderDto.ids);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(null, 'inquiryTypes.reorder.success', lang, false);
+  }
+
   @Patch(':id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...INQUIRY_TYPE_AUDIT, param: 'id' })
   async update(
     @Param('id') id: string,
     @Body() updateDto: UpdateInquiryTypeDto,
@@ -80,8 +109,10 @@ export class InquiryTypesController {
   }
 
   @Delete(':id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.NO_CONTENT)
+  @Audited({ ...INQUIRY_TYPE_AUDIT, param: 'id' })
   async remove(@Param('id') id: string, @Request() req: any): Promise<StandardResponse<any>> {
     await this.inquiryTypesService.remove(id);
     const lang = RequestUtil.getLanguage(req);
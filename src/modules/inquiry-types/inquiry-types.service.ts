@@ -5,6 +5,7 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { BaseService } from '../../core/services/base.service';
+import { CursorUtil } from '../../core/utils/cursor.util';
 import { CreateInquiryTypeDto } from './dto/create-inquiry-type.dto';
 import { UpdateInquiryTypeDto } from './dto/update-inquiry-type.dto';
 import { QueryInquiryTypeDto, InquiryTypeSortBy, SortOrder } from './dto/query-inquiry-type.dto';
@@ -77,11 +78,14 @@ export class InquiryTypesService extends BaseService {
   async findAll(queryDto: QueryInquiryTypeDto): Promise<IInquiryTypesListResponse> {
     const supabase = this.getClient();
     const {
+      page = this.DEFAULT_PAGE,
+      limit = this.DEFAULT_LIMIT,
       search,
       isActive,
       locale = 'en',
       sortBy = InquiryTypeSortBy.ORDER_INDEX,
       sortOrder = SortOrder.ASC,
+      cursor,
     } = queryDto;
 
     let query = supabase
@@ -101,9 +105,17 @@ export class InquiryTypesService extends BaseService {
       query = query.or(`translations.name.ilike.%${search}%,translations.description.ilike.%${search}%`);
     }
 
-    // Sort
+    // Sort and paginate
     const ascending = sortOrder === SortOrder.ASC;
-    query = query.order(sortBy, { ascending });
+    const pagination = {
+      sort: { column: sortBy, ascending },
+      limit,
+      page,
+      cursor: cursor
+        ? CursorUtil.decode(cursor, { column: sortBy, ascending })
+        : null,
+    };
+    query = CursorUtil.paginate(query, pagination);
 
     const { data, error, count } = await query;
 
@@ -111,13 +123,20 @@ export class InquiryTypesService extends BaseService {
       throw new BadRequestException('inquiryTypes.findAll.failed');
     }
 
-    const inquiryTypes = (data || []).map((item) => this.mapToInquiryType(item, locale));
+    const { rows, nextCursor, prevCursor } = CursorUtil.toPage(
+      data || [],
+      pagination,
+      count || 0,
+    );
+    const inquiryTypes = rows.map((item) => this.mapToInquiryType(item, locale));
 
     return {
       inquiryTypes,
       total: count || 0,
-      page: this.DEFAULT_PAGE,
-      limit: this.DEFAULT_LIMIT,
+      page,
+      limit,
+      nextCursor,
+      prevCursor,
     };
   }
 
@@ -165,6 +184,13 @@ export class InquiryTypesService extends BaseService {
     return this.mapToInquiryType(data, locale);
   }
 
+  /**
+   * Renumber inquiry types in the given order
+   */
+  async reorder(ids: string[]): Promise<void> {
+    await this.reorderRows('inquiry_types', ids);
+  }
+
   /**
    * Update an inquiry type
    */
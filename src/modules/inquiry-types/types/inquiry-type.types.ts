@@ -24,5 +24,7 @@ export interface IInquiryTypesListResponse {
   total: number;
   page: number;
   limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
 }
 
@@ -20,6 +20,46 @@ export interface IWelcomeData {
   otp: string;
 }
 
+export interface IMagicLinkData {
+  firstName: string | null;
+  lastName: string | null;
+  magicLink: string;
+  otp: string;
+  expiresInMinutes: number;
+}
+
+export interface IEmailChangeConfirmData {
+  firstName: string | null;
+  lastName: string | null;
+  newEmail: string;
+  otp: string;
+  expiresInMinutes: number;
+}
+
+export interface IEmailChangeNoticeData {
+  firstName: string | null;
+  lastName: string | null;
+  newEmail: string;
+  cancelLink: string;
+  cancelWindowHours: number;
+}
+
+export interface IInvitationData {
+  firstName: string | null;
+  lastName: string | null;
+  invitedByName: string;
+  inviteLink: string;
+  expiresInDays: number;
+}
+
+export interface ISuspiciousSignInData {
+  firstName: string | null;
+  lastName: string | null;
+  attempts: number;
+  ipAddress: string | null;
+  lockedUntil: string;
+}
+
 @Injectable()
 export class MailerService {
   private readonly logger = new Logger(MailerService.name);
@@ -111,6 +151,113 @@ export class MailerService {
     });
   }
 
+  async sendMagicLinkEmail(
+    email: string,
+    data: IMagicLinkData,
+  ): Promise<void> {
+    const fullName = this.getFullName(data.firstName, data.lastName);
+
+    await this.mailer.sendMail({
+      to: email,
+      subject: 'Your Flexify Sign-in Link',
+      template: 'magic-link',
+      context: {
+        firstName: data.firstName || 'User',
+        lastName: data.lastName || '',
+        fullName,
+        magicLink: data.magicLink,
+        otp: data.otp,
+        expiresInMinutes: data.expiresInMinutes,
+      },
+    });
+  }
+
+  async sendEmailChangeConfirmEmail(
+    email: string,
+    data: IEmailChangeConfirmData,
+  ): Promise<void> {
+    const fullName = this.getFullName(data.firstName, data.lastName);
+
+    await this.mailer.sendMail({
+      to: email,
+      subject: 'Confirm Your New Email - Flexify',
+      template: 'email-change-confirm',
+      context: {
+        firstName: data.firstName || 'User',
+        lastName: data.lastName || '',
+        fullName,
+        newEmail: data.newEmail,
+        otp: data.otp,
+        expiresInMinutes: data.expiresInMinutes,
+      },
+    });
+  }
+
+  async sendEmailChangeNoticeEmail(
+    email: string,
+    data: IEmailChangeNoticeData,
+  ): Promise<void> {
+    const fullName = this.getFullName(data.firstName, data.lastName);
+
+    await this.mailer.sendMail({
+      to: email,
+      subject: 'Email Change Requested - Flexify',
+      template: 'email-change-notice',
+      context: {
+        firstName: data.firstName || 'User',
+        lastName: data.lastName || '',
+        fullName,
+        newEmail: data.newEmail,
+        cancelLink: data.cancelLink,
+        cancelWindowHours: data.cancelWindowHours,
+      },
+    });
+  }
+
+  async sendInvitationEmail(
+    email: string,
+    data: IInvitationData,
+  ): Promise<void> {
+    const fullName = this.getFullName(data.firstName, data.lastName);
+
+    await this.mailer.sendMail({
+      to: email,
+      subject: "You're Invited to Flexify",
+      template: 'user-invitation',
+      context: {
+        firstName: data.firstName || 'User',
+        lastName: data.lastName || '',
+        fullName,
+        invitedByName: data.invitedByName,
+        inviteLink: data.inviteLink,
+        expiresInDays: data.expiresInDays,
+      },
+    });
+  }
+
+  async sendSuspiciousSignInEmail(
+    email: string,
+    data: ISuspiciousSignInData,
+  ): Promise<void> {
+    const fullName = this.getFullName(data.firstName, data.lastName);
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL') || '';
+
+    await this.mailer.sendMail({
+      to: email,
+      subject: 'Suspicious Sign-in Attempts - Flexify',
+      template: 'suspicious-sign-in',
+      context: {
+        firstName: data.firstName || 'User',
+        lastName: data.lastName || '',
+        fullName,
+        attempts: data.attempts,
+        ipAddress: data.ipAddress || 'unknown',
+        lockedUntil: new Date(data.lockedUntil).toUTCString(),
+        resetPasswordLink: `${frontendUrl}/auth/forgot-password`,
+      },
+    });
+  }
+
   async sendContactReplyEmail(
     email: string,
     data: {
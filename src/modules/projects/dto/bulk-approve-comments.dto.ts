@@ -0,0 +1,9 @@
+import { IsArray, ArrayNotEmpty, ArrayMaxSize, IsUUID } from 'class-validator';
+
+export class BulkApproveCommentsDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @IsUUID('4', { each: true })
+  commentIds: string[];
+}
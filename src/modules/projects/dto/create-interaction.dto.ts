@@ -1,5 +1,6 @@
-import { IsUUID, IsEnum } from 'class-validator';
+import { IsUUID, IsEnum, ValidateIf } from 'class-validator';
 import { InteractionType } from '../enums/interaction-type.enum';
+import { ShareChannel } from '../enums/share-channel.enum';
 
 export class CreateInteractionDto {
   @IsUUID('4')
@@ -7,5 +8,9 @@ export class CreateInteractionDto {
 
   @IsEnum(InteractionType)
   interactionType: InteractionType;
-}
 
+  // Required for shares, ignored for likes
+  @ValidateIf((dto) => dto.interactionType === InteractionType.SHARE)
+  @IsEnum(ShareChannel)
+  channel?: ShareChannel;
+}
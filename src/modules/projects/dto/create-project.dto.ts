@@ -104,6 +104,15 @@ export class CreateProjectDto {
   @IsDateString()
   endDate?: string;
 
+  // Scheduled publishing (null clears the schedule)
+  @IsOptional()
+  @IsDateString()
+  publishAt?: string | null;
+
+  @IsOptional()
+  @IsDateString()
+  unpublishAt?: string | null;
+
   // Translations (required - at least one)
   @IsArray()
   @ValidateNested({ each: true })
@@ -0,0 +1,22 @@
+import { IsOptional, IsDateString, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class QueryAnalyticsDto {
+  // Defaults to 30 days before `to`
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  // Defaults to today (UTC)
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  // Number of projects in the dashboard summary
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
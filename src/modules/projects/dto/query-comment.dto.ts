@@ -1,4 +1,5 @@
 import { IsOptional, IsString, IsNumber, IsEnum, Min, IsBoolean } from 'class-validator';
+import { PickType } from '@nestjs/mapped-types';
 import { Type } from 'class-transformer';
 
 export enum CommentSortBy {
@@ -46,3 +47,13 @@ export class QueryCommentDto {
   sortOrder?: SortOrder = SortOrder.DESC;
 }
 
+
+/**
+ * Public thread listing: pagination applies to top-level comments
+ */
+export class QueryCommentThreadDto extends PickType(QueryCommentDto, [
+  'page',
+  'limit',
+  'sortBy',
+  'sortOrder',
+] as const) {}
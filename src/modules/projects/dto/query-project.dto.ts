@@ -60,6 +60,11 @@ export class QueryProjectDto {
   @Min(1)
   limit?: number = 10;
 
+  // Opaque cursor from a previous response's meta, used instead of page
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
   @IsOptional()
   @IsEnum(ProjectSortBy)
   sortBy?: ProjectSortBy = ProjectSortBy.CREATED_AT;
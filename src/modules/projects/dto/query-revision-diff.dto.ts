@@ -0,0 +1,16 @@
+import { IsOptional, IsInt, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class QueryRevisionDiffDto {
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  from: number;
+
+  // Defaults to the latest revision
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  to?: number;
+}
@@ -0,0 +1,8 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+
+export class RejectCommentDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
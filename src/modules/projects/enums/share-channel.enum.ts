@@ -0,0 +1,6 @@
+export enum ShareChannel {
+  TWITTER = 'twitter',
+  LINKEDIN = 'linkedin',
+  COPY_LINK = 'copy_link',
+  EMAIL = 'email',
+}
@@ -0,0 +1,64 @@
+import { BadRequestException } from '@nestjs/common';
+import { ProjectAnalyticsService } from './project-analytics.service';
+import {
+  createSupabaseMock,
+  IQueryResult,
+  ISupabaseMock,
+} from '../../core/testing/supabase.mock';
+
+describe('ProjectAnalyticsService view retention', () => {
+  const NOW = new Date('2026-06-01T00:00:00.000Z');
+
+  let config: Record<string, string>;
+  let deleteResult: IQueryResult;
+  let mock: ISupabaseMock;
+  let service: ProjectAnalyticsService;
+
+  beforeEach(() => {
+    config = {};
+    deleteResult = { data: null, error: null, count: 3 };
+    mock = createSupabaseMock(() => deleteResult);
+    service = new ProjectAnalyticsService(
+      mock.supabaseService,
+      { get: (key: string) => config[key] } as any,
+      { now: () => new Date(NOW) } as any,
+    );
+  });
+
+  it('deletes view events older than the retention period', async () => {
+    config.PROJECT_VIEW_RETENTION_DAYS = '30';
+
+    const result = await service.purgeExpiredViews();
+
+    expect(result).toEqual({ purged: 3 });
+    expect(mock.queries).toHaveLength(1);
+    expect(mock.queries[0]).toMatchObject({
+      table: 'project_view_events',
+      operation: 'delete',
+      filters: { 'lt:created_at': '2026-05-02T00:00:00.000Z' },
+    });
+  });
+
+  it('keeps 400 days by default', async () => {
+    await service.purgeExpiredViews();
+
+    expect(mock.queries[0].filters['lt:created_at']).toBe(
+      '2025-04-27T00:00:00.000Z',
+    );
+  });
+
+  it('keeps everything when the retention is 0', async () => {
+    config.PROJECT_VIEW_RETENTION_DAYS = '0';
+
+    await expect(service.purgeExpiredViews()).resolves.toEqual({ purged: 0 });
+    expect(mock.queries).toHaveLength(0);
+  });
+
+  it('fails when the events cannot be deleted', async () => {
+    deleteResult = { data: null, error: { code: '08006' }, count: null };
+
+    await expect(service.purgeExpiredViews()).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
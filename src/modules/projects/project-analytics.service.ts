@@ -0,0 +1,239 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { BaseService } from '../../core/services/base.service';
+import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+import { ClockService } from '../../core/services/clock.service';
+import { QueryAnalyticsDto } from './dto/query-analytics.dto';
+import { ShareChannel } from './enums/share-channel.enum';
+import {
+  IProjectAnalytics,
+  IProjectAnalyticsSummary,
+  IProjectAnalyticsTotals,
+  IProjectVisitor,
+} from './types/project.types';
+
+/**
+ * Deduplicated view counting and per-day view/like/share statistics,
+ * with shares broken down by channel.
+ * Visitors are never stored in clear, only as an HMAC of IP + user agent.
+ */
+@Injectable()
+export class ProjectAnalyticsService extends BaseService {
+  private readonly DEFAULT_VIEW_WINDOW_MINUTES = 30;
+  private readonly DEFAULT_RANGE_DAYS = 30;
+  private readonly MAX_RANGE_DAYS = 366;
+  private readonly DEFAULT_SUMMARY_LIMIT = 20;
+  private readonly DEFAULT_VIEW_RETENTION_DAYS = 400;
+  private readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  constructor(
+    supabaseService: SupabaseService,
+    private configService: ConfigService,
+    private clockService: ClockService,
+  ) {
+    super(supabaseService);
+  }
+
+  /**
+   * Count a view unless it comes from a bot or the same visitor viewed
+   * the project within the dedup window. Returns whether it was counted.
+   */
+  async recordView(
+    projectId: string,
+    visitor: IProjectVisitor,
+  ): Promise<boolean> {
+    await this.assertProjectExists(projectId);
+
+    if (visitor.isBot) {
+      return false;
+    }
+
+    const windowMinutes = parseInt(
+      this.configService.get<string>('PROJECT_VIEW_WINDOW_MINUTES') ||
+        String(this.DEFAULT_VIEW_WINDOW_MINUTES),
+      10,
+    );
+
+    const { data, error } = await this.getClient().rpc('record_project_view', {
+      p_project_id: projectId,
+      p_visitor_hash: this.hashVisitor(visitor),
+      p_window_seconds: windowMinutes * 60,
+    });
+
+    if (error) {
+      throw new BadRequestException('projects.view.failed');
+    }
+
+    return data === true;
+  }
+
+  /**
+   * Delete view events older than PROJECT_VIEW_RETENTION_DAYS (0 keeps
+   * them forever). Daily analytics only cover the retained period.
+   */
+  async purgeExpiredViews(): Promise<{ purged: number }> {
+    const retentionDays = parseInt(
+      this.configService.get<string>('PROJECT_VIEW_RETENTION_DAYS') ||
+        String(this.DEFAULT_VIEW_RETENTION_DAYS),
+      10,
+    );
+
+    if (!retentionDays || retentionDays <= 0) {
+      return { purged: 0 };
+    }
+
+    const cutoff = new Date(
+      this.clockService.now().getTime() - retentionDays * this.DAY_MS,
+    );
+
+    const { count, error } = await this.getClient()
+      .from('project_view_events')
+      .delete({ count: 'exact' })
+      .lt('created_at', cutoff.toISOString());
+
+    if (error) {
+      throw new BadRequestException('projects.view.purgeFailed');
+    }
+
+    return { purged: count || 0 };
+  }
+
+  async getProjectAnalytics(
+    projectId: string,
+    queryDto: QueryAnalyticsDto,
+  ): Promise<IProjectAnalytics> {
+    const { from, to } = this.resolveRange(queryDto);
+    await this.assertProjectExists(projectId);
+
+    const params = { p_project_id: projectId, p_from: from, p_to: to };
+    const supabase = this.getClient();
+
+    const [dailyResult, channelsResult] = await Promise.all([
+      supabase.rpc('get_project_daily_analytics', params),
+      supabase.rpc('get_project_share_channels', params),
+    ]);
+
+    if (dailyResult.error || channelsResult.error) {
+      throw new BadRequestException('projects.analytics.failed');
+    }
+
+    const daily = (dailyResult.data || []).map((row: any) => ({
+      date: row.day,
+      views: Number(row.views),
+      likes: Number(row.likes),
+      shares: Number(row.shares),
+    }));
+
+    // Every channel is present, with 0 when it has no shares
+    const sharesByChannel = [...Object.values(ShareChannel), 'unknown'].reduce(
+      (counts, channel) => ({ ...counts, [channel]: 0 }),
+      {} as Record<ShareChannel | 'unknown', number>,
+    );
+
+    for (const row of (channelsResult.data || []) as any[]) {
+      sharesByChannel[row.channel as ShareChannel | 'unknown'] = Number(
+        row.shares,
+      );
+    }
+
+    return {
+      projectId,
+      from,
+      to,
+      totals: this.sumTotals(daily),
+      sharesByChannel,
+      daily,
+    };
+  }
+
+  async getSummary(
+    queryDto: QueryAnalyticsDto,
+  ): Promise<IProjectAnalyticsSummary> {
+    const { from, to } = this.resolveRange(queryDto);
+
+    const { data, error } = await this.getClient().rpc(
+      'get_projects_analytics_summary',
+      {
+        p_from: from,
+        p_to: to,
+        p_limit: queryDto.limit || this.DEFAULT_SUMMARY_LIMIT,
+      },
+    );
+
+    if (error) {
+      throw new BadRequestException('projects.analytics.failed');
+    }
+
+    const projects = (data || []).map((row: any) => ({
+      projectId: row.project_id,
+      slug: row.slug,
+      status: row.status,
+      views: Number(row.views),
+      likes: Number(row.likes),
+      shares: Number(row.shares),
+      viewCount: row.view_count,
+      likeCount: row.like_count,
+      shareCount: row.share_count,
+    }));
+
+    return { from, to, totals: this.sumTotals(projects), projects };
+  }
+
+  /**
+   * Keyed with JWT_SECRET so stored hashes cannot be reversed by
+   * enumerating IP addresses
+   */
+  private hashVisitor(visitor: IProjectVisitor): string {
+    return createHmac('sha256', this.configService.get<string>('JWT_SECRET')!)
+      .update(
+        `project-view:${visitor.ipAddress || ''}:${visitor.userAgent || ''}`,
+      )
+      .digest('hex');
+  }
+
+  private async assertProjectExists(projectId: string): Promise<void> {
+    if (!(await this.exists('projects', 'id', projectId))) {
+      throw new NotFoundException('projects.findOne.notFound');
+    }
+  }
+
+  /**
+   * Inclusive UTC date range as YYYY-MM-DD strings
+   */
+  private resolveRange(queryDto: QueryAnalyticsDto): {
+    from: string;
+    to: string;
+  } {
+    const to = queryDto.to ? new Date(queryDto.to) : this.clockService.now();
+    const from = queryDto.from
+      ? new Date(queryDto.from)
+      : new Date(to.getTime() - (this.DEFAULT_RANGE_DAYS - 1) * this.DAY_MS);
+
+    const days = (to.getTime() - from.getTime()) / this.DAY_MS;
+
+    if (days < 0 || days >= this.MAX_RANGE_DAYS) {
+      throw new BadRequestException('projects.analytics.invalidRange');
+    }
+
+    return {
+      from: from.toISOString().slice(0, 10),
+      to: to.toISOString().slice(0, 10),
+    };
+  }
+
+  private sumTotals(rows: IProjectAnalyticsTotals[]): IProjectAnalyticsTotals {
+    return rows.reduce(
+      (totals, row) => ({
+        views: totals.views + row.views,
+        likes: totals.likes + row.likes,
+        shares: totals.shares + row.shares,
+      }),
+      { views: 0, likes: 0, shares: 0 },
+    );
+  }
+}
@@ -0,0 +1,271 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { BaseService } from '../../core/services/base.service';
+import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+import {
+  IProjectRevision,
+  IProjectRevisionChange,
+  IProjectRevisionDiff,
+  IProjectSnapshot,
+} from './types/project.types';
+
+/**
+ * Stores a full snapshot of the project aggregate after every save.
+ * The latest revision matches the current project content, unless
+ * recording it failed after the save (the next save catches up).
+ */
+@Injectable()
+export class ProjectRevisionsService extends BaseService {
+  // Concurrent saves may race for the same revision number
+  private readonly MAX_RECORD_ATTEMPTS = 3;
+  private readonly logger = new Logger(ProjectRevisionsService.name);
+
+  constructor(supabaseService: SupabaseService) {
+    super(supabaseService);
+  }
+
+  /**
+   * Snapshot the project's current state as a new revision
+   */
+  async record(
+    projectId: string,
+    createdBy?: string | null,
+    restoredFrom?: string | null,
+  ): Promise<IProjectRevision> {
+    const supabase = this.getClient();
+    const snapshot = await this.captureSnapshot(projectId);
+
+    for (let attempt = 0; attempt < this.MAX_RECORD_ATTEMPTS; attempt++) {
+      const revisionNumber = (await this.getLatestNumber(projectId)) + 1;
+
+      const { data, error } = await supabase
+        .from('project_revisions')
+        .insert({
+          project_id: projectId,
+          revision_number: revisionNumber,
+          snapshot,
+          created_by: createdBy || null,
+          restored_from: restoredFrom || null,
+        })
+        .select()
+        .single();
+
+      if (!error && data) {
+        return this.mapToRevision(data);
+      }
+
+      // Unique violation: another save took this number, try the next one
+      if (error?.code !== '23505') {
+        break;
+      }
+    }
+
+    throw new BadRequestException('projects.revisions.recordFailed');
+  }
+
+  /**
+   * Record the revision of a write that is already committed. A failure
+   * is logged instead of thrown: the save itself succeeded, and the next
+   * revision snapshots the full state again.
+   */
+  async recordAfterWrite(
+    projectId: string,
+    createdBy?: string | null,
+    restoredFrom?: string | null,
+  ): Promise<void> {
+    try {
+      await this.record(projectId, createdBy, restoredFrom);
+    } catch (error) {
+      this.logger.error(
+        `Failed to record revision of project ${projectId}: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Projects saved before revisions existed have no history yet.
+   * Record their current state first so the update can be undone.
+   */
+  async ensureBaseline(projectId: string): Promise<void> {
+    if ((await this.getLatestNumber(projectId)) === 0) {
+      await this.record(projectId);
+    }
+  }
+
+  async findAll(projectId: string): Promise<IProjectRevision[]> {
+    const { data, error } = await this.getClient()
+      .from('project_revisions')
+      .select(
+        'id, project_id, revision_number, created_by, restored_from, created_at',
+      )
+      .eq('project_id', projectId)
+      .order('revision_number', { ascending: false });
+
+    if (error) {
+      throw new BadRequestException('projects.revisions.fetchFailed');
+    }
+
+    return (data || []).map((revision) => this.mapToRevision(revision));
+  }
+
+  async findOne(
+    projectId: string,
+    revisionNumber: number,
+  ): Promise<IProjectRevision> {
+    const { data, error } = await this.getClient()
+      .from('project_revisions')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('revision_number', revisionNumber)
+      .maybeSingle();
+
+    if (error || !data) {
+      throw new NotFoundException('projects.revisions.notFound');
+    }
+
+    return this.mapToRevision(data);
+  }
+
+  /**
+   * Field-level diff between two revisions. `to` defaults to the latest.
+   */
+  async diff(
+    projectId: string,
+    fromNumber: number,
+    toNumber?: number,
+  ): Promise<IProjectRevisionDiff> {
+    const resolvedTo = toNumber ?? (await this.getLatestNumber(projectId));
+
+    const [from, to] = await Promise.all([
+      this.findOne(projectId, fromNumber),
+      this.findOne(projectId, resolvedTo),
+    ]);
+
+    const before = this.flatten(from.snapshot!);
+    const after = this.flatten(to.snapshot!);
+    const changes: Record<string, IProjectRevisionChange> = {};
+
+    for (const path of new Set([
+      ...Object.keys(before),
+      ...Object.keys(after),
+    ])) {
+      const fromValue = before[path] ?? null;
+      const toValue = after[path] ?? null;
+
+      if (JSON.stringify(fromValue) !== JSON.stringify(toValue)) {
+        changes[path] = { from: fromValue, to: toValue };
+      }
+    }
+
+    return { from: from.revisionNumber, to: to.revisionNumber, changes };
+  }
+
+  private async captureSnapshot(projectId: string): Promise<IProjectSnapshot> {
+    const { data, error } = await this.getClient()
+      .from('projects')
+      .select(
+        `
+        *,
+        project_translations(*),
+        project_links(*),
+        project_technologies(technology_id),
+        project_categories(category_id)
+      `,
+      )
+      .eq('id', projectId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException('projects.findOne.notFound');
+    }
+
+    return {
+      projectType: data.project_type,
+      status: data.status,
+      orderIndex: data.order_index,
+      isFeatured: data.is_featured,
+      startDate: data.start_date,
+      endDate: data.end_date,
+      publishAt: data.publish_at,
+      unpublishAt: data.unpublish_at,
+      translations: (data.project_translations || [])
+        .map((t: any) => ({
+          locale: t.locale,
+          title: t.title,
+          description: t.description,
+          shortDescription: t.short_description,
+          content: t.content,
+          metaTitle: t.meta_title,
+          metaDescription: t.meta_description,
+        }))
+        .sort((a: any, b: any) => a.locale.localeCompare(b.locale)),
+      technologyIds: (data.project_technologies || [])
+        .map((pt: any) => pt.technology_id)
+        .sort(),
+      categoryIds: (data.project_categories || [])
+        .map((pc: any) => pc.category_id)
+        .sort(),
+      links: (data.project_links || [])
+        .sort((a: any, b: any) => a.order_index - b.order_index)
+        .map((link: any) => ({
+          linkType: link.link_type,
+          url: link.url,
+          label: link.label,
+          icon: link.icon,
+          orderIndex: link.order_index,
+        })),
+    };
+  }
+
+  /**
+   * Translations are keyed by locale and links by position; technology
+   * and category ids are compared as whole (sorted) lists.
+   */
+  private flatten(snapshot: IProjectSnapshot): Record<string, unknown> {
+    const { translations, links, ...fields } = snapshot;
+    const flat: Record<string, unknown> = { ...fields };
+
+    for (const translation of translations || []) {
+      const { locale, ...values } = translation;
+      for (const [key, value] of Object.entries(values)) {
+        flat[`translations.${locale}.${key}`] = value;
+      }
+    }
+
+    (links || []).forEach((link, index) => {
+      for (const [key, value] of Object.entries(link)) {
+        flat[`links[${index}].${key}`] = value;
+      }
+    });
+
+    return flat;
+  }
+
+  private async getLatestNumber(projectId: string): Promise<number> {
+    const { data } = await this.getClient()
+      .from('project_revisions')
+      .select('revision_number')
+      .eq('project_id', projectId)
+      .order('revision_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    return data?.revision_number ?? 0;
+  }
+
+  private mapToRevision(data: any): IProjectRevision {
+    return {
+      id: data.id,
+      projectId: data.project_id,
+      revisionNumber: data.revision_number,
+      createdBy: data.created_by,
+      restoredFrom: data.restored_from,
+      createdAt: data.created_at,
+      ...(data.snapshot ? { snapshot: data.snapshot } : {}),
+    };
+  }
+}
@@ -0,0 +1,166 @@
+import { ProjectSchedulerService } from './project-scheduler.service';
+import { ProjectStatus } from './enums/project-status.enum';
+import { ClockService } from '../../core/services/clock.service';
+import {
+  createSupabaseMock,
+  IRecordedQuery,
+} from '../../core/testing/supabase.mock';
+
+interface IProjectRow {
+  id: string;
+  status: ProjectStatus;
+  publish_at: string | null;
+  unpublish_at: string | null;
+}
+
+class FakeClockService extends ClockService {
+  constructor(private current: Date) {
+    super();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(iso: string): void {
+    this.current = new Date(iso);
+  }
+}
+
+describe('ProjectSchedulerService', () => {
+  let rows: IProjectRow[];
+  let clock: FakeClockService;
+  let recordAfterWrite: jest.Mock;
+  let service: ProjectSchedulerService;
+
+  const row = (id: string, overrides: Partial<IProjectRow>): IProjectRow => ({
+    id,
+    status: ProjectStatus.DRAFT,
+    publish_at: null,
+    unpublish_at: null,
+    ...overrides,
+  });
+
+  const statusOf = (id: string) => rows.find((r) => r.id === id)!.status;
+
+  // Applies the scheduler's conditional UPDATE to the in-memory rows
+  const applyUpdate = (query: IRecordedQuery) => {
+    const [column, due] = Object.entries(query.filters)
+      .filter(([key]) => key.startsWith('lte:'))
+      .map(([key, value]) => [key.slice(4), value as string])[0];
+    const skipped = String(query.filters['not:status'])
+      .replace(/^in\.\(|\)$/g, '')
+      .split(',');
+
+    const matched = rows.filter(
+      (r) =>
+        r[column] !== null && r[column]! <= due && !skipped.includes(r.status),
+    );
+    for (const r of matched) {
+      Object.assign(r, query.payload);
+    }
+
+    return { data: matched.map((r) => ({ id: r.id })), error: null };
+  };
+
+  beforeEach(() => {
+    rows = [];
+    clock = new FakeClockService(new Date('2026-01-01T12:00:00.000Z'));
+    recordAfterWrite = jest.fn().mockResolvedValue(undefined);
+
+    const mock = createSupabaseMock((query) =>
+      query.operation === 'update'
+        ? applyUpdate(query)
+        : { data: null, error: null },
+    );
+
+    service = new ProjectSchedulerService(
+      mock.supabaseService,
+      { get: () => '0' } as any,
+      clock,
+      { recordAfterWrite } as any,
+    );
+  });
+
+  it('publishes drafts once their publish_at has passed', async () => {
+    rows = [
+      row('due', { publish_at: '2026-01-01T11:59:00.000Z' }),
+      row('later', { publish_at: '2026-01-01T13:00:00.000Z' }),
+    ];
+
+    const result = await service.runDueTransitions();
+
+    expect(result).toEqual({ published: 1, unpublished: 0 });
+    expect(statusOf('due')).toBe(ProjectStatus.PUBLISHED);
+    expect(statusOf('later')).toBe(ProjectStatus.DRAFT);
+    expect(recordAfterWrite).toHaveBeenCalledWith('due');
+  });
+
+  it('follows the clock', async () => {
+    rows = [row('later', { publish_at: '2026-01-01T13:00:00.000Z' })];
+
+    await service.runDueTransitions();
+    expect(statusOf('later')).toBe(ProjectStatus.DRAFT);
+
+    clock.set('2026-01-01T13:00:00.000Z');
+    await service.runDueTransitions();
+    expect(statusOf('later')).toBe(ProjectStatus.PUBLISHED);
+  });
+
+  it('archives published projects once their unpublish_at has passed', async () => {
+    rows = [
+      row('ending', {
+        status: ProjectStatus.PUBLISHED,
+        unpublish_at: '2026-01-01T11:00:00.000Z',
+      }),
+    ];
+
+    const result = await service.runDueTransitions();
+
+    expect(result).toEqual({ published: 0, unpublished: 1 });
+    expect(statusOf('ending')).toBe(ProjectStatus.ARCHIVED);
+  });
+
+  it('archives a project whose whole window has elapsed', async () => {
+    rows = [
+      row('elapsed', {
+        publish_at: '2026-01-01T10:00:00.000Z',
+        unpublish_at: '2026-01-01T11:00:00.000Z',
+      }),
+    ];
+
+    const result = await service.runDueTransitions();
+
+    expect(result).toEqual({ published: 1, unpublished: 1 });
+    expect(statusOf('elapsed')).toBe(ProjectStatus.ARCHIVED);
+  });
+
+  it('never republishes archived projects', async () => {
+    rows = [
+      row('archived', {
+        status: ProjectStatus.ARCHIVED,
+        publish_at: '2026-01-01T11:00:00.000Z',
+      }),
+    ];
+
+    const result = await service.runDueTransitions();
+
+    expect(result).toEqual({ published: 0, unpublished: 0 });
+    expect(statusOf('archived')).toBe(ProjectStatus.ARCHIVED);
+    expect(recordAfterWrite).not.toHaveBeenCalled();
+  });
+
+  it('skips projects that are already published', async () => {
+    rows = [
+      row('live', {
+        status: ProjectStatus.PUBLISHED,
+        publish_at: '2026-01-01T11:00:00.000Z',
+      }),
+    ];
+
+    const result = await service.runDueTransitions();
+
+    expect(result).toEqual({ published: 0, unpublished: 0 });
+    expect(recordAfterWrite).not.toHaveBeenCalled();
+  });
+});
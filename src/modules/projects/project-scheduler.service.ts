@@ -0,0 +1,134 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BaseService } from '../../core/services/base.service';
+import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+import { ClockService } from '../../core/services/clock.service';
+import { ProjectRevisionsService } from './project-revisions.service';
+import { ProjectStatus } from './enums/project-status.enum';
+import { IScheduledTransitions } from './types/project.types';
+
+/**
+ * Publishes projects whose publish_at has passed and archives those
+ * whose unpublish_at has passed. Runs every PROJECT_SCHEDULER_INTERVAL_MS
+ * (0 disables the timer, e.g. when an external cron calls the endpoint).
+ */
+@Injectable()
+export class ProjectSchedulerService
+  extends BaseService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly DEFAULT_INTERVAL_MS = 60 * 1000;
+  private readonly logger = new Logger(ProjectSchedulerService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    supabaseService: SupabaseService,
+    private configService: ConfigService,
+    private clockService: ClockService,
+    private projectRevisionsService: ProjectRevisionsService,
+  ) {
+    super(supabaseService);
+  }
+
+  onModuleInit(): void {
+    const intervalMs = parseInt(
+      this.configService.get<string>('PROJECT_SCHEDULER_INTERVAL_MS') ||
+        String(this.DEFAULT_INTERVAL_MS),
+      10,
+    );
+
+    if (!intervalMs || intervalMs <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+    // Never keep the process alive just for the scheduler
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Apply every transition due at the clock's current time. Publishing
+   * runs first so a window that has fully elapsed ends up archived.
+   */
+  async runDueTransitions(): Promise<IScheduledTransitions> {
+    const now = this.clockService.now().toISOString();
+
+    const published = await this.transition(
+      'publish_at',
+      now,
+      ProjectStatus.PUBLISHED,
+    );
+    const unpublished = await this.transition(
+      'unpublish_at',
+      now,
+      ProjectStatus.ARCHIVED,
+    );
+
+    return { published: published.length, unpublished: unpublished.length };
+  }
+
+  private async tick(): Promise<void> {
+    // Skip if the previous run is still going
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const result = await this.runDueTransitions();
+      if (result.published || result.unpublished) {
+        this.logger.log(
+          `Published ${result.published}, unpublished ${result.unpublished} project(s)`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(`Scheduled publishing failed: ${error}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Set the status of every project whose `column` is due and clear the
+   * timestamp so the transition only happens once. Archived projects and
+   * projects already in the target status are left alone.
+   */
+  private async transition(
+    column: 'publish_at' | 'unpublish_at',
+    now: string,
+    status: ProjectStatus,
+  ): Promise<string[]> {
+    const { data, error } = await this.getClient()
+      .from('projects')
+      .update({ status, [column]: null })
+      .lte(column, now)
+      .not('status', 'in', `(${[ProjectStatus.ARCHIVED, status].join(',')})`)
+      .select('id');
+
+    if (error) {
+      throw new BadRequestException('projects.schedule.runFailed');
+    }
+
+    const ids = (data || []).map((project) => project.id as string);
+
+    for (const id of ids) {
+      await this.projectRevisionsService.recordAfterWrite(id);
+    }
+
+    return ids;
+  }
+}
@@ -0,0 +1,70 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ProjectAnalyticsService } from './project-analytics.service';
+
+/**
+ * Deletes project view events past their retention period. Runs every
+ * PROJECT_VIEW_PURGE_INTERVAL_MS (0 disables the timer, e.g. when an
+ * external cron calls the endpoint).
+ */
+@Injectable()
+export class ProjectViewRetentionService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+  private readonly logger = new Logger(ProjectViewRetentionService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private configService: ConfigService,
+    private projectAnalyticsService: ProjectAnalyticsService,
+  ) {}
+
+  onModuleInit(): void {
+    const intervalMs = parseInt(
+      this.configService.get<string>('PROJECT_VIEW_PURGE_INTERVAL_MS') ||
+        String(this.DEFAULT_INTERVAL_MS),
+      10,
+    );
+
+    if (!intervalMs || intervalMs <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+    // Never keep the process alive just for the purge
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    // Skip if the previous run is still going
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const result = await this.projectAnalyticsService.purgeExpiredViews();
+      if (result.purged) {
+        this.logger.log(`Purged ${result.purged} project view event(s)`);
+      }
+    } catch (error) {
+      this.logger.error(`Project view purge failed: ${error}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -13,26 +13,70 @@ import {
   Request,
   UseInterceptors,
   UploadedFile,
+  ParseIntPipe,
+  Res,
 } from '@nestjs/common';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import type { Response } from 'express';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { ProjectsService } from './projects.service';
+import { ProjectSchedulerService } from './project-scheduler.service';
+import { ProjectAnalyticsService } from './project-analytics.service';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { UpdateProjectDto } from './dto/update-project.dto';
 import { QueryProjectDto } from './dto/query-project.dto';
+import { QueryRelatedProjectsDto } from './dto/query-related-projects.dto';
+import { QueryAnalyticsDto } from './dto/query-analytics.dto';
 import { CreateCommentDto } from './dto/create-comment.dto';
 import { CreateInteractionDto } from './dto/create-interaction.dto';
+import { QueryCommentDto, QueryCommentThreadDto } from './dto/query-comment.dto';
+import { QueryRevisionDiffDto } from './dto/query-revision-diff.dto';
+import { RejectCommentDto } from './dto/reject-comment.dto';
+import { BulkApproveCommentsDto } from './dto/bulk-approve-comments.dto';
 import { UploadProjectImageDto } from './dto/upload-image.dto';
+import { VisitorCookieUtil } from './utils/visitor-cookie.util';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Audited } from '../audit-logs/decorators/audited.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
 import { ResponseUtil, StandardResponse } from '../../core/utils/response';
 import { RequestUtil } from '../../core/utils/request.util';
+import { ReorderDto } from '../../core/dto/reorder.dto';
+
+const PROJECT_AUDIT = {
+  entityType: 'project',
+  table: 'projects',
+  select: `
+    *,
+    project_translations(*),
+    project_images(*),
+    project_links(*),
+    project_technologies(technology_id),
+    project_categories(category_id)
+  `,
+};
+
+const COMMENT_AUDIT = {
+  entityType: 'project_comment',
+  table: 'project_comments',
+  param: 'commentId',
+};
 
 @Controller('projects')
 export class ProjectsController {
-  constructor(private readonly projectsService: ProjectsService) {}
+  constructor(
+    private readonly projectsService: ProjectsService,
+    private readonly projectSchedulerService: ProjectSchedulerService,
+    private readonly projectAnalyticsService: ProjectAnalyticsService,
+  ) {}
 
   @Post()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.CREATED)
+  @Audited(PROJECT_AUDIT)
   async create(
     @Body() createProjectDto: CreateProjectDto,
     @Request() req: any,
@@ -43,6 +87,16 @@ export class ProjectsController {
     return ResponseUtil.successSingle(project, 'projects.create.success', lang);
   }
 
+  @Post('schedule/run')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async runSchedule(@Request() req: any): Promise<StandardResponse<any>> {
+    const result = await this.projectSchedulerService.runDueTransitions();
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(result, 'projects.schedule.runSuccess', lang, false);
+  }
+
   @Get()
   async findAll(
     @Query() queryDto: QueryProjectDto,
@@ -58,13 +112,18 @@ export class ProjectsController {
       result.limit,
       'projects.findAll.success',
       lang,
+      { nextCursor: result.nextCursor, prevCursor: result.prevCursor },
     );
   }
 
   @Get('slug/:slug')
   async findBySlug(@Param('slug') slug: string, @Request() req: any): Promise<StandardResponse<any>> {
     const userId = req.user?.sub || req.user?.id;
-    const result = await this.projectsService.findBySlug(slug, userId);
+    const result = await this.projectsService.findBySlug(
+      slug,
+      userId,
+      VisitorCookieUtil.getVisitorId(req),
+    );
     const lang = RequestUtil.getLanguage(req);
     return ResponseUtil.successSingle(result, 'projects.findBySlug.success', lang);
   }
@@ -77,33 +136,135 @@ export class ProjectsController {
     return ResponseUtil.successSingle(project, 'projects.findOne.success', lang);
   }
 
+  @Get(':id/related')
+  async findRelated(
+    @Param('id') id: string,
+    @Query() queryDto: QueryRelatedProjectsDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    const projects = await this.projectsService.findRelated(id, queryDto, userId);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle({ projects }, 'projects.related.success', lang);
+  }
+
+  @Patch('reorder')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...PROJECT_AUDIT, action: 'reorder' })
+  async reorder(
+    @Body() reorderDto: ReorderDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    await this.projectsService.reorder(reorderDto.ids);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(null, 'projects.reorder.success', lang, false);
+  }
+
+  @Patch(':id/images/reorder')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...PROJECT_AUDIT, param: 'id', action: 'reorder_images' })
+  async reorderImages(
+    @Param('id') id: string,
+    @Body() reorderDto: ReorderDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    await this.projectsService.reorderImages(id, reorderDto.ids);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(null, 'projects.reorder.success', lang, false);
+  }
+
+  @Patch(':id/links/reorder')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...PROJECT_AUDIT, param: 'id', action: 'reorder_links' })
+  async reorderLinks(
+    @Param('id') id: string,
+    @Body() reorderDto: ReorderDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    await this.projectsService.reorderLinks(id, reorderDto.ids);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(null, 'projects.reorder.success', lang, false);
+  }
+
   @Patch(':id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...PROJECT_AUDIT, param: 'id' })
   async update(
     @Param('id') id: string,
     @Body() updateProjectDto: UpdateProjectDto,
     @Request() req: any,
   ): Promise<StandardResponse<any>> {
-    const project = await this.projectsService.update(id, updateProjectDto);
+    const userId = req.user?.sub || req.user?.id;
+    const project = await this.projectsService.update(id, updateProjectDto, userId);
     const lang = RequestUtil.getLanguage(req);
     return ResponseUtil.successSingle(project, 'projects.update.success', lang);
   }
 
   @Delete(':id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.NO_CONTENT)
+  @Audited({ ...PROJECT_AUDIT, param: 'id' })
   async remove(@Param('id') id: string, @Request() req: any): Promise<StandardResponse<any>> {
     await this.projectsService.remove(id);
     const lang = RequestUtil.getLanguage(req);
     return ResponseUtil.successSingle(null, 'projects.delete.success', lang);
   }
 
+  // ========================================
+  // PROJECT REVISIONS
+  // ========================================
+
+  @Get(':id/revisions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  async getRevisions(@Param('id') id: string, @Request() req: any): Promise<StandardResponse<any>> {
+    const revisions = await this.projectsService.getRevisions(id);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(revisions, 'projects.revisions.fetchSuccess', lang);
+  }
+
+  @Get(':id/revisions/diff')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  async diffRevisions(
+    @Param('id') id: string,
+    @Query() queryDto: QueryRevisionDiffDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const diff = await this.projectsService.diffRevisions(id, queryDto.from, queryDto.to);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(diff, 'projects.revisions.diffSuccess', lang, false);
+  }
+
+  @Post(':id/revisions/:revisionNumber/restore')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @Audited({ ...PROJECT_AUDIT, param: 'id', action: 'restore_revision' })
+  async restoreRevision(
+    @Param('id') id: string,
+    @Param('revisionNumber', ParseIntPipe) revisionNumber: number,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    const project = await this.projectsService.restoreRevision(id, revisionNumber, userId);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(project, 'projects.revisions.restoreSuccess', lang);
+  }
+
   // ========================================
   // PROJECT THUMBNAIL
   // ========================================
 
   @Post(':id/thumbnail')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...PROJECT_AUDIT, param: 'id', action: 'update_thumbnail' })
   @UseInterceptors(
     FileInterceptor('file', {
       storage: undefined,
@@ -138,7 +299,9 @@ export class ProjectsController {
   // ========================================
 
   @Post(':id/images')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...PROJECT_AUDIT, param: 'id', action: 'add_images' })
   @UseInterceptors(
     FileInterceptor('file', {
       storage: undefined,
@@ -177,8 +340,14 @@ export class ProjectsController {
   }
 
   @Delete('images/:imageId')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.NO_CONTENT)
+  @Audited({
+    entityType: 'project_image',
+    table: 'project_images',
+    param: 'imageId',
+  })
   async deleteImage(
     @Param('imageId') imageId: string,
     @Request() req: any,
@@ -193,13 +362,19 @@ export class ProjectsController {
   // ========================================
 
   @Post('interactions')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(OptionalJwtAuthGuard, ThrottlerGuard)
+  @Throttle({ default: { limit: 30, ttl: 60000 } })
   async toggleInteraction(
     @Body() createInteractionDto: CreateInteractionDto,
     @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
   ): Promise<StandardResponse<any>> {
     const userId = req.user?.sub || req.user?.id;
-    const result = await this.projectsService.toggleInteraction(createInteractionDto, userId);
+    const result = await this.projectsService.recordInteraction(createInteractionDto, {
+      userId: userId || null,
+      visitorId: userId ? null : VisitorCookieUtil.ensureVisitorId(req, res),
+      ipHash: userId ? null : VisitorCookieUtil.hashClientIp(req),
+    });
     const lang = RequestUtil.getLanguage(req);
     return ResponseUtil.successSingle(result, 'projects.interaction.success', lang);
   }
@@ -209,11 +384,57 @@ export class ProjectsController {
   // ========================================
 
   @Post(':id/view')
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
   @HttpCode(HttpStatus.OK)
   async incrementView(@Param('id') id: string, @Request() req: any): Promise<StandardResponse<any>> {
-    await this.projectsService.incrementView(id);
+    const counted = await this.projectAnalyticsService.recordView(id, {
+      ipAddress: RequestUtil.getClientIp(req),
+      userAgent: RequestUtil.getUserAgent(req),
+      isBot: RequestUtil.isBot(req),
+    });
     const lang = RequestUtil.getLanguage(req);
-    return ResponseUtil.successSingle(null, 'projects.view.incremented', lang, false);
+    return ResponseUtil.successSingle({ counted }, 'projects.view.incremented', lang, false);
+  }
+
+  @Post('analytics/purge-views')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @Audited({
+    entityType: 'project_view_event',
+    table: 'project_view_events',
+    action: 'purge',
+  })
+  async purgeViews(@Request() req: any): Promise<StandardResponse<any>> {
+    const result = await this.projectAnalyticsService.purgeExpiredViews();
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(result, 'projects.view.purged', lang, false);
+  }
+
+  @Get('analytics/summary')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  async getAnalyticsSummary(
+    @Query() queryDto: QueryAnalyticsDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const summary = await this.projectAnalyticsService.getSummary(queryDto);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(summary, 'projects.analytics.success', lang);
+  }
+
+  @Get(':id/analytics')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  async getAnalytics(
+    @Param('id') id: string,
+    @Query() queryDto: QueryAnalyticsDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const analytics = await this.projectAnalyticsService.getProjectAnalytics(id, queryDto);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(analytics, 'projects.analytics.success', lang);
   }
 
   // ========================================
@@ -221,10 +442,21 @@ export class ProjectsController {
   // ========================================
 
   @Get(':id/comments')
-  async getComments(@Param('id') id: string, @Request() req: any): Promise<StandardResponse<any>> {
-    const comments = await this.projectsService.getComments(id);
+  async getComments(
+    @Param('id') id: string,
+    @Query() queryDto: QueryCommentThreadDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const result = await this.projectsService.getComments(id, queryDto);
     const lang = RequestUtil.getLanguage(req);
-    return ResponseUtil.successSingle({ data: { comments } }, 'projects.comments.success', lang);
+    return ResponseUtil.successList(
+      result.comments,
+      result.total,
+      result.page,
+      result.limit,
+      'projects.comments.success',
+      lang,
+    );
   }
 
   @Post('comments')
@@ -251,5 +483,77 @@ export class ProjectsController {
     const lang = RequestUtil.getLanguage(req);
     return ResponseUtil.successSingle(null, 'projects.comments.delete.success', lang);
   }
-}
 
+  // ========================================
+  // COMMENT MODERATION
+  // ========================================
+
+  @Get('comments/pending')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  async getPendingComments(
+    @Query() queryDto: QueryCommentDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const result = await this.projectsService.getModerationComments(queryDto);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successList(
+      result.comments,
+      result.total,
+      result.page,
+      result.limit,
+      'projects.comments.pending.success',
+      lang,
+    );
+  }
+
+  @Post('comments/bulk-approve')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async bulkApproveComments(
+    @Body() bulkApproveDto: BulkApproveCommentsDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    const result = await this.projectsService.bulkApproveComments(
+      bulkApproveDto.commentIds,
+      userId,
+    );
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(result, 'projects.comments.bulkApprove.success', lang);
+  }
+
+  @Patch('comments/:commentId/approve')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...COMMENT_AUDIT, action: 'approve' })
+  async approveComment(
+    @Param('commentId') commentId: string,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    const comment = await this.projectsService.approveComment(commentId, userId);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(comment, 'projects.comments.approve.success', lang);
+  }
+
+  @Patch('comments/:commentId/reject')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...COMMENT_AUDIT, action: 'reject' })
+  async rejectComment(
+    @Param('commentId') commentId: string,
+    @Body() rejectDto: RejectCommentDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    const comment = await this.projectsService.rejectComment(
+      commentId,
+      userId,
+      rejectDto.reason,
+    );
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(comment, 'projects.comments.reject.success', lang);
+  }
+}
@@ -1,11 +1,28 @@
 import { Module } from '@nestjs/common';
 import { ProjectsService } from './projects.service';
 import { ProjectsController } from './projects.controller';
+import { ProjectRevisionsService } from './project-revisions.service';
+import { ProjectSchedulerService } from './project-scheduler.service';
+import { ProjectAnalyticsService } from './project-analytics.service';
+import { ProjectViewRetentionService } from './project-view-retention.service';
+import { ClockService } from '../../core/services/clock.service';
+import { ImageProcessingService } from '../../core/services/image-processing.service';
 import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+import { StorageService } from '../../core/lib/storage/storage.service';
 
 @Module({
   controllers: [ProjectsController],
-  providers: [ProjectsService, SupabaseService],
+  providers: [
+    ProjectsService,
+    ProjectRevisionsService,
+    ProjectSchedulerService,
+    ProjectAnalyticsService,
+    ProjectViewRetentionService,
+    ClockService,
+    ImageProcessingService,
+    StorageService,
+    SupabaseService,
+  ],
   exports: [ProjectsService],
 })
 export class ProjectsModule {}
@@ -0,0 +1,339 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ProjectsService } from './projects.service';
+import { ProjectRevisionsService } from './project-revisions.service';
+import { ProjectStatus } from './enums/project-status.enum';
+import {
+  createSupabaseMock,
+  IQueryResult,
+  IRecordedQuery,
+  ISupabaseMock,
+} from '../../core/testing/supabase.mock';
+
+describe('ProjectsService aggregate writes', () => {
+  const PROJECT = {
+    id: 'project-1',
+    slug: 'demo',
+    status: ProjectStatus.DRAFT,
+    project_translations: [],
+  };
+
+  let mock: ISupabaseMock;
+  let rpcResult: IQueryResult;
+  let revisions: ProjectRevisionsService;
+  let service: ProjectsService;
+
+  const tableWrites = () =>
+    mock.queries.filter((query) => query.operation !== 'select');
+
+  beforeEach(() => {
+    rpcResult = { data: PROJECT.id, error: null };
+    mock = createSupabaseMock(
+      (query) =>
+        // exists() finds no slug clash; findOne() loads the project
+        query.filters.slug
+          ? { data: [], error: null }
+          : { data: PROJECT, error: null },
+      () => rpcResult,
+    );
+
+    revisions = new ProjectRevisionsService(mock.supabaseService);
+    jest.spyOn(revisions, 'ensureBaseline').mockResolvedValue(undefined);
+    jest.spyOn(revisions, 'record').mockResolvedValue({} as any);
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+
+    service = new ProjectsService(
+      mock.supabaseService,
+      revisions,
+      { now: () => new Date() } as any,
+      {} as any,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe.each([
+    ['23505', ConflictException],
+    ['23503', BadRequestException],
+    ['P0002', NotFoundException],
+    ['XX000', BadRequestException],
+  ])('when the RPC fails with %s', (code, exception) => {
+    beforeEach(() => {
+      rpcResult = { data: null, error: { code } };
+    });
+
+    it('create maps the error and writes nothing else', async () => {
+      await expect(
+        service.create(
+          {
+            slug: 'demo',
+            translations: [{ locale: 'en', title: 'Demo' }],
+          } as any,
+          'user-1',
+        ),
+      ).rejects.toThrow(exception);
+
+      expect(mock.client.rpc).toHaveBeenCalledWith(
+        'create_project_aggregate',
+        expect.anything(),
+      );
+      expect(tableWrites()).toHaveLength(0);
+      expect(revisions.record).not.toHaveBeenCalled();
+    });
+
+    it('update maps the error and writes nothing else', async () => {
+      await expect(
+        service.update(PROJECT.id, { isFeatured: true } as any, 'user-1'),
+      ).rejects.toThrow(exception);
+
+      expect(mock.client.rpc).toHaveBeenCalledWith(
+        'update_project_aggregate',
+        expect.anything(),
+      );
+      expect(tableWrites()).toHaveLength(0);
+      expect(revisions.record).not.toHaveBeenCalled();
+    });
+  });
+
+  it('update succeeds when only the revision cannot be recorded', async () => {
+    jest
+      .spyOn(revisions, 'record')
+      .mockRejectedValue(
+        new BadRequestException('projects.revisions.recordFailed'),
+      );
+
+    const project = await service.update(
+      PROJECT.id,
+      { isFeatured: true } as any,
+      'user-1',
+    );
+
+    expect(project.id).toBe(PROJECT.id);
+    expect(revisions.record).toHaveBeenCalledWith(
+      PROJECT.id,
+      'user-1',
+      undefined,
+    );
+  });
+});
+
+describe('ProjectsService comment counts', () => {
+  interface ICommentRow {
+    id: string;
+    project_id: string;
+    user_id: string;
+    is_approved: boolean;
+    deleted_at: string | null;
+  }
+
+  let comment: ICommentRow | null;
+  let replies: number;
+  let mock: ISupabaseMock;
+  let service: ProjectsService;
+
+  const countAdjustments = () =>
+    mock.client.rpc.mock.calls
+      .filter(([fn]) => fn === 'adjust_project_count')
+      .map(([, params]) => params.delta);
+
+  // Applies the conditional comment writes to the in-memory row
+  const handle = (query: IRecordedQuery): IQueryResult => {
+    if (query.table !== 'project_comments') {
+      return { data: null, error: null };
+    }
+    if (query.filters.parent_id) {
+      return { data: null, error: null, count: replies };
+    }
+
+    const matches =
+      !!comment &&
+      (query.filters.is_approved === undefined ||
+        comment.is_approved === query.filters.is_approved) &&
+      (query.filters['is:deleted_at'] === undefined ||
+        comment.deleted_at === query.filters['is:deleted_at']);
+
+    if (query.operation === 'select') {
+      return { data: matches ? comment : null, error: null };
+    }
+    if (!matches) {
+      return { data: query.operation === 'update' ? null : [], error: null };
+    }
+    if (query.operation === 'delete') {
+      const removed = comment;
+      comment = null;
+      return { data: [removed], error: null };
+    }
+
+    Object.assign(comment!, query.payload);
+    // deleteComment selects a list, moderation a single row
+    return {
+      data: query.payload.deleted_at ? [comment] : comment,
+      error: null,
+    };
+  };
+
+  beforeEach(() => {
+    comment = {
+      id: 'comment-1',
+      project_id: 'project-1',
+      user_id: 'user-1',
+      is_approved: false,
+      deleted_at: null,
+    };
+    replies = 0;
+    mock = createSupabaseMock(handle);
+    service = new ProjectsService(
+      mock.supabaseService,
+      {} as any,
+      { now: () => new Date() } as any,
+      {} as any,
+    );
+  });
+
+  it('counts a comment once when it is approved', async () => {
+    await service.approveComment('comment-1', 'admin-1');
+
+    expect(comment!.is_approved).toBe(true);
+    expect(countAdjustments()).toEqual([1]);
+  });
+
+  it('does not count a comment approved concurrently', async () => {
+    // Approved by another moderator after it was loaded
+    jest
+      .spyOn(service as any, 'findCommentForModeration')
+      .mockResolvedValueOnce({ ...comment })
+      .mockResolvedValueOnce({ ...comment, is_approved: true });
+    comment!.is_approved = true;
+
+    await service.approveComment('comment-1', 'admin-1');
+
+    expect(countAdjustments()).toEqual([]);
+  });
+
+  it('uncounts an approved comment when it is rejected', async () => {
+    comment!.is_approved = true;
+
+    await service.rejectComment('comment-1', 'admin-1', 'spam');
+
+    expect(comment!.is_approved).toBe(false);
+    expect(countAdjustments()).toEqual([-1]);
+  });
+
+  it('leaves the count alone when rejecting a pending comment', async () => {
+    await service.rejectComment('comment-1', 'admin-1');
+
+    expect(countAdjustments()).toEqual([]);
+  });
+
+  it('uncounts an approved comment when it is deleted', async () => {
+    comment!.is_approved = true;
+
+    await service.deleteComment('comment-1', 'user-1');
+
+    expect(comment).toBeNull();
+    expect(countAdjustments()).toEqual([-1]);
+  });
+
+  it('uncounts a soft-deleted comment only once', async () => {
+    comment!.is_approved = true;
+    replies = 2;
+
+    await service.deleteComment('comment-1', 'user-1');
+    await service.deleteComment('comment-1', 'user-1');
+
+    expect(countAdjustments()).toEqual([-1]);
+  });
+
+  it('does not uncount a soft-deleted approved comment again on reject', async () => {
+    comment!.is_approved = true;
+    replies = 2;
+
+    await service.deleteComment('comment-1', 'user-1');
+    await expect(
+      service.rejectComment('comment-1', 'admin-1', 'spam'),
+    ).rejects.toThrow(NotFoundException);
+
+    expect(countAdjustments()).toEqual([-1]);
+  });
+
+  it('does not count a soft-deleted pending comment on approval', async () => {
+    replies = 2;
+
+    await service.deleteComment('comment-1', 'user-1');
+    await expect(
+      service.approveComment('comment-1', 'admin-1'),
+    ).rejects.toThrow(NotFoundException);
+
+    expect(countAdjustments()).toEqual([]);
+  });
+});
+
+describe('ProjectsService comment replies', () => {
+  let parent: Record<string, any> | null;
+  let mock: ISupabaseMock;
+  let service: ProjectsService;
+
+  const reply = () =>
+    service.createComment(
+      { projectId: 'project-1', parentId: 'comment-1', content: 'Thanks!' },
+      'user-2',
+    );
+
+  const inserts = () =>
+    mock.queries.filter((query) => query.operation === 'insert');
+
+  beforeEach(() => {
+    parent = {
+      id: 'comment-1',
+      project_id: 'project-1',
+      depth: 0,
+      is_approved: true,
+      deleted_at: null,
+    };
+    mock = createSupabaseMock((query) =>
+      query.operation === 'insert'
+        ? { data: { id: 'comment-2', ...query.payload }, error: null }
+        : { data: parent, error: null },
+    );
+    service = new ProjectsService(
+      mock.supabaseService,
+      {} as any,
+      { now: () => new Date() } as any,
+      {} as any,
+    );
+  });
+
+  it('creates a pending reply to an approved comment', async () => {
+    const comment = await reply();
+
+    expect(comment).toMatchObject({
+      parentId: 'comment-1',
+      depth: 1,
+      isApproved: false,
+    });
+  });
+
+  it('refuses to reply to a comment awaiting approval', async () => {
+    parent!.is_approved = false;
+
+    await expect(reply()).rejects.toThrow(
+      new BadRequestException('projects.comments.parentNotApproved'),
+    );
+    expect(inserts()).toHaveLength(0);
+  });
+
+  it('refuses to reply to a deleted comment', async () => {
+    parent!.deleted_at = '2026-01-01T00:00:00.000Z';
+
+    await expect(reply()).rejects.toThrow(
+      new BadRequestException('projects.comments.parentDeleted'),
+    );
+    expect(inserts()).toHaveLength(0);
+  });
+});
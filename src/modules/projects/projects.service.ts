@@ -1,28 +1,60 @@
 import {
   Injectable,
+  HttpException,
+  HttpStatus,
   NotFoundException,
   ConflictException,
   BadRequestException,
 } from '@nestjs/common';
 import { BaseService } from '../../core/services/base.service';
+import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+import { ClockService } from '../../core/services/clock.service';
+import { ImageProcessingService } from '../../core/services/image-processing.service';
+import { CursorUtil } from '../../core/utils/cursor.util';
+import { ProjectRevisionsService } from './project-revisions.service';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { UpdateProjectDto } from './dto/update-project.dto';
 import { QueryProjectDto, ProjectSortBy, SortOrder } from './dto/query-project.dto';
+import { QueryRelatedProjectsDto } from './dto/query-related-projects.dto';
 import { CreateCommentDto } from './dto/create-comment.dto';
 import { CreateInteractionDto } from './dto/create-interaction.dto';
+import {
+  QueryCommentDto,
+  QueryCommentThreadDto,
+  CommentSortBy,
+  SortOrder as CommentSortOrder,
+} from './dto/query-comment.dto';
 import {
   IProject,
   IProjectsListResponse,
   IProjectDetailResponse,
+  IProjectRevision,
+  IProjectRevisionDiff,
+  IProjectSnapshot,
   IProjectComment,
   IProjectInteraction,
+  IInteractionActor,
+  ICommentsListResponse,
 } from './types/project.types';
 import { ProjectStatus } from './enums/project-status.enum';
+import { InteractionType } from './enums/interaction-type.enum';
+import { MAX_ANONYMOUS_LIKES_PER_IP } from '../../constants/projects.constants';
 
 @Injectable()
 export class ProjectsService extends BaseService {
   private readonly DEFAULT_PAGE = 1;
   private readonly DEFAULT_LIMIT = 10;
+  private readonly MAX_COMMENT_DEPTH = 3;
+  private readonly DEFAULT_RELATED_LIMIT = 6;
+
+  constructor(
+    supabaseService: SupabaseService,
+    private projectRevisionsService: ProjectRevisionsService,
+    private clockService: ClockService,
+    private imageProcessingService: ImageProcessingService,
+  ) {
+    super(supabaseService);
+  }
 
   /**
    * Create a new project with translations, technologies, categories, and links
@@ -40,96 +72,36 @@ export class ProjectsService extends BaseService {
       throw new BadRequestException('projects.create.translationsRequired');
     }
 
-    // Create project
-    const { data: project, error: projectError } = await supabase
-      .from('projects')
-      .insert({
-        user_id: userId,
-        slug: createProjectDto.slug,
-        thumbnail_url: null,
-        project_type: createProjectDto.projectType || 'personal',
-        status: createProjectDto.status || ProjectStatus.DRAFT,
-        order_index: createProjectDto.orderIndex || 0,
-        is_featured: createProjectDto.isFeatured || false,
-        start_date: createProjectDto.startDate || null,
-        end_date: createProjectDto.endDate || null,
-      })
-      .select()
-      .single();
-
-    if (projectError || !project) {
-      throw new BadRequestException('projects.create.failed');
-    }
-
-    // Create translations
-    const translationsData = createProjectDto.translations.map((t) => ({
-      project_id: project.id,
-      locale: t.locale,
-      title: t.title,
-      description: t.description || null,
-      short_description: t.shortDescription || null,
-      content: t.content || null,
-      meta_title: t.metaTitle || null,
-      meta_description: t.metaDescription || null,
-    }));
-
-    const { error: translationsError } = await supabase
-      .from('project_translations')
-      .insert(translationsData);
-
-    if (translationsError) {
-      // Rollback: delete project
-      await supabase.from('projects').delete().eq('id', project.id);
-      throw new BadRequestException('projects.create.translationsFailed');
-    }
-
-    // Add technologies
-    if (createProjectDto.technologyIds && createProjectDto.technologyIds.length > 0) {
-      const technologiesData = createProjectDto.technologyIds.map((techId) => ({
-        project_id: project.id,
-        technology_id: techId,
-      }));
-
-      await supabase.from('project_technologies').insert(technologiesData);
-    }
-
-    // Add categories
-    if (createProjectDto.categoryIds && createProjectDto.categoryIds.length > 0) {
-      const categoriesData = createProjectDto.categoryIds.map((catId) => ({
-        project_id: project.id,
-        category_id: catId,
-      }));
-
-      await supabase.from('project_categories').insert(categoriesData);
-    }
-
-    // Add links
-    if (createProjectDto.links && createProjectDto.links.length > 0) {
-      const linksData = createProjectDto.links.map((link, index) => ({
-        project_id: project.id,
-        link_type: link.linkType,
-        url: link.url,
-        label: link.label || null,
-        icon: link.icon || null,
-        order_index: link.orderIndex || index,
-      }));
+    this.assertValidSchedule(createProjectDto.publishAt, createProjectDto.unpublishAt);
+
+    // Project and relations are written in one transaction
+    const { data: projectId, error } = await supabase.rpc('create_project_aggregate', {
+      p_user_id: userId,
+      p_payload: {
+        ...this.buildRelationsPayload(createProjectDto),
+        project: {
+          slug: createProjectDto.slug,
+          thumbnail_url: null,
+          project_type: createProjectDto.projectType || 'personal',
+          status: createProjectDto.status || ProjectStatus.DRAFT,
+          order_index: createProjectDto.orderIndex || 0,
+          is_featured: createProjectDto.isFeatured || false,
+          start_date: createProjectDto.startDate || null,
+          end_date: createProjectDto.endDate || null,
+          publish_at: createProjectDto.publishAt || null,
+          unpublish_at: createProjectDto.unpublishAt || null,
+        },
+        image_urls: createProjectDto.imageUrls || [],
+      },
+    });
 
-      await supabase.from('project_links').insert(linksData);
+    if (error || !projectId) {
+      throw this.toWriteException(error, 'projects.create.failed');
     }
 
-    // Add images
-    if (createProjectDto.imageUrls && createProjectDto.imageUrls.length > 0) {
-      const imagesData = createProjectDto.imageUrls.map((url, index) => ({
-        project_id: project.id,
-        image_url: url,
-        order_index: index,
-        is_primary: index === 0,
-      }));
-
-      await supabase.from('project_images').insert(imagesData);
-    }
+    await this.projectRevisionsService.recordAfterWrite(projectId, userId);
 
-    return this.findOne(project.id);
+    return this.findOne(projectId, userId);
   }
 
   /**
@@ -151,6 +123,23 @@ export class ProjectsService extends BaseService {
       sortOrder = SortOrder.DESC,
     } = queryDto;
 
+    const ascending = sortOrder === SortOrder.ASC;
+    // Titles live on the translation, keyset pagination needs a projects column
+    const cursorSupported = sortBy !== ProjectSortBy.TITLE;
+
+    if (queryDto.cursor && !cursorSupported) {
+      throw new BadRequestException('common.cursor.unsupportedSort');
+    }
+
+    const pagination = {
+      sort: { column: sortBy, ascending },
+      limit,
+      page,
+      cursor: queryDto.cursor
+        ? CursorUtil.decode(queryDto.cursor, { column: sortBy, ascending })
+        : null,
+    };
+
     // Base query with translations
     let query = supabase
       .from('projects')
@@ -179,6 +168,14 @@ export class ProjectsService extends BaseService {
       query = query.eq('status', ProjectStatus.PUBLISHED);
     }
 
+    // Public users never see projects outside their publishing window
+    if (!userId) {
+      const now = this.clockService.now().toISOString();
+      query = query
+        .or(`publish_at.is.null,publish_at.lte."${now}"`)
+        .or(`unpublish_at.is.null,unpublish_at.gt."${now}"`);
+    }
+
     if (projectType) query = query.eq('project_type', projectType);
     if (isFeatured !== undefined) query = query.eq('is_featured', isFeatured);
 
@@ -192,12 +189,14 @@ export class ProjectsService extends BaseService {
       query = query.contains('project_technologies', [{ technology_id: technologyId }]);
     }
 
-    // Apply sorting
-    const sortColumn = sortBy === 'title' ? 'project_translations.title' : sortBy;
-    query = query.order(sortColumn, { ascending: sortOrder === SortOrder.ASC });
-
-    // Apply pagination
-    query = query.range((page - 1) * limit, page * limit - 1);
+    // Apply sorting and pagination
+    if (cursorSupported) {
+      query = CursorUtil.paginate(query, pagination);
+    } else {
+      query = query
+        .order('project_translations.title', { ascending })
+        .range((page - 1) * limit, page * limit - 1);
+    }
 
     const { data, error, count } = await query;
 
@@ -205,7 +204,11 @@ export class ProjectsService extends BaseService {
       throw new BadRequestException('projects.findAll.failed');
     }
 
-    const projects = (data || []).map((project) => this.mapToProject(project));
+    const { rows, nextCursor, prevCursor } = cursorSupported
+      ? CursorUtil.toPage(data || [], pagination, count || 0)
+      : { rows: data || [], nextCursor: null, prevCursor: null };
+
+    const projects = rows.map((project) => this.mapToProject(project));
 
     return {
       projects,
@@ -213,6 +216,8 @@ export class ProjectsService extends BaseService {
       page,
       limit,
       totalPages: Math.ceil((count || 0) / limit),
+      nextCursor,
+      prevCursor,
     };
   }
 
@@ -248,17 +253,80 @@ export class ProjectsService extends BaseService {
     }
 
     // Check if user can view this project
-    if (data.status !== ProjectStatus.PUBLISHED && !userId) {
+    if (!userId && !this.isPubliclyVisible(data)) {
       throw new NotFoundException('projects.findOne.notFound');
     }
 
     return this.mapToProjectWithRelations(data);
   }
 
+  /**
+   * Publicly visible projects most similar to the given one, best first.
+   * Scoring happens in get_related_projects.
+   */
+  async findRelated(
+    id: string,
+    queryDto: QueryRelatedProjectsDto,
+    userId?: string,
+  ): Promise<IProject[]> {
+    const supabase = this.getClient();
+    const { limit = this.DEFAULT_RELATED_LIMIT, locale = 'en' } = queryDto;
+
+    const { data: source } = await supabase
+      .from('projects')
+      .select('id, status, publish_at, unpublish_at')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!source || (!userId && !this.isPubliclyVisible(source))) {
+      throw new NotFoundException('projects.findOne.notFound');
+    }
+
+    const { data: scores, error } = await supabase.rpc('get_related_projects', {
+      p_project_id: id,
+      p_limit: limit,
+      p_now: this.clockService.now().toISOString(),
+    });
+
+    if (error) {
+      throw new BadRequestException('projects.related.failed');
+    }
+
+    const ids: string[] = (scores || []).map((row: { project_id: string }) => row.project_id);
+
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const { data, error: fetchError } = await supabase
+      .from('projects')
+      .select(
+        `
+        *,
+        project_translations!inner(locale, title, short_description)
+      `,
+      )
+      .in('id', ids)
+      .eq('project_translations.locale', locale);
+
+    if (fetchError) {
+      throw new BadRequestException('projects.related.failed');
+    }
+
+    // Keep the ranking order from the scoring function
+    return (data || [])
+      .sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id))
+      .map((project) => this.mapToProject(project));
+  }
+
   /**
    * Find project by slug
    */
-  async findBySlug(slug: string, userId?: string): Promise<IProjectDetailResponse> {
+  async findBySlug(
+    slug: string,
+    userId?: string,
+    visitorId?: string | null,
+  ): Promise<IProjectDetailResponse> {
     const supabase = this.getClient();
 
     const { data, error } = await supabase
@@ -287,24 +355,36 @@ export class ProjectsService extends BaseService {
     }
 
     // Check if user can view this project
-    if (data.status !== ProjectStatus.PUBLISHED && !userId) {
+    if (!userId && !this.isPubliclyVisible(data)) {
       throw new NotFoundException('projects.findBySlug.notFound');
     }
 
     const project = this.mapToProjectWithRelations(data);
 
-    // Get user interaction if authenticated
+    // Get the caller's interactions (signed-in user or anonymous visitor)
     let userInteraction: { hasLiked: boolean; hasShared: boolean } | undefined = undefined;
-    if (userId) {
-      const { data: interactions } = await supabase
-        .from('project_interactions')
-        .select('interaction_type')
-        .eq('project_id', data.id)
-        .eq('user_id', userId);
+    const actorColumn = userId ? 'user_id' : visitorId ? 'visitor_id' : null;
+    if (actorColumn) {
+      const actorId = userId || visitorId;
+      const [{ data: likes }, { data: shares }] = await Promise.all([
+        supabase
+          .from('project_interactions')
+          .select('id')
+          .eq('project_id', data.id)
+          .eq('interaction_type', InteractionType.LIKE)
+          .eq(actorColumn, actorId)
+          .limit(1),
+        supabase
+          .from('project_share_events')
+          .select('id')
+          .eq('project_id', data.id)
+          .eq(actorColumn, actorId)
+          .limit(1),
+      ]);
 
       userInteraction = {
-        hasLiked: interactions?.some((i) => i.interaction_type === 'like') || false,
-        hasShared: interactions?.some((i) => i.interaction_type === 'share') || false,
+        hasLiked: (likes?.length ?? 0) > 0,
+        hasShared: (shares?.length ?? 0) > 0,
       };
     }
 
@@ -315,14 +395,59 @@ export class ProjectsService extends BaseService {
   }
 
   /**
-   * Update project
+   * Renumber projects in the given order
    */
-  async update(id: string, updateProjectDto: UpdateProjectDto): Promise<IProject> {
-    const supabase = this.getClient();
+  async reorder(ids: string[]): Promise<void> {
+    await this.reorderRows('projects', ids);
+  }
 
+  /**
+   * Renumber the gallery images of a project
+   */
+  async reorderImages(projectId: string, ids: string[]): Promise<void> {
+    await this.assertProjectExists(projectId);
+    await this.reorderRows('project_images', ids, { column: 'project_id', value: projectId });
+  }
+
+  /**
+   * Renumber the links of a project
+   */
+  async reorderLinks(projectId: string, ids: string[]): Promise<void> {
+    await this.assertProjectExists(projectId);
+    await this.reorderRows('project_links', ids, { column: 'project_id', value: projectId });
+  }
+
+  /**
+   * Update project and record the result as a new revision
+   */
+  async update(
+    id: string,
+    updateProjectDto: UpdateProjectDto,
+    userId?: string,
+  ): Promise<IProject> {
     // Check if project exists
-    await this.findOne(id);
+    const existing = await this.findOne(id, userId);
+
+    this.assertValidSchedule(
+      updateProjectDto.publishAt !== undefined ? updateProjectDto.publishAt : existing.publishAt,
+      updateProjectDto.unpublishAt !== undefined ? updateProjectDto.unpublishAt : existing.unpublishAt,
+    );
 
+    await this.projectRevisionsService.ensureBaseline(id);
+    await this.applyUpdate(id, updateProjectDto);
+    await this.projectRevisionsService.recordAfterWrite(id, userId);
+
+    return this.findOne(id, userId);
+  }
+
+  /**
+   * Apply an update DTO to the project and its relations in one transaction
+   */
+  private async applyUpdate(
+    id: string,
+    updateProjectDto: UpdateProjectDto | IProjectSnapshot,
+    replaceTranslations = false,
+  ): Promise<void> {
     // Build update data
     const updateData: any = {};
     if (updateProjectDto.projectType !== undefined)
@@ -334,96 +459,143 @@ export class ProjectsService extends BaseService {
       updateData.is_featured = updateProjectDto.isFeatured;
     if (updateProjectDto.startDate !== undefined) updateData.start_date = updateProjectDto.startDate;
     if (updateProjectDto.endDate !== undefined) updateData.end_date = updateProjectDto.endDate;
+    if (updateProjectDto.publishAt !== undefined) updateData.publish_at = updateProjectDto.publishAt;
+    if (updateProjectDto.unpublishAt !== undefined)
+      updateData.unpublish_at = updateProjectDto.unpublishAt;
+
+    const { error } = await this.getClient().rpc('update_project_aggregate', {
+      p_project_id: id,
+      p_payload: {
+        ...this.buildRelationsPayload(updateProjectDto),
+        project: updateData,
+        replace_translations: replaceTranslations,
+      },
+    });
 
-    // Update project
-    if (Object.keys(updateData).length > 0) {
-      const { error } = await supabase.from('projects').update(updateData).eq('id', id);
-
-      if (error) {
-        throw new BadRequestException('projects.update.failed');
-      }
+    if (error) {
+      throw this.toWriteException(error, 'projects.update.failed');
     }
+  }
 
-    // Update translations
-    if (updateProjectDto.translations) {
-      for (const translation of updateProjectDto.translations) {
-        const { error } = await supabase
-          .from('project_translations')
-          .upsert(
-            {
-              project_id: id,
-              locale: translation.locale,
-              title: translation.title,
-              description: translation.description || null,
-              short_description: translation.shortDescription || null,
-              content: translation.content || null,
-              meta_title: translation.metaTitle || null,
-              meta_description: translation.metaDescription || null,
-            },
-            {
-              onConflict: 'project_id,locale',
-            }
-          );
-
-        if (error) {
-          throw new BadRequestException('projects.update.translationsFailed');
-        }
-      }
+  /**
+   * Relation rows for the aggregate RPCs. A key is only sent for the
+   * relations being written; the database replaces them as a whole.
+   */
+  private buildRelationsPayload(
+    dto: UpdateProjectDto | IProjectSnapshot,
+  ): Record<string, unknown> {
+    const payload: Record<string, unknown> = {};
+
+    if (dto.translations) {
+      payload.translations = dto.translations.map((t) => ({
+        locale: t.locale,
+        title: t.title,
+        description: t.description || null,
+        short_description: t.shortDescription || null,
+        content: t.content || null,
+        meta_title: t.metaTitle || null,
+        meta_description: t.metaDescription || null,
+      }));
     }
 
-    // Update technologies
-    if (updateProjectDto.technologyIds !== undefined) {
-      // Delete existing
-      await supabase.from('project_technologies').delete().eq('project_id', id);
+    if (dto.technologyIds !== undefined) payload.technology_ids = dto.technologyIds;
+    if (dto.categoryIds !== undefined) payload.category_ids = dto.categoryIds;
 
-      // Insert new
-      if (updateProjectDto.technologyIds.length > 0) {
-        const technologiesData = updateProjectDto.technologyIds.map((techId) => ({
-          project_id: id,
-          technology_id: techId,
-        }));
+    if (dto.links !== undefined) {
+      payload.links = dto.links.map((link, index) => ({
+        link_type: link.linkType,
+        url: link.url,
+        label: link.label || null,
+        icon: link.icon || null,
+        order_index: link.orderIndex || index,
+      }));
+    }
 
-        await supabase.from('project_technologies').insert(technologiesData);
-      }
+    return payload;
+  }
+
+  /**
+   * Map a failed aggregate RPC (Postgres error code) to an API error
+   */
+  private toWriteException(error: { code?: string } | null, fallbackKey: string): HttpException {
+    switch (error?.code) {
+      case '23505': // unique_violation
+        return new ConflictException('projects.create.slugExists');
+      case '23503': // foreign_key_violation
+        return new BadRequestException('projects.relations.invalid');
+      case 'P0002': // no_data_found
+        return new NotFoundException('projects.findOne.notFound');
+      default:
+        return new BadRequestException(fallbackKey);
     }
+  }
 
-    // Update categories
-    if (updateProjectDto.categoryIds !== undefined) {
-      // Delete existing
-      await supabase.from('project_categories').delete().eq('project_id', id);
+  // ========================================
+  // REVISIONS
+  // ========================================
 
-      // Insert new
-      if (updateProjectDto.categoryIds.length > 0) {
-        const categoriesData = updateProjectDto.categoryIds.map((catId) => ({
-          project_id: id,
-          category_id: catId,
-        }));
+  async getRevisions(projectId: string): Promise<IProjectRevision[]> {
+    await this.assertProjectExists(projectId);
+    return this.projectRevisionsService.findAll(projectId);
+  }
 
-        await supabase.from('project_categories').insert(categoriesData);
-      }
-    }
+  async diffRevisions(
+    projectId: string,
+    from: number,
+    to?: number,
+  ): Promise<IProjectRevisionDiff> {
+    await this.assertProjectExists(projectId);
+    return this.projectRevisionsService.diff(projectId, from, to);
+  }
 
-    // Update links
-    if (updateProjectDto.links !== undefined) {
-      // Delete existing
-      await supabase.from('project_links').delete().eq('project_id', id);
-
-      // Insert new
-      if (updateProjectDto.links.length > 0) {
-        const linksData = updateProjectDto.links.map((link, index) => ({
-          project_id: id,
-          link_type: link.linkType,
-          url: link.url,
-          label: link.label || null,
-          icon: link.icon || null,
-          order_index: link.orderIndex || index,
-        }));
+  /**
+   * Bring the project back to a past revision. The restore itself is
+   * recorded as a new revision, so it can be undone the same way.
+   */
+  async restoreRevision(
+    projectId: string,
+    revisionNumber: number,
+    userId?: string,
+  ): Promise<IProject> {
+    await this.assertProjectExists(projectId);
 
-        await supabase.from('project_links').insert(linksData);
-      }
+    const revision = await this.projectRevisionsService.findOne(
+      projectId,
+      revisionNumber,
+    );
+    const snapshot = revision.snapshot!;
+
+    // Also drop locales that were added after the revision
+    await this.applyUpdate(projectId, snapshot, true);
+
+    await this.projectRevisionsService.recordAfterWrite(projectId, userId, revision.id);
+
+    return this.findOne(projectId, userId);
+  }
+
+  /**
+   * Published, and inside the publish_at / unpublish_at window
+   */
+  private isPubliclyVisible(data: any): boolean {
+    const now = this.clockService.now().getTime();
+
+    return (
+      data.status === ProjectStatus.PUBLISHED &&
+      (!data.publish_at || new Date(data.publish_at).getTime() <= now) &&
+      (!data.unpublish_at || new Date(data.unpublish_at).getTime() > now)
+    );
+  }
+
+  private assertValidSchedule(publishAt?: string | null, unpublishAt?: string | null): void {
+    if (publishAt && unpublishAt && new Date(unpublishAt) <= new Date(publishAt)) {
+      throw new BadRequestException('projects.schedule.invalidRange');
     }
+  }
 
-    return this.findOne(id);
+  private async assertProjectExists(projectId: string): Promise<void> {
+    if (!(await this.exists('projects', 'id', projectId))) {
+      throw new NotFoundException('projects.findOne.notFound');
+    }
   }
 
   /**
@@ -433,13 +605,37 @@ export class ProjectsService extends BaseService {
     const supabase = this.getClient();
 
     // Check if project exists
-    await this.findOne(id);
+    await this.assertProjectExists(id);
 
-    const { error } = await supabase.from('projects').delete().eq('id', id);
+    // Images are deleted with the project, keep their files to remove them
+    const { data: images } = await supabase
+      .from('project_images')
+      .select('image_url, variants')
+      .eq('project_id', id);
+
+    const { data: deleted, error } = await supabase
+      .from('projects')
+      .delete()
+      .eq('id', id)
+      .select('thumbnail_url, thumbnail_variants');
 
     if (error) {
       throw new BadRequestException('projects.delete.failed');
     }
+
+    // Remove stored files only once their rows are gone
+    await Promise.all([
+      ...(deleted || []).map((project) =>
+        this.imageProcessingService.remove(
+          'project-thumbnails',
+          project.thumbnail_url,
+          project.thumbnail_variants,
+        ),
+      ),
+      ...(images || []).map((image) =>
+        this.imageProcessingService.remove('project-images', image.image_url, image.variants),
+      ),
+    ]);
   }
 
   /**
@@ -448,41 +644,56 @@ export class ProjectsService extends BaseService {
   async uploadThumbnail(projectId: string, file: Express.Multer.File): Promise<string> {
     const supabase = this.getClient();
 
-    // Check if project exists
-    await this.findOne(projectId);
-
-    // Generate unique filename
-    const fileExt = file.originalname.split('.').pop() || 'jpg';
-    const fileName = `${projectId}-thumbnail-${Date.now()}.${fileExt}`;
-    const filePath = `thumbnails/${fileName}`;
-
-    // Upload to Supabase Storage
-    const { error: uploadError } = await supabase.storage
-      .from('project-thumbnails')
-      .upload(filePath, file.buffer, {
-        contentType: file.mimetype,
-        upsert: true,
-      });
+    // Check if project exists, keeping the current thumbnail to replace it
+    const { data: current } = await supabase
+      .from('projects')
+      .select('thumbnail_url, thumbnail_variants')
+      .eq('id', projectId)
+      .maybeSingle();
 
-    if (uploadError) {
-      throw new BadRequestException('projects.thumbnail.uploadFailed');
+    if (!current) {
+      throw new NotFoundException('projects.findOne.notFound');
     }
 
-    // Get public URL
-    const { data: urlData } = supabase.storage.from('project-thumbnails').getPublicUrl(filePath);
-    const thumbnailUrl = urlData.publicUrl;
+    // Strip metadata and encode the responsive variants
+    const processed = await this.imageProcessingService.process(file.buffer);
+
+    // Upload every variant to storage
+    const thumbnail = await this.imageProcessingService.store(
+      'project-thumbnails',
+      `thumbnails/${projectId}-thumbnail-${Date.now()}`,
+      processed,
+    );
+
+    if (!thumbnail) {
+      throw new BadRequestException('projects.thumbnail.uploadFailed');
+    }
 
     // Update project
     const { error: updateError } = await supabase
       .from('projects')
-      .update({ thumbnail_url: thumbnailUrl })
+      .update({
+        thumbnail_url: thumbnail.url,
+        thumbnail_width: thumbnail.width,
+        thumbnail_height: thumbnail.height,
+        thumbnail_blurhash: thumbnail.blurhash,
+        thumbnail_variants: thumbnail.variants,
+      })
       .eq('id', projectId);
 
     if (updateError) {
+      await this.imageProcessingService.remove('project-thumbnails', thumbnail.url, thumbnail.variants);
       throw new BadRequestException('projects.thumbnail.uploadFailed');
     }
 
-    return thumbnailUrl;
+    // The previous thumbnail is no longer referenced
+    await this.imageProcessingService.remove(
+      'project-thumbnails',
+      current.thumbnail_url,
+      current.thumbnail_variants,
+    );
+
+    return thumbnail.url;
   }
 
   /**
@@ -498,43 +709,41 @@ export class ProjectsService extends BaseService {
     const supabase = this.getClient();
 
     // Check if project exists
-    await this.findOne(projectId);
-
-    // Generate unique filename
-    const fileExt = file.originalname.split('.').pop() || 'jpg';
-    const fileName = `${projectId}-${Date.now()}.${fileExt}`;
-    const filePath = `projects/${fileName}`;
-
-    // Upload to Supabase Storage
-    const { error: uploadError } = await supabase.storage
-      .from('project-images')
-      .upload(filePath, file.buffer, {
-        contentType: file.mimetype,
-        upsert: false,
-      });
+    await this.assertProjectExists(projectId);
+
+    // Strip metadata and encode the responsive variants
+    const processed = await this.imageProcessingService.process(file.buffer);
+
+    // Upload every variant to storage
+    const image = await this.imageProcessingService.store(
+      'project-images',
+      `projects/${projectId}-${Date.now()}`,
+      processed,
+    );
 
-    if (uploadError) {
+    if (!image) {
       throw new BadRequestException('projects.image.uploadFailed');
     }
 
-    // Get public URL
-    const { data: urlData } = supabase.storage.from('project-images').getPublicUrl(filePath);
-    const imageUrl = urlData.publicUrl;
-
     // Save to database
     const { error: dbError } = await supabase.from('project_images').insert({
       project_id: projectId,
-      image_url: imageUrl,
+      image_url: image.url,
+      width: image.width,
+      height: image.height,
+      blurhash: image.blurhash,
+      variants: image.variants,
       alt_text: altText || null,
       order_index: orderIndex || 0,
       is_primary: isPrimary || false,
     });
 
     if (dbError) {
+      await this.imageProcessingService.remove('project-images', image.url, image.variants);
       throw new BadRequestException('projects.image.saveFailed');
     }
 
-    return imageUrl;
+    return image.url;
   }
 
   /**
@@ -543,118 +752,165 @@ export class ProjectsService extends BaseService {
   async deleteImage(imageId: string): Promise<void> {
     const supabase = this.getClient();
 
-    const { error } = await supabase.from('project_images').delete().eq('id', imageId);
+    const { data: deleted, error } = await supabase
+      .from('project_images')
+      .delete()
+      .eq('id', imageId)
+      .select('image_url, variants');
 
     if (error) {
       throw new BadRequestException('projects.image.deleteFailed');
     }
+
+    await Promise.all(
+      (deleted || []).map((image) =>
+        this.imageProcessingService.remove('project-images', image.image_url, image.variants),
+      ),
+    );
   }
 
   /**
-   * Create or remove interaction (like/share)
+   * Like/unlike a project, or record a share on a channel. Signed-in users
+   * are identified by their id, anonymous visitors by their visitor id.
    */
-  async toggleInteraction(
+  async recordInteraction(
     createInteractionDto: CreateInteractionDto,
-    userId: string,
-  ): Promise<{ action: 'added' | 'removed' }> {
+    actor: IInteractionActor,
+  ): Promise<{ action: 'added' | 'removed' | 'recorded' }> {
     const supabase = this.getClient();
+    const { projectId, interactionType, channel } = createInteractionDto;
 
-    // Check if interaction exists
-    const { data: existing } = await supabase
-      .from('project_interactions')
-      .select('id')
-      .eq('project_id', createInteractionDto.projectId)
-      .eq('user_id', userId)
-      .eq('interaction_type', createInteractionDto.interactionType)
-      .maybeSingle();
+    await this.assertProjectExists(projectId);
 
-    if (existing) {
-      // Remove interaction
-      await supabase.from('project_interactions').delete().eq('id', existing.id);
-
-      // Decrement count
-      const countField =
-        createInteractionDto.interactionType === 'like' ? 'like_count' : 'share_count';
-      await supabase.rpc('decrement_project_count', {
-        project_id: createInteractionDto.projectId,
-        count_field: countField,
-      });
-
-      return { action: 'removed' };
-    } else {
-      // Add interaction
-      await supabase.from('project_interactions').insert({
-        project_id: createInteractionDto.projectId,
-        user_id: userId,
-        interaction_type: createInteractionDto.interactionType,
+    if (interactionType === InteractionType.SHARE) {
+      const { error } = await supabase.rpc('record_project_share', {
+        p_project_id: projectId,
+        p_channel: channel,
+        p_user_id: actor.userId,
+        p_visitor_id: actor.visitorId,
       });
 
-      // Increment count
-      const countField =
-        createInteractionDto.interactionType === 'like' ? 'like_count' : 'share_count';
-      const { data: project } = await supabase
-        .from('projects')
-        .select(countField)
-        .eq('id', createInteractionDto.projectId)
-        .single();
-
-      if (project) {
-        await supabase
-          .from('projects')
-          .update({ [countField]: project[countField] + 1 })
-          .eq('id', createInteractionDto.projectId);
+      if (error) {
+        throw new BadRequestException('projects.interaction.failed');
       }
 
-      return { action: 'added' };
+      return { action: 'recorded' };
     }
-  }
 
-  /**
-   * Increment project view count
-   */
-  async incrementView(projectId: string): Promise<void> {
-    const supabase = this.getClient();
+    const { data: action, error } = await supabase.rpc('toggle_project_like', {
+      p_project_id: projectId,
+      p_user_id: actor.userId,
+      p_visitor_id: actor.visitorId,
+      p_visitor_hash: actor.ipHash,
+      p_max_per_hash: MAX_ANONYMOUS_LIKES_PER_IP,
+    });
 
-    const { data, error } = await supabase
-      .from('projects')
-      .select('view_count')
-      .eq('id', projectId)
-      .single();
+    if (error) {
+      throw new BadRequestException('projects.interaction.failed');
+    }
 
-    if (error || !data) {
-      throw new NotFoundException('projects.findOne.notFound');
+    if (action === 'limited') {
+      throw new HttpException('projects.interaction.tooMany', HttpStatus.TOO_MANY_REQUESTS);
     }
 
-    await supabase
-      .from('projects')
-      .update({ view_count: (data.view_count || 0) + 1 })
-      .eq('id', projectId);
+    return { action };
   }
 
   /**
-   * Get project comments
+   * Get approved comments as a paginated tree (pagination applies to top-level comments)
    */
-  async getComments(projectId: string): Promise<IProjectComment[]> {
+  async getComments(
+    projectId: string,
+    queryDto: QueryCommentThreadDto = {},
+  ): Promise<ICommentsListResponse> {
     const supabase = this.getClient();
+    const {
+      page = this.DEFAULT_PAGE,
+      limit = this.DEFAULT_LIMIT,
+      sortBy = CommentSortBy.CREATED_AT,
+      sortOrder = CommentSortOrder.DESC,
+    } = queryDto;
 
-    const { data, error } = await supabase
+    const { data, error, count } = await supabase
       .from('project_comments')
       .select(
         `
         *,
-        users(id, first_name, last_name, avatar_url)
+        users!project_comments_user_id_fkey(id, first_name, last_name, avatar_url)
       `,
+        { count: 'exact' },
       )
       .eq('project_id', projectId)
       .eq('is_approved', true)
       .is('parent_id', null)
-      .order('created_at', { ascending: false });
+      .order(sortBy, { ascending: sortOrder === CommentSortOrder.ASC })
+      .range((page - 1) * limit, page * limit - 1);
 
     if (error) {
       throw new BadRequestException('projects.comments.fetchFailed');
     }
 
-    return (data || []).map((comment) => this.mapToComment(comment));
+    const comments = (data || []).map((comment) => this.mapToComment(comment));
+    await this.attachReplies(projectId, comments);
+
+    return {
+      comments,
+      total: count || 0,
+      page,
+      limit,
+      totalPages: Math.ceil((count || 0) / limit),
+    };
+  }
+
+  /**
+   * Load approved replies level by level (bounded by MAX_COMMENT_DEPTH)
+   */
+  private async attachReplies(projectId: string, roots: IProjectComment[]): Promise<void> {
+    const supabase = this.getClient();
+    let level = roots;
+
+    for (let depth = 1; depth <= this.MAX_COMMENT_DEPTH && level.length > 0; depth++) {
+      const { data, error } = await supabase
+        .from('project_comments')
+        .select(
+          `
+          *,
+          users!project_comments_user_id_fkey(id, first_name, last_name, avatar_url)
+        `,
+        )
+        .eq('project_id', projectId)
+        .eq('is_approved', true)
+        .in(
+          'parent_id',
+          level.map((comment) => comment.id),
+        )
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new BadRequestException('projects.comments.fetchFailed');
+      }
+
+      const children = (data || []).map((comment) => this.mapToComment(comment));
+      const childrenByParent = new Map<string, IProjectComment[]>();
+      for (const child of children) {
+        const siblings = childrenByParent.get(child.parentId as string) || [];
+        siblings.push(child);
+        childrenByParent.set(child.parentId as string, siblings);
+      }
+
+      for (const parent of level) {
+        parent.replies = childrenByParent.get(parent.id) || [];
+        parent.replyCount = parent.replies.length;
+      }
+
+      level = children;
+    }
+
+    // Deepest level has no replies by construction
+    for (const leaf of level) {
+      leaf.replies = leaf.replies || [];
+      leaf.replyCount = leaf.replyCount || 0;
+    }
   }
 
   /**
@@ -662,6 +918,34 @@ export class ProjectsService extends BaseService {
    */
   async createComment(createCommentDto: CreateCommentDto, userId: string): Promise<IProjectComment> {
     const supabase = this.getClient();
+    let depth = 0;
+
+    // Replies must target a live, approved comment on the same project, within the nesting limit
+    if (createCommentDto.parentId) {
+      const { data: parent } = await supabase
+        .from('project_comments')
+        .select('id, project_id, depth, is_approved, deleted_at')
+        .eq('id', createCommentDto.parentId)
+        .maybeSingle();
+
+      if (!parent || parent.project_id !== createCommentDto.projectId) {
+        throw new BadRequestException('projects.comments.invalidParent');
+      }
+
+      if (parent.deleted_at) {
+        throw new BadRequestException('projects.comments.parentDeleted');
+      }
+
+      if (!parent.is_approved) {
+        throw new BadRequestException('projects.comments.parentNotApproved');
+      }
+
+      depth = (parent.depth || 0) + 1;
+
+      if (depth > this.MAX_COMMENT_DEPTH) {
+        throw new BadRequestException('projects.comments.maxDepthExceeded');
+      }
+    }
 
     const { data, error } = await supabase
       .from('project_comments')
@@ -669,13 +953,14 @@ export class ProjectsService extends BaseService {
         project_id: createCommentDto.projectId,
         user_id: userId,
         parent_id: createCommentDto.parentId || null,
+        depth,
         content: createCommentDto.content,
         is_approved: false, // Requires admin approval
       })
       .select(
         `
         *,
-        users(id, first_name, last_name, avatar_url)
+        users!project_comments_user_id_fkey(id, first_name, last_name, avatar_url)
       `,
       )
       .single();
@@ -684,20 +969,7 @@ export class ProjectsService extends BaseService {
       throw new BadRequestException('projects.comments.createFailed');
     }
 
-    // Increment comment count
-    const { data: project } = await supabase
-      .from('projects')
-      .select('comment_count')
-      .eq('id', createCommentDto.projectId)
-      .single();
-
-    if (project) {
-      await supabase
-        .from('projects')
-        .update({ comment_count: project.comment_count + 1 })
-        .eq('id', createCommentDto.projectId);
-    }
-
+    // comment_count is only incremented once the comment is approved
     return this.mapToComment(data);
   }
 
@@ -710,7 +982,7 @@ export class ProjectsService extends BaseService {
     // Check ownership
     const { data: comment } = await supabase
       .from('project_comments')
-      .select('user_id, project_id')
+      .select('user_id, project_id, is_approved')
       .eq('id', commentId)
       .single();
 
@@ -718,25 +990,264 @@ export class ProjectsService extends BaseService {
       throw new BadRequestException('projects.comments.unauthorized');
     }
 
-    const { error } = await supabase.from('project_comments').delete().eq('id', commentId);
+    // Replies cascade on hard delete, so a comment with replies is only soft-deleted
+    const { count: replyCount } = await supabase
+      .from('project_comments')
+      .select('id', { count: 'exact', head: true })
+      .eq('parent_id', commentId);
+
+    // Both writes return the row they removed, so a comment deleted twice
+    // concurrently is only uncounted once
+    const { data: removed, error } = replyCount
+      ? await supabase
+          .from('project_comments')
+          .update({ content: '', deleted_at: new Date().toISOString() })
+          .eq('id', commentId)
+          .is('deleted_at', null)
+          .select('is_approved')
+      : await supabase.from('project_comments').delete().eq('id', commentId).select('is_approved');
 
     if (error) {
       throw new BadRequestException('projects.comments.deleteFailed');
     }
 
-    // Decrement comment count
-    const { data: project } = await supabase
-      .from('projects')
-      .select('comment_count')
-      .eq('id', comment.project_id)
-      .single();
+    // Only approved comments are counted
+    if (removed?.[0]?.is_approved) {
+      await this.adjustCommentCount(comment.project_id, -1);
+    }
+  }
+
+  // ========================================
+  // COMMENT MODERATION
+  // ========================================
 
-    if (project && project.comment_count > 0) {
-      await supabase
-        .from('projects')
-        .update({ comment_count: project.comment_count - 1 })
-        .eq('id', comment.project_id);
+  /**
+   * List comments for moderation (pending by default)
+   */
+  async getModerationComments(queryDto: QueryCommentDto): Promise<ICommentsListResponse> {
+    const supabase = this.getClient();
+    const {
+      page = this.DEFAULT_PAGE,
+      limit = this.DEFAULT_LIMIT,
+      search,
+      isApproved = false,
+      projectId,
+      sortBy = CommentSortBy.CREATED_AT,
+      sortOrder = CommentSortOrder.DESC,
+    } = queryDto;
+
+    let query = supabase
+      .from('project_comments')
+      .select(
+        `
+        *,
+        users!project_comments_user_id_fkey(id, first_name, last_name, avatar_url)
+      `,
+        { count: 'exact' },
+      )
+      .eq('is_approved', isApproved)
+      .is('deleted_at', null);
+
+    // Rejected comments are not part of the pending queue
+    if (!isApproved) {
+      query = query.is('rejected_at', null);
     }
+
+    if (projectId) query = query.eq('project_id', projectId);
+    if (search) query = query.ilike('content', `%${search}%`);
+
+    query = query
+      .order(sortBy, { ascending: sortOrder === CommentSortOrder.ASC })
+      .range((page - 1) * limit, page * limit - 1);
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      throw new BadRequestException('projects.comments.fetchFailed');
+    }
+
+    return {
+      comments: (data || []).map((comment) => this.mapToComment(comment)),
+      total: count || 0,
+      page,
+      limit,
+      totalPages: Math.ceil((count || 0) / limit),
+    };
+  }
+
+  /**
+   * Approve a comment and count it on its project
+   */
+  async approveComment(commentId: string, moderatorId: string): Promise<IProjectComment> {
+    const comment = await this.findCommentForModeration(commentId);
+
+    if (comment.is_approved) {
+      return this.mapToComment(comment);
+    }
+
+    const updated = await this.updateModeratedComment(
+      commentId,
+      {
+        is_approved: true,
+        rejection_reason: null,
+        rejected_at: null,
+        moderated_by: moderatorId,
+        moderated_at: new Date().toISOString(),
+      },
+      false,
+    );
+
+    // Approved concurrently: already counted
+    if (!updated) {
+      return this.mapToComment(await this.findCommentForModeration(commentId));
+    }
+
+    await this.adjustCommentCount(comment.project_id, 1);
+
+    return updated;
+  }
+
+  /**
+   * Reject a comment with an optional reason
+   */
+  async rejectComment(
+    commentId: string,
+    moderatorId: string,
+    reason?: string,
+  ): Promise<IProjectComment> {
+    const comment = await this.findCommentForModeration(commentId);
+    const now = new Date().toISOString();
+    const rejection = {
+      is_approved: false,
+      rejection_reason: reason || null,
+      rejected_at: now,
+      moderated_by: moderatorId,
+      moderated_at: now,
+    };
+
+    // Rejecting a previously approved comment removes it from the count
+    const unapproved = await this.updateModeratedComment(commentId, rejection, true);
+    if (unapproved) {
+      await this.adjustCommentCount(comment.project_id, -1);
+      return unapproved;
+    }
+
+    const updated = await this.updateModeratedComment(commentId, rejection, false);
+    if (!updated) {
+      throw new BadRequestException('projects.comments.moderationFailed');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Approve several comments at once
+   */
+  async bulkApproveComments(
+    commentIds: string[],
+    moderatorId: string,
+  ): Promise<{ approved: number }> {
+    const supabase = this.getClient();
+
+    const { data, error } = await supabase
+      .from('project_comments')
+      .update({
+        is_approved: true,
+        rejection_reason: null,
+        rejected_at: null,
+        moderated_by: moderatorId,
+        moderated_at: new Date().toISOString(),
+      })
+      .in('id', commentIds)
+      .eq('is_approved', false)
+      .is('deleted_at', null)
+      .select('id, project_id');
+
+    if (error) {
+      throw new BadRequestException('projects.comments.moderationFailed');
+    }
+
+    // Group newly approved comments per project to update counts once per project
+    const approvedPerProject = new Map<string, number>();
+    for (const row of data || []) {
+      approvedPerProject.set(row.project_id, (approvedPerProject.get(row.project_id) || 0) + 1);
+    }
+
+    for (const [projectId, delta] of approvedPerProject) {
+      await this.adjustCommentCount(projectId, delta);
+    }
+
+    return { approved: data?.length || 0 };
+  }
+
+  /**
+   * Load a comment row for moderation. Soft-deleted comments are no
+   * longer counted and cannot be moderated.
+   */
+  private async findCommentForModeration(commentId: string): Promise<any> {
+    const supabase = this.getClient();
+
+    const { data, error } = await supabase
+      .from('project_comments')
+      .select(
+        `
+        *,
+        users!project_comments_user_id_fkey(id, first_name, last_name, avatar_url)
+      `,
+      )
+      .eq('id', commentId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error || !data) {
+      throw new NotFoundException('projects.comments.notFound');
+    }
+
+    return data;
+  }
+
+  /**
+   * Persist moderation fields if the comment is not deleted and its
+   * is_approved still equals `wasApproved`. Returns the mapped comment, or null when it did not
+   * match (moderated concurrently), so counts follow the actual change.
+   */
+  private async updateModeratedComment(
+    commentId: string,
+    updateData: Record<string, any>,
+    wasApproved: boolean,
+  ): Promise<IProjectComment | null> {
+    const supabase = this.getClient();
+
+    const { data, error } = await supabase
+      .from('project_comments')
+      .update(updateData)
+      .eq('id', commentId)
+      .eq('is_approved', wasApproved)
+      .is('deleted_at', null)
+      .select(
+        `
+        *,
+        users!project_comments_user_id_fkey(id, first_name, last_name, avatar_url)
+      `,
+      )
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestException('projects.comments.moderationFailed');
+    }
+
+    return data ? this.mapToComment(data) : null;
+  }
+
+  /**
+   * Add delta to a project's comment_count in one statement (never below zero)
+   */
+  private async adjustCommentCount(projectId: string, delta: number): Promise<void> {
+    await this.getClient().rpc('adjust_project_count', {
+      project_id: projectId,
+      count_field: 'comment_count',
+      delta,
+    });
   }
 
   /**
@@ -748,6 +1259,10 @@ export class ProjectsService extends BaseService {
       userId: data.user_id,
       slug: data.slug,
       thumbnailUrl: data.thumbnail_url,
+      thumbnailWidth: data.thumbnail_width ?? null,
+      thumbnailHeight: data.thumbnail_height ?? null,
+      thumbnailBlurhash: data.thumbnail_blurhash ?? null,
+      thumbnailVariants: data.thumbnail_variants ?? [],
       projectType: data.project_type,
       status: data.status,
       orderIndex: data.order_index,
@@ -758,6 +1273,8 @@ export class ProjectsService extends BaseService {
       commentCount: data.comment_count,
       startDate: data.start_date,
       endDate: data.end_date,
+      publishAt: data.publish_at ?? null,
+      unpublishAt: data.unpublish_at ?? null,
       createdAt: data.created_at,
       updatedAt: data.updated_at,
       translations: data.project_translations
@@ -790,6 +1307,10 @@ export class ProjectsService extends BaseService {
         id: img.id,
         projectId: img.project_id,
         imageUrl: img.image_url,
+        width: img.width ?? null,
+        height: img.height ?? null,
+        blurhash: img.blurhash ?? null,
+        variants: img.variants ?? [],
         altText: img.alt_text,
         orderIndex: img.order_index,
         isPrimary: img.is_primary,
@@ -853,16 +1374,24 @@ export class ProjectsService extends BaseService {
    * Map database row to IProjectComment
    */
   private mapToComment(data: any): IProjectComment {
+    const isDeleted = !!data.deleted_at;
+
     return {
       id: data.id,
       projectId: data.project_id,
       userId: data.user_id,
       parentId: data.parent_id,
-      content: data.content,
+      depth: data.depth ?? 0,
+      content: isDeleted ? '' : data.content,
+      isDeleted,
       isApproved: data.is_approved,
+      rejectionReason: data.rejection_reason ?? null,
+      rejectedAt: data.rejected_at ?? null,
+      moderatedBy: data.moderated_by ?? null,
+      moderatedAt: data.moderated_at ?? null,
       createdAt: data.created_at,
       updatedAt: data.updated_at,
-      user: data.users
+      user: data.users && !isDeleted
         ? {
             id: data.users.id,
             firstName: data.users.first_name,
@@ -1,11 +1,18 @@
 import { ProjectStatus } from '../enums/project-status.enum';
 import { ProjectType } from '../enums/project-type.enum';
+import { LinkType } from '../enums/link-type.enum';
+import { ShareChannel } from '../enums/share-channel.enum';
+import { IImageVariant } from '../../../core/types/image.types';
 
 export interface IProject {
   id: string;
   userId: string;
   slug: string;
   thumbnailUrl: string | null;
+  thumbnailWidth: number | null;
+  thumbnailHeight: number | null;
+  thumbnailBlurhash: string | null;
+  thumbnailVariants: IImageVariant[];
   projectType: ProjectType;
   status: ProjectStatus;
   orderIndex: number;
@@ -16,6 +23,8 @@ export interface IProject {
   commentCount: number;
   startDate: string | null;
   endDate: string | null;
+  publishAt: string | null;
+  unpublishAt: string | null;
   createdAt: string;
   updatedAt: string;
   // Relations
@@ -44,6 +53,10 @@ export interface IProjectImage {
   id: string;
   projectId: string;
   imageUrl: string;
+  width: number | null;
+  height: number | null;
+  blurhash: string | null;
+  variants: IImageVariant[];
   altText: string | null;
   orderIndex: number;
   isPrimary: boolean;
@@ -89,7 +102,8 @@ export interface IProjectLink {
 export interface IProjectInteraction {
   id: string;
   projectId: string;
-  userId: string;
+  userId: string | null;
+  visitorId: string | null;
   interactionType: string;
   createdAt: string;
 }
@@ -99,8 +113,14 @@ export interface IProjectComment {
   projectId: string;
   userId: string;
   parentId: string | null;
+  depth: number;
   content: string;
+  isDeleted: boolean;
   isApproved: boolean;
+  rejectionReason: string | null;
+  rejectedAt: string | null;
+  moderatedBy: string | null;
+  moderatedAt: string | null;
   createdAt: string;
   updatedAt: string;
   // Relations
@@ -111,6 +131,7 @@ export interface IProjectComment {
     avatarUrl: string | null;
   };
   replies?: IProjectComment[];
+  replyCount?: number;
 }
 
 export interface IProjectsListResponse {
@@ -119,6 +140,18 @@ export interface IProjectsListResponse {
   page: number;
   limit: number;
   totalPages: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+/**
+ * Who is liking or sharing: a signed-in user, or an anonymous visitor
+ * (visitor id cookie + keyed hash of the client IP)
+ */
+export interface IInteractionActor {
+  userId: string | null;
+  visitorId: string | null;
+  ipHash: string | null;
 }
 
 export interface IProjectDetailResponse {
@@ -137,3 +170,106 @@ export interface ICommentsListResponse {
   totalPages: number;
 }
 
+/**
+ * Restorable state of a project, shaped like UpdateProjectDto
+ */
+export interface IProjectSnapshot {
+  projectType: ProjectType;
+  status: ProjectStatus;
+  orderIndex: number;
+  isFeatured: boolean;
+  startDate: string | null;
+  endDate: string | null;
+  publishAt: string | null;
+  unpublishAt: string | null;
+  translations: {
+    locale: string;
+    title: string;
+    description: string | null;
+    shortDescription: string | null;
+    content: string | null;
+    metaTitle: string | null;
+    metaDescription: string | null;
+  }[];
+  technologyIds: string[];
+  categoryIds: string[];
+  links: {
+    linkType: LinkType;
+    url: string;
+    label: string | null;
+    icon: string | null;
+    orderIndex: number;
+  }[];
+}
+
+export interface IProjectRevision {
+  id: string;
+  projectId: string;
+  revisionNumber: number;
+  createdBy: string | null;
+  restoredFrom: string | null;
+  createdAt: string;
+  snapshot?: IProjectSnapshot;
+}
+
+export interface IProjectRevisionChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface IProjectRevisionDiff {
+  from: number;
+  to: number;
+  // Keyed by field path, e.g. `translations.en.title` or `links[0].url`
+  changes: Record<string, IProjectRevisionChange>;
+}
+
+export interface IScheduledTransitions {
+  published: number;
+  unpublished: number;
+}
+
+export interface IProjectVisitor {
+  ipAddress: string | null;
+  userAgent: string | null;
+  isBot: boolean;
+}
+
+export interface IProjectAnalyticsTotals {
+  views: number;
+  likes: number;
+  shares: number;
+}
+
+export interface IProjectDailyAnalytics extends IProjectAnalyticsTotals {
+  // UTC day, YYYY-MM-DD
+  date: string;
+}
+
+export interface IProjectAnalytics {
+  projectId: string;
+  from: string;
+  to: string;
+  totals: IProjectAnalyticsTotals;
+  // Shares in the range per channel; `unknown` covers shares recorded
+  // before channels were tracked
+  sharesByChannel: Record<ShareChannel | 'unknown', number>;
+  daily: IProjectDailyAnalytics[];
+}
+
+export interface IProjectAnalyticsSummaryItem extends IProjectAnalyticsTotals {
+  projectId: string;
+  slug: string;
+  status: string;
+  // All-time counters from the project row
+  viewCount: number;
+  likeCount: number;
+  shareCount: number;
+}
+
+export interface IProjectAnalyticsSummary {
+  from: string;
+  to: string;
+  totals: IProjectAnalyticsTotals;
+  projects: IProjectAnalyticsSummaryItem[];
+}
@@ -0,0 +1,86 @@
+import type { CookieOptions, Request, Response } from 'express';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  VISITOR_ID_COOKIE_NAME,
+  VISITOR_ID_EXPIRATION_MS,
+} from '../../../constants/projects.constants';
+import { RequestUtil } from '../../../core/utils/request.util';
+
+/**
+ * Helpers for the signed anonymous visitor id cookie.
+ * The cookie holds `<uuid>.<signature>`; unsigned or tampered values
+ * are ignored so visitors cannot pick another visitor's id.
+ */
+export class VisitorCookieUtil {
+  /**
+   * The visitor id from a validly signed cookie, or null
+   */
+  static getVisitorId(req: Request): string | null {
+    const cookie = req?.cookies?.[VISITOR_ID_COOKIE_NAME];
+
+    if (typeof cookie !== 'string') {
+      return null;
+    }
+
+    const [visitorId, signature] = cookie.split('.');
+
+    if (!visitorId || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(visitorId));
+    const actual = Buffer.from(signature);
+
+    return expected.length === actual.length &&
+      timingSafeEqual(expected, actual)
+      ? visitorId
+      : null;
+  }
+
+  /**
+   * The current visitor id, issuing a new signed cookie if there is none
+   */
+  static ensureVisitorId(req: Request, res: Response): string {
+    const existing = this.getVisitorId(req);
+
+    if (existing) {
+      return existing;
+    }
+
+    const visitorId = randomUUID();
+    res.cookie(VISITOR_ID_COOKIE_NAME, `${visitorId}.${this.sign(visitorId)}`, {
+      ...this.getBaseOptions(),
+      httpOnly: true,
+      maxAge: VISITOR_ID_EXPIRATION_MS,
+    });
+
+    return visitorId;
+  }
+
+  /**
+   * Keyed hash of the client IP, used to cap anonymous likes per network
+   * without storing the address
+   */
+  static hashClientIp(req: Request): string {
+    return createHmac('sha256', process.env.JWT_SECRET || '')
+      .update(`project-like:${RequestUtil.getClientIp(req) || ''}`)
+      .digest('hex');
+  }
+
+  private static sign(visitorId: string): string {
+    return createHmac('sha256', process.env.JWT_SECRET || '')
+      .update(`visitor-id:${visitorId}`)
+      .digest('base64url');
+  }
+
+  private static getBaseOptions(): CookieOptions {
+    const sameSite = (process.env.AUTH_COOKIE_SAME_SITE ||
+      'lax') as CookieOptions['sameSite'];
+
+    return {
+      secure: process.env.NODE_ENV === 'production' || sameSite === 'none',
+      sameSite,
+      path: '/',
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import {
+  IsOptional,
+  IsString,
+  IsEnum,
+  IsNumber,
+  Min,
+  Max,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { SearchResultType } from '../enums/search-result-type.enum';
+
+export class SearchQueryDto {
+  @IsString()
+  @MinLength(2)
+  @MaxLength(200)
+  q: string;
+
+  // Defaults to the request language
+  @IsOptional()
+  @IsString()
+  locale?: string;
+
+  @IsOptional()
+  @IsEnum(SearchResultType)
+  type?: SearchResultType;
+
+  // Maximum results per type
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
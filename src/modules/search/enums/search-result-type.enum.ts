@@ -0,0 +1,7 @@
+export enum SearchResultType {
+  PROJECT = 'project',
+  SERVICE = 'service',
+  TESTIMONIAL = 'testimonial',
+  TECHNOLOGY = 'technology',
+  CATEGORY = 'category',
+}
@@ -0,0 +1,20 @@
+import { Controller, Get, Query, Request } from '@nestjs/common';
+import { SearchService } from './search.service';
+import { SearchQueryDto } from './dto/search-query.dto';
+import { ResponseUtil, StandardResponse } from '../../core/utils/response';
+import { RequestUtil } from '../../core/utils/request.util';
+
+@Controller('search')
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @Get()
+  async search(
+    @Query() queryDto: SearchQueryDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const lang = RequestUtil.getLanguage(req);
+    const result = await this.searchService.search(queryDto, lang);
+    return ResponseUtil.successSingle(result, 'search.success', lang);
+  }
+}
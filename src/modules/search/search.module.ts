@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { SearchService } from './search.service';
+import { SearchController } from './search.controller';
+import { ClockService } from '../../core/services/clock.service';
+import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+
+@Module({
+  controllers: [SearchController],
+  providers: [SearchService, ClockService, SupabaseService],
+})
+export class SearchModule {}
@@ -0,0 +1,66 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { BaseService } from '../../core/services/base.service';
+import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+import { ClockService } from '../../core/services/clock.service';
+import { SearchQueryDto } from './dto/search-query.dto';
+import { SearchResultType } from './enums/search-result-type.enum';
+import { ISearchResponse, ISearchResult } from './types/search.types';
+
+/**
+ * Full-text search over public content. Ranking, snippets and Arabic
+ * normalisation happen in the search_content database function.
+ */
+@Injectable()
+export class SearchService extends BaseService {
+  private readonly DEFAULT_LIMIT = 10;
+
+  constructor(
+    supabaseService: SupabaseService,
+    private clockService: ClockService,
+  ) {
+    super(supabaseService);
+  }
+
+  async search(
+    queryDto: SearchQueryDto,
+    defaultLocale: string,
+  ): Promise<ISearchResponse> {
+    const { q, type, limit = this.DEFAULT_LIMIT } = queryDto;
+    const query = q.trim();
+    const locale = queryDto.locale || defaultLocale;
+
+    const { data, error } = await this.getClient().rpc('search_content', {
+      p_query: query,
+      p_locale: locale,
+      p_type: type ?? null,
+      p_limit: limit,
+      p_now: this.clockService.now().toISOString(),
+    });
+
+    if (error) {
+      throw new BadRequestException('search.failed');
+    }
+
+    const results = Object.values(SearchResultType).reduce(
+      (groups, resultType) => ({ ...groups, [resultType]: [] }),
+      {} as Record<SearchResultType, ISearchResult[]>,
+    );
+
+    for (const row of (data || []) as any[]) {
+      results[row.result_type as SearchResultType]?.push({
+        id: row.id,
+        slug: row.slug,
+        title: row.title,
+        snippet: row.snippet,
+        rank: row.rank,
+      });
+    }
+
+    return {
+      query,
+      locale,
+      total: (data || []).length,
+      results,
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import { SearchResultType } from '../enums/search-result-type.enum';
+
+export interface ISearchResult {
+  id: string;
+  slug: string | null;
+  title: string;
+  // HTML-escaped excerpt of the original text, terms wrapped in <mark></mark>
+  snippet: string;
+  rank: number;
+}
+
+export interface ISearchResponse {
+  query: string;
+  locale: string;
+  total: number;
+  results: Record<SearchResultType, ISearchResult[]>;
+}
@@ -40,6 +40,11 @@ export class QueryServiceDto {
   @Type(() => Number)
   limit?: number;
 
+  // Opaque cursor from a previous response's meta, used instead of page
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
   @IsOptional()
   @IsEnum(ServiceSortBy)
   sortBy?: ServiceSortBy;
@@ -17,16 +17,29 @@ import { CreateServiceDto } from './dto/create-service.dto';
 import { UpdateServiceDto } from './dto/update-service.dto';
 import { QueryServiceDto } from './dto/query-service.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Audited } from '../audit-logs/decorators/audited.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
 import { ResponseUtil, StandardResponse } from '../../core/utils/response';
 import { RequestUtil } from '../../core/utils/request.util';
+import { ReorderDto } from '../../core/dto/reorder.dto';
+
+const SERVICE_AUDIT = {
+  entityType: 'service',
+  table: 'services',
+  select: '*, service_translations(*)',
+};
 
 @Controller('services')
 export class ServicesController {
   constructor(private readonly servicesService: ServicesService) {}
 
   @Post()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.CREATED)
+  @Audited(SERVICE_AUDIT)
   async create(
     @Body() createDto: CreateServiceDto,
     @Request() req: any,
@@ -50,6 +63,7 @@ export class ServicesController {
       result.limit,
       'services.findAll.success',
       lang,
+      { nextCursor: result.nextCursor, prevCursor: result.prevCursor },
     );
   }
 
@@ -67,8 +81,23 @@ export class ServicesController {
     return ResponseUtil.successSingle(service, 'services.findOne.success', lang);
   }
 
+  @Patch('reorder')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...SERVICE_AUDIT, action: 'reorder' })
+  async reorder(
+    @Body() reorderDto: ReorderDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    await this.servicesService.reorder(reorderDto.ids);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(null, 'services.reorder.success', lang, false);
+  }
+
   @Patch(':id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...SERVICE_AUDIT, param: 'id' })
   async update(
     @Param('id') id: string,
     @Body() updateDto: UpdateServiceDto,
@@ -80,8 +109,10 @@ export class ServicesController {
   }
 
   @Delete(':id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.NO_CONTENT)
+  @Audited({ ...SERVICE_AUDIT, param: 'id' })
   async remove(@Param('id') id: string, @Request() req: any): Promise<StandardResponse<any>> {
     await this.servicesService.remove(id);
     const lang = RequestUtil.getLanguage(req);
@@ -5,6 +5,7 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { BaseService } from '../../core/services/base.service';
+import { CursorUtil } from '../../core/utils/cursor.util';
 import { CreateServiceDto } from './dto/create-service.dto';
 import { UpdateServiceDto } from './dto/update-service.dto';
 import { QueryServiceDto, ServiceSortBy, SortOrder } from './dto/query-service.dto';
@@ -87,6 +88,7 @@ export class ServicesService extends BaseService {
       locale = 'en',
       sortBy = ServiceSortBy.ORDER_INDEX,
       sortOrder = SortOrder.ASC,
+      cursor,
     } = queryDto;
 
     let query = supabase
@@ -111,14 +113,17 @@ export class ServicesService extends BaseService {
       query = query.or(`translations.name.ilike.%${search}%,translations.description.ilike.%${search}%`);
     }
 
-    // Sort
+    // Sort and paginate
     const ascending = sortOrder === SortOrder.ASC;
-    query = query.order(sortBy, { ascending });
-
-    // Pagination
-    const from = (page - 1) * limit;
-    const to = from + limit - 1;
-    query = query.range(from, to);
+    const pagination = {
+      sort: { column: sortBy, ascending },
+      limit,
+      page,
+      cursor: cursor
+        ? CursorUtil.decode(cursor, { column: sortBy, ascending })
+        : null,
+    };
+    query = CursorUtil.paginate(query, pagination);
 
     const { data, error, count } = await query;
 
@@ -126,13 +131,20 @@ export class ServicesService extends BaseService {
       throw new BadRequestException('services.findAll.failed');
     }
 
-    const services = (data || []).map((item) => this.mapToService(item, locale));
+    const { rows, nextCursor, prevCursor } = CursorUtil.toPage(
+      data || [],
+      pagination,
+      count || 0,
+    );
+    const services = rows.map((item) => this.mapToService(item, locale));
 
     return {
       services,
       total: count || 0,
       page,
       limit,
+      nextCursor,
+      prevCursor,
     };
   }
 
@@ -180,6 +192,13 @@ export class ServicesService extends BaseService {
     return this.mapToService(data, locale);
   }
 
+  /**
+   * Renumber services in the given order
+   */
+  async reorder(ids: string[]): Promise<void> {
+    await this.reorderRows('services', ids);
+  }
+
   /**
    * Update a service
    */
@@ -25,4 +25,6 @@ export interface IServicesListResponse {
   total: number;
   page: number;
   limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
 }
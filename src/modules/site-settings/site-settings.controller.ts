@@ -20,6 +20,10 @@ import {
   UpdateSiteSettingTranslationDto,
 } from './dto/update-site-setting.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Audited } from '../audit-logs/decorators/audited.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
 import {
   ResponseUtil,
   StandardResponse,
@@ -27,6 +31,13 @@ import {
 } from '../../core/utils/response';
 import { RequestUtil } from '../../core/utils/request.util';
 
+const SITE_SETTING_AUDIT = {
+  entityType: 'site_setting',
+  table: 'site_settings',
+  column: 'key',
+  select: '*, site_setting_translations(*)',
+};
+
 @Controller('site-settings')
 export class SiteSettingsController {
   constructor(private readonly siteSettingsService: SiteSettingsService) {}
@@ -51,7 +62,8 @@ export class SiteSettingsController {
   }
 
   @Get('settings')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   async getAllSiteSettings(
     @Request() req: any,
   ): Promise<StandardResponse<any>> {
@@ -68,7 +80,9 @@ export class SiteSettingsController {
   }
 
   @Patch('settings/:key')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...SITE_SETTING_AUDIT, param: 'key' })
   async updateSiteSetting(
     @Param('key') key: string,
     @Body() updateDto: UpdateSiteSettingDto,
@@ -87,7 +101,9 @@ export class SiteSettingsController {
   }
 
   @Patch('settings/:key/translations')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...SITE_SETTING_AUDIT, param: 'key' })
   async updateSiteSettingTranslation(
     @Param('key') key: string,
     @Body() translationDto: UpdateSiteSettingTranslationDto,
@@ -110,7 +126,9 @@ export class SiteSettingsController {
   // =====================================================
 
   @Post('cv/upload')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...SITE_SETTING_AUDIT, value: 'cv', action: 'upload_cv' })
   @UseInterceptors(FileInterceptor('file'))
   @HttpCode(HttpStatus.OK)
   async uploadCV(
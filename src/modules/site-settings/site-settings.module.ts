@@ -2,10 +2,11 @@ import { Module } from '@nestjs/common';
 import { SiteSettingsService } from './site-settings.service';
 import { SiteSettingsController } from './site-settings.controller';
 import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+import { StorageService } from '../../core/lib/storage/storage.service';
 
 @Module({
   controllers: [SiteSettingsController],
-  providers: [SiteSettingsService, SupabaseService],
+  providers: [SiteSettingsService, StorageService, SupabaseService],
   exports: [SiteSettingsService],
 })
 export class SiteSettingsModule {}
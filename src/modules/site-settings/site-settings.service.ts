@@ -4,6 +4,8 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { BaseService } from '../../core/services/base.service';
+import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+import { StorageService } from '../../core/lib/storage/storage.service';
 import {
   UpdateSiteSettingDto,
   UpdateSiteSettingTranslationDto,
@@ -12,6 +14,13 @@ import { ISiteSetting } from './types/site-settings.types';
 
 @Injectable()
 export class SiteSettingsService extends BaseService {
+  constructor(
+    supabaseService: SupabaseService,
+    private storageService: StorageService,
+  ) {
+    super(supabaseService);
+  }
+
   // =====================================================
   // SITE SETTINGS (GitHub, Hero, Statistics, About, Footer)
   // =====================================================
@@ -179,36 +188,31 @@ export class SiteSettingsService extends BaseService {
     const filePath = `cv/${fileName}`;
 
     // Delete old CV if exists
-    const { data: oldFiles } = await supabase.storage
-      .from('cv-files')
-      .list('cv', {
-        limit: 100,
-        sortBy: { column: 'created_at', order: 'desc' },
-      });
+    const oldFiles = await this.storageService
+      .list('cv-files', 'cv')
+      .catch(() => []);
 
-    if (oldFiles && oldFiles.length > 0) {
+    if (oldFiles.length > 0) {
       // Delete all old CV files
-      const oldFilePaths = oldFiles.map((f) => `cv/${f.name}`);
-      await supabase.storage.from('cv-files').remove(oldFilePaths);
+      await this.storageService
+        .delete(
+          'cv-files',
+          oldFiles.map((f) => f.path),
+        )
+        .catch(() => undefined);
     }
 
     // Upload new CV
-    const { error: uploadError } = await supabase.storage
-      .from('cv-files')
-      .upload(filePath, file.buffer, {
+    try {
+      await this.storageService.put('cv-files', filePath, file.buffer, {
         contentType: file.mimetype,
-        upsert: false,
       });
-
-    if (uploadError) {
+    } catch {
       throw new BadRequestException('siteSettings.cv.uploadFailed');
     }
 
     // Get public URL
-    const { data: urlData } = supabase.storage
-      .from('cv-files')
-      .getPublicUrl(filePath);
-    const cvUrl = urlData.publicUrl;
+    const cvUrl = this.storageService.publicUrl('cv-files', filePath);
 
     // Update CV setting with new URL and filename
     const { data: cvSetting } = await supabase
@@ -0,0 +1,8 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class RunStorageCleanupDto {
+  // Delete the orphaned objects; only report them when false
+  @IsOptional()
+  @IsBoolean()
+  purge?: boolean;
+}
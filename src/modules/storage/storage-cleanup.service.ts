@@ -0,0 +1,220 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { BaseService } from '../../core/services/base.service';
+import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+import { StorageService } from '../../core/lib/storage/storage.service';
+import { IStorageObject } from '../../core/lib/storage/storage.types';
+import { ClockService } from '../../core/services/clock.service';
+import { RunStorageCleanupDto } from './dto/run-storage-cleanup.dto';
+import {
+  IStorageCleanupBucketReport,
+  IStorageCleanupReport,
+  IStorageLocation,
+} from './types/storage-cleanup.types';
+
+/**
+ * Storage garbage collection: finds bucket objects that no database row
+ * references (left behind by failed uploads, URLs replaced by hand or
+ * deletes that could not reach storage) and optionally deletes them.
+ */
+@Injectable()
+export class StorageCleanupService extends BaseService {
+  // Uploads are stored before their row is written
+  private readonly MIN_AGE_MINUTES = 60;
+  private readonly ROW_PAGE_SIZE = 1000;
+  private readonly LIST_PAGE_SIZE = 100;
+
+  private readonly LOCATIONS: IStorageLocation[] = [
+    {
+      bucket: 'project-thumbnails',
+      prefix: 'thumbnails',
+      table: 'projects',
+      urlColumn: 'thumbnail_url',
+      variantsColumn: 'thumbnail_variants',
+    },
+    {
+      bucket: 'project-images',
+      prefix: 'projects',
+      table: 'project_images',
+      urlColumn: 'image_url',
+      variantsColumn: 'variants',
+    },
+    {
+      bucket: 'avatars',
+      prefix: 'avatars',
+      table: 'users',
+      urlColumn: 'avatar_url',
+      variantsColumn: 'avatar_variants',
+    },
+    {
+      bucket: 'testimonial-avatars',
+      prefix: 'avatars',
+      table: 'testimonials',
+      urlColumn: 'avatar_url',
+      variantsColumn: 'avatar_variants',
+    },
+    {
+      bucket: 'cv-files',
+      prefix: 'cv',
+      table: 'site_settings',
+      urlColumn: 'value->>url',
+    },
+  ];
+
+  constructor(
+    supabaseService: SupabaseService,
+    private storageService: StorageService,
+    private clockService: ClockService,
+  ) {
+    super(supabaseService);
+  }
+
+  async run(dto: RunStorageCleanupDto): Promise<IStorageCleanupReport> {
+    const purge = dto.purge ?? false;
+    const cutoff =
+      this.clockService.now().getTime() - this.MIN_AGE_MINUTES * 60 * 1000;
+    const buckets: IStorageCleanupBucketReport[] = [];
+
+    for (const location of this.LOCATIONS) {
+      buckets.push(await this.cleanLocation(location, cutoff, purge));
+    }
+
+    return {
+      purged: purge,
+      minAgeMinutes: this.MIN_AGE_MINUTES,
+      totals: {
+        scanned: this.sum(buckets, 'scanned'),
+        orphaned: this.sum(buckets, 'orphaned'),
+        orphanedBytes: this.sum(buckets, 'orphanedBytes'),
+      },
+      buckets,
+    };
+  }
+
+  private async cleanLocation(
+    location: IStorageLocation,
+    cutoff: number,
+    purge: boolean,
+  ): Promise<IStorageCleanupBucketReport> {
+    // Read references first: an object uploaded in between is too
+    // young to be collected anyway
+    const referenced = await this.getReferencedPaths(location);
+    const objects = await this.listObjects(location);
+
+    const orphans = objects.filter(
+      (object) =>
+        !referenced.has(object.path) &&
+        object.createdAt !== null &&
+        Date.parse(object.createdAt) <= cutoff,
+    );
+
+    if (purge) {
+      for (let i = 0; i < orphans.length; i += this.LIST_PAGE_SIZE) {
+        const paths = orphans
+          .slice(i, i + this.LIST_PAGE_SIZE)
+          .map((object) => object.path);
+
+        try {
+          await this.storageService.delete(location.bucket, paths);
+        } catch {
+          throw new BadRequestException('storage.cleanup.failed');
+        }
+      }
+    }
+
+    return {
+      bucket: location.bucket,
+      prefix: location.prefix,
+      scanned: objects.length,
+      orphaned: orphans.length,
+      orphanedBytes: orphans.reduce(
+        (bytes, object) => bytes + (object.size ?? 0),
+        0,
+      ),
+      objects: orphans.map(({ path, size, createdAt }) => ({
+        path,
+        size,
+        createdAt,
+      })),
+    };
+  }
+
+  /**
+   * Storage paths of every URL the location's table points to. Any read
+   * error aborts the run: a partial set would report live files.
+   */
+  private async getReferencedPaths(
+    location: IStorageLocation,
+  ): Promise<Set<string>> {
+    const select = location.variantsColumn
+      ? `url:${location.urlColumn}, variants:${location.variantsColumn}`
+      : `url:${location.urlColumn}`;
+    const paths = new Set<string>();
+
+    for (let from = 0; ; from += this.ROW_PAGE_SIZE) {
+      const { data, error } = await this.getClient()
+        .from(location.table)
+        .select(select)
+        .order('id')
+        .range(from, from + this.ROW_PAGE_SIZE - 1);
+
+      if (error || !data) {
+        throw new BadRequestException('storage.cleanup.failed');
+      }
+
+      for (const row of data as any[]) {
+        const urls: Array<string | null> = [
+          row.url,
+          ...(row.variants || []).map(
+            (variant: { url: string }) => variant.url,
+          ),
+        ];
+
+        for (const url of urls) {
+          const path = url
+            ? this.storageService.pathFromUrl(location.bucket, url)
+            : null;
+          if (path) {
+            paths.add(path);
+          }
+        }
+      }
+
+      if (data.length < this.ROW_PAGE_SIZE) {
+        return paths;
+      }
+    }
+  }
+
+  private async listObjects(
+    location: IStorageLocation,
+  ): Promise<IStorageObject[]> {
+    const objects: IStorageObject[] = [];
+
+    for (let offset = 0; ; offset += this.LIST_PAGE_SIZE) {
+      let page: IStorageObject[];
+
+      try {
+        page = await this.storageService.list(
+          location.bucket,
+          location.prefix,
+          { limit: this.LIST_PAGE_SIZE, offset },
+        );
+      } catch {
+        throw new BadRequestException('storage.cleanup.failed');
+      }
+
+      objects.push(...page);
+
+      if (page.length < this.LIST_PAGE_SIZE) {
+        return objects;
+      }
+    }
+  }
+
+  private sum(
+    buckets: IStorageCleanupBucketReport[],
+    field: 'scanned' | 'orphaned' | 'orphanedBytes',
+  ): number {
+    return buckets.reduce((total, bucket) => total + bucket[field], 0);
+  }
+}
@@ -0,0 +1,40 @@
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { StorageCleanupService } from './storage-cleanup.service';
+import { RunStorageCleanupDto } from './dto/run-storage-cleanup.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
+import { ResponseUtil, StandardResponse } from '../../core/utils/response';
+import { RequestUtil } from '../../core/utils/request.util';
+
+@Controller('storage')
+export class StorageController {
+  constructor(private readonly storageCleanupService: StorageCleanupService) {}
+
+  @Post('cleanup')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async cleanup(
+    @Body() dto: RunStorageCleanupDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const lang = RequestUtil.getLanguage(req);
+    const report = await this.storageCleanupService.run(dto);
+    return ResponseUtil.successSingle(
+      report,
+      'storage.cleanup.success',
+      lang,
+      false,
+    );
+  }
+}
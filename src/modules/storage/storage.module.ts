@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { StorageCleanupService } from './storage-cleanup.service';
+import { StorageController } from './storage.controller';
+import { StorageService } from '../../core/lib/storage/storage.service';
+import { ClockService } from '../../core/services/clock.service';
+import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+
+@Module({
+  controllers: [StorageController],
+  providers: [
+    StorageCleanupService,
+    StorageService,
+    ClockService,
+    SupabaseService,
+  ],
+})
+export class StorageModule {}
@@ -0,0 +1,39 @@
+/**
+ * A bucket folder the cleanup scans, and the column(s) of the table
+ * whose rows reference its objects by public URL
+ */
+export interface IStorageLocation {
+  bucket: string;
+  prefix: string;
+  table: string;
+  // PostgREST column or JSON path holding the URL
+  urlColumn: string;
+  // JSONB array of { url } variants, when the table stores any
+  variantsColumn?: string;
+}
+
+export interface IOrphanedObject {
+  path: string;
+  size: number | null;
+  createdAt: string | null;
+}
+
+export interface IStorageCleanupTotals {
+  scanned: number;
+  orphaned: number;
+  orphanedBytes: number;
+}
+
+export interface IStorageCleanupBucketReport extends IStorageCleanupTotals {
+  bucket: string;
+  prefix: string;
+  objects: IOrphanedObject[];
+}
+
+export interface IStorageCleanupReport {
+  purged: boolean;
+  // Objects younger than this are never reported (uploads in progress)
+  minAgeMinutes: number;
+  totals: IStorageCleanupTotals;
+  buckets: IStorageCleanupBucketReport[];
+}
@@ -15,8 +15,18 @@ import { TechnologiesService } from './technologies.service';
 import { CreateTechnologyDto } from './dto/create-technology.dto';
 import { UpdateTechnologyDto } from './dto/update-technology.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Audited } from '../audit-logs/decorators/audited.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
 import { ResponseUtil, StandardResponse } from '../../core/utils/response';
 import { RequestUtil } from '../../core/utils/request.util';
+import { ReorderDto } from '../../core/dto/reorder.dto';
+
+const TECHNOLOGY_AUDIT = {
+  entityType: 'technology',
+  table: 'technologies',
+};
 
 @Controller('technologies')
 export class TechnologiesController {
@@ -47,8 +57,10 @@ export class TechnologiesController {
   }
 
   @Post()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.CREATED)
+  @Audited(TECHNOLOGY_AUDIT)
   async create(
     @Body() createDto: CreateTechnologyDto,
     @Request() req: any,
@@ -58,8 +70,23 @@ export class TechnologiesController {
     return ResponseUtil.successSingle(technology, 'technologies.create.success', lang);
   }
 
+  @Patch('reorder')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...TECHNOLOGY_AUDIT, action: 'reorder' })
+  async reorder(
+    @Body() reorderDto: ReorderDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    await this.technologiesService.reorder(reorderDto.ids);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(null, 'technologies.reorder.success', lang, false);
+  }
+
   @Patch(':id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...TECHNOLOGY_AUDIT, param: 'id' })
   async update(
     @Param('id') id: string,
     @Body() updateDto: UpdateTechnologyDto,
@@ -71,8 +98,10 @@ export class TechnologiesController {
   }
 
   @Delete(':id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.NO_CONTENT)
+  @Audited({ ...TECHNOLOGY_AUDIT, param: 'id' })
   async remove(@Param('id') id: string, @Request() req: any): Promise<StandardResponse<any>> {
     await this.technologiesService.remove(id);
     const lang = RequestUtil.getLanguage(req);
@@ -87,6 +87,10 @@ export class TechnologiesService extends BaseService {
     return this.mapToTechnology(technology);
   }
 
+  async reorder(ids: string[]): Promise<void> {
+    await this.reorderRows('technologies', ids);
+  }
+
   async update(id: string, updateDto: UpdateTechnologyDto): Promise<ITechnology> {
     const supabase = this.getClient();
 
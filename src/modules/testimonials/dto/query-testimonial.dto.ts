@@ -48,6 +48,11 @@ export class QueryTestimonialDto {
   @IsNumber()
   limit?: number;
 
+  // Opaque cursor from a previous response's meta, used instead of page
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
   @IsOptional()
   @IsEnum(TestimonialSortBy)
   sortBy?: TestimonialSortBy;
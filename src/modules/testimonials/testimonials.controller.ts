@@ -20,16 +20,29 @@ import { CreateTestimonialDto } from './dto/create-testimonial.dto';
 import { UpdateTestimonialDto } from './dto/update-testimonial.dto';
 import { QueryTestimonialDto } from './dto/query-testimonial.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Audited } from '../audit-logs/decorators/audited.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
 import { ResponseUtil, StandardResponse } from '../../core/utils/response';
 import { RequestUtil } from '../../core/utils/request.util';
+import { ReorderDto } from '../../core/dto/reorder.dto';
+
+const TESTIMONIAL_AUDIT = {
+  entityType: 'testimonial',
+  table: 'testimonials',
+  select: '*, testimonial_translations(*)',
+};
 
 @Controller('testimonials')
 export class TestimonialsController {
   constructor(private readonly testimonialsService: TestimonialsService) {}
 
   @Post()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.CREATED)
+  @Audited(TESTIMONIAL_AUDIT)
   async create(
     @Body() createDto: CreateTestimonialDto,
     @Request() req: any,
@@ -53,6 +66,7 @@ export class TestimonialsController {
       result.limit,
       'testimonials.findAll.success',
       lang,
+      { nextCursor: result.nextCursor, prevCursor: result.prevCursor },
     );
   }
 
@@ -63,8 +77,23 @@ export class TestimonialsController {
     return ResponseUtil.successSingle(testimonial, 'testimonials.findOne.success', lang);
   }
 
+  @Patch('reorder')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...TESTIMONIAL_AUDIT, action: 'reorder' })
+  async reorder(
+    @Body() reorderDto: ReorderDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    await this.testimonialsService.reorder(reorderDto.ids);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(null, 'testimonials.reorder.success', lang, false);
+  }
+
   @Patch(':id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...TESTIMONIAL_AUDIT, param: 'id' })
   async update(
     @Param('id') id: string,
     @Body() updateDto: UpdateTestimonialDto,
@@ -76,8 +105,10 @@ export class TestimonialsController {
   }
 
   @Delete(':id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.NO_CONTENT)
+  @Audited({ ...TESTIMONIAL_AUDIT, param: 'id' })
   async remove(@Param('id') id: string, @Request() req: any): Promise<StandardResponse<any>> {
     await this.testimonialsService.remove(id);
     const lang = RequestUtil.getLanguage(req);
@@ -89,7 +120,9 @@ export class TestimonialsController {
   // ========================================
 
   @Post(':id/avatar')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...TESTIMONIAL_AUDIT, param: 'id', action: 'update_avatar' })
   @UseInterceptors(
     FileInterceptor('file', {
       storage: undefined,
@@ -2,10 +2,12 @@ import { Module } from '@nestjs/common';
 import { TestimonialsService } from './testimonials.service';
 import { TestimonialsController } from './testimonials.controller';
 import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+import { StorageService } from '../../core/lib/storage/storage.service';
+import { ImageProcessingService } from '../../core/services/image-processing.service';
 
 @Module({
   controllers: [TestimonialsController],
-  providers: [TestimonialsService, SupabaseService],
+  providers: [TestimonialsService, ImageProcessingService, StorageService, SupabaseService],
   exports: [TestimonialsService],
 })
 export class TestimonialsModule {}
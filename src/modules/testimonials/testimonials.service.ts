@@ -4,6 +4,9 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { BaseService } from '../../core/services/base.service';
+import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+import { ImageProcessingService } from '../../core/services/image-processing.service';
+import { CursorUtil } from '../../core/utils/cursor.util';
 import { CreateTestimonialDto } from './dto/create-testimonial.dto';
 import { UpdateTestimonialDto } from './dto/update-testimonial.dto';
 import { QueryTestimonialDto, TestimonialSortBy, SortOrder } from './dto/query-testimonial.dto';
@@ -17,6 +20,13 @@ export class TestimonialsService extends BaseService {
   private readonly DEFAULT_PAGE = 1;
   private readonly DEFAULT_LIMIT = 10;
 
+  constructor(
+    supabaseService: SupabaseService,
+    private imageProcessingService: ImageProcessingService,
+  ) {
+    super(supabaseService);
+  }
+
   /**
    * Create a new testimonial with translations
    */
@@ -82,6 +92,7 @@ export class TestimonialsService extends BaseService {
       locale = 'en',
       sortBy = TestimonialSortBy.ORDER_INDEX,
       sortOrder = SortOrder.ASC,
+      cursor,
     } = queryDto;
 
     let query = supabase
@@ -106,14 +117,17 @@ export class TestimonialsService extends BaseService {
       query = query.or(`translations.content.ilike.%${search}%,translations.author_name.ilike.%${search}%,translations.company.ilike.%${search}%`);
     }
 
-    // Sort
+    // Sort and paginate
     const ascending = sortOrder === SortOrder.ASC;
-    query = query.order(sortBy, { ascending });
-
-    // Pagination
-    const from = (page - 1) * limit;
-    const to = from + limit - 1;
-    query = query.range(from, to);
+    const pagination = {
+      sort: { column: sortBy, ascending },
+      limit,
+      page,
+      cursor: cursor
+        ? CursorUtil.decode(cursor, { column: sortBy, ascending })
+        : null,
+    };
+    query = CursorUtil.paginate(query, pagination);
 
     const { data, error, count } = await query;
 
@@ -121,13 +135,20 @@ export class TestimonialsService extends BaseService {
       throw new BadRequestException('testimonials.findAll.failed');
     }
 
-    const testimonials = (data || []).map((item) => this.mapToTestimonial(item, locale));
+    const { rows, nextCursor, prevCursor } = CursorUtil.toPage(
+      data || [],
+      pagination,
+      count || 0,
+    );
+    const testimonials = rows.map((item) => this.mapToTestimonial(item, locale));
 
     return {
       testimonials,
       total: count || 0,
       page,
       limit,
+      nextCursor,
+      prevCursor,
     };
   }
 
@@ -153,6 +174,13 @@ export class TestimonialsService extends BaseService {
     return this.mapToTestimonial(data, locale);
   }
 
+  /**
+   * Renumber testimonials in the given order
+   */
+  async reorder(ids: string[]): Promise<void> {
+    await this.reorderRows('testimonials', ids);
+  }
+
   /**
    * Update a testimonial
    */
@@ -164,7 +192,16 @@ export class TestimonialsService extends BaseService {
 
     // Update testimonial
     const updateData: any = {};
-    if (updateDto.avatarUrl !== undefined) updateData.avatar_url = updateDto.avatarUrl;
+    if (updateDto.avatarUrl !== undefined) {
+      // A URL set by hand has no processed variants
+      Object.assign(updateData, {
+        avatar_url: updateDto.avatarUrl,
+        avatar_width: null,
+        avatar_height: null,
+        avatar_blurhash: null,
+        avatar_variants: [],
+      });
+    }
     if (updateDto.rating !== undefined) updateData.rating = updateDto.rating;
     if (updateDto.isFeatured !== undefined) updateData.is_featured = updateDto.isFeatured;
     if (updateDto.isApproved !== undefined) updateData.is_approved = updateDto.isApproved;
@@ -218,7 +255,7 @@ export class TestimonialsService extends BaseService {
     const supabase = this.getClient();
 
     // Check if exists
-    await this.findOne(id);
+    const testimonial = await this.findOne(id);
 
     const { error } = await supabase
       .from('testimonials')
@@ -228,6 +265,12 @@ export class TestimonialsService extends BaseService {
     if (error) {
       throw new BadRequestException('testimonials.delete.failed');
     }
+
+    await this.imageProcessingService.remove(
+      'testimonial-avatars',
+      testimonial.avatarUrl,
+      testimonial.avatarVariants,
+    );
   }
 
   /**
@@ -240,6 +283,10 @@ export class TestimonialsService extends BaseService {
     return {
       id: data.id,
       avatarUrl: data.avatar_url,
+      avatarWidth: data.avatar_width ?? null,
+      avatarHeight: data.avatar_height ?? null,
+      avatarBlurhash: data.avatar_blurhash ?? null,
+      avatarVariants: data.avatar_variants ?? [],
       rating: data.rating,
       isFeatured: data.is_featured,
       isApproved: data.is_approved,
@@ -269,43 +316,52 @@ export class TestimonialsService extends BaseService {
   ): Promise<string> {
     const supabase = this.getClient();
 
-    // Check if testimonial exists
-    await this.findOne(testimonialId);
+    // Check if testimonial exists, keeping the current avatar to replace it
+    const testimonial = await this.findOne(testimonialId);
 
-    // Generate unique filename
-    const fileExt = file.originalname.split('.').pop() || 'jpg';
-    const fileName = `${testimonialId}-${Date.now()}.${fileExt}`;
-    const filePath = `avatars/${fileName}`;
+    // Strip metadata and encode the responsive variants
+    const processed = await this.imageProcessingService.process(file.buffer);
 
-    // Upload to Supabase Storage
-    const { error: uploadError } = await supabase.storage
-      .from('testimonial-avatars')
-      .upload(filePath, file.buffer, {
-        contentType: file.mimetype,
-        upsert: false,
-      });
+    // Upload every variant to storage
+    const avatar = await this.imageProcessingService.store(
+      'testimonial-avatars',
+      `avatars/${testimonialId}-${Date.now()}`,
+      processed,
+    );
 
-    if (uploadError) {
+    if (!avatar) {
       throw new BadRequestException('testimonials.avatar.uploadFailed');
     }
 
-    // Get public URL
-    const { data: urlData } = supabase.storage
-      .from('testimonial-avatars')
-      .getPublicUrl(filePath);
-    const avatarUrl = urlData.publicUrl;
-
-    // Update testimonial with avatar URL
+    // Update testimonial with avatar URL and metadata
     const { error: updateError } = await supabase
       .from('testimonials')
-      .update({ avatar_url: avatarUrl })
+      .update({
+        avatar_url: avatar.url,
+        avatar_width: avatar.width,
+        avatar_height: avatar.height,
+        avatar_blurhash: avatar.blurhash,
+        avatar_variants: avatar.variants,
+      })
       .eq('id', testimonialId);
 
     if (updateError) {
+      await this.imageProcessingService.remove(
+        'testimonial-avatars',
+        avatar.url,
+        avatar.variants,
+      );
       throw new BadRequestException('testimonials.avatar.updateFailed');
     }
 
-    return avatarUrl;
+    // The previous avatar is no longer referenced
+    await this.imageProcessingService.remove(
+      'testimonial-avatars',
+      testimonial.avatarUrl,
+      testimonial.avatarVariants,
+    );
+
+    return avatar.url;
   }
 }
 
@@ -1,3 +1,5 @@
+import { IImageVariant } from '../../../core/types/image.types';
+
 export interface ITestimonialTranslation {
   id: string;
   testimonialId: string;
@@ -13,6 +15,10 @@ export interface ITestimonialTranslation {
 export interface ITestimonial {
   id: string;
   avatarUrl: string | null;
+  avatarWidth: number | null;
+  avatarHeight: number | null;
+  avatarBlurhash: string | null;
+  avatarVariants: IImageVariant[];
   rating: number | null;
   isFeatured: boolean;
   isApproved: boolean;
@@ -27,5 +33,7 @@ export interface ITestimonialsListResponse {
   total: number;
   page: number;
   limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
 }
 
@@ -0,0 +1,85 @@
+import { Logger } from '@nestjs/common';
+import { AccountDeletionSchedulerService } from './account-deletion-scheduler.service';
+
+describe('AccountDeletionSchedulerService', () => {
+  let purgeScheduledDeletions: jest.Mock;
+
+  const createService = (interval: string | undefined) =>
+    new AccountDeletionSchedulerService(
+      { get: () => interval } as any,
+      { purgeScheduledDeletions } as any,
+    );
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    purgeScheduledDeletions = jest.fn().mockResolvedValue({ purged: 1 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('purges on every interval until the module is destroyed', async () => {
+    const service = createService('1000');
+    service.onModuleInit();
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(purgeScheduledDeletions).toHaveBeenCalledTimes(2);
+
+    service.onModuleDestroy();
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(purgeScheduledDeletions).toHaveBeenCalledTimes(2);
+  });
+
+  it('defaults to an hourly purge', async () => {
+    const service = createService(undefined);
+    service.onModuleInit();
+
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(purgeScheduledDeletions).toHaveBeenCalledTimes(1);
+
+    service.onModuleDestroy();
+  });
+
+  it('does not start a timer when the interval is 0', async () => {
+    const service = createService('0');
+    service.onModuleInit();
+
+    await jest.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+    expect(purgeScheduledDeletions).not.toHaveBeenCalled();
+  });
+
+  it('skips a tick while the previous purge is still running', async () => {
+    let finish: () => void = () => undefined;
+    purgeScheduledDeletions.mockReturnValue(
+      new Promise((resolve) => {
+        finish = () => resolve({ purged: 0 });
+      }),
+    );
+    const service = createService('1000');
+    service.onModuleInit();
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(purgeScheduledDeletions).toHaveBeenCalledTimes(1);
+
+    finish();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(purgeScheduledDeletions).toHaveBeenCalledTimes(2);
+
+    service.onModuleDestroy();
+  });
+
+  it('keeps running after a failed purge', async () => {
+    purgeScheduledDeletions.mockRejectedValueOnce(new Error('offline'));
+    const service = createService('1000');
+    service.onModuleInit();
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(purgeScheduledDeletions).toHaveBeenCalledTimes(2);
+
+    service.onModuleDestroy();
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UsersService } from './users.service';
+
+/**
+ * Purges accounts whose deletion grace period is over. Runs every
+ * ACCOUNT_PURGE_INTERVAL_MS (0 disables the timer, e.g. when an external
+ * cron calls the endpoint).
+ */
+@Injectable()
+export class AccountDeletionSchedulerService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+  private readonly logger = new Logger(AccountDeletionSchedulerService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private configService: ConfigService,
+    private usersService: UsersService,
+  ) {}
+
+  onModuleInit(): void {
+    const intervalMs = parseInt(
+      this.configService.get<string>('ACCOUNT_PURGE_INTERVAL_MS') ||
+        String(this.DEFAULT_INTERVAL_MS),
+      10,
+    );
+
+    if (!intervalMs || intervalMs <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+    // Never keep the process alive just for the scheduler
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    // Skip if the previous run is still going
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const result = await this.usersService.purgeScheduledDeletions();
+      if (result.purged) {
+        this.logger.log(`Purged ${result.purged} account(s)`);
+      }
+    } catch (error) {
+      this.logger.error(`Account purge failed: ${error}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { IsString, IsUUID, MinLength, MaxLength } from 'class-validator';
+
+export class AcceptInvitationDto {
+  @IsUUID()
+  token: string; // From the invitation link
+
+  @IsString()
+  @MinLength(8)
+  @MaxLength(100)
+  password: string;
+}
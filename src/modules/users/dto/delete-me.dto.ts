@@ -0,0 +1,7 @@
+import { IsString, MaxLength } from 'class-validator';
+
+export class DeleteMeDto {
+  @IsString()
+  @MaxLength(100)
+  password: string; // Current password, confirms the deletion request
+}
@@ -0,0 +1,9 @@
+import { OmitType } from '@nestjs/mapped-types';
+import { CreateUserDto } from './create-user.dto';
+
+/**
+ * Invitee sets their own password from the emailed link
+ */
+export class InviteUserDto extends OmitType(CreateUserDto, [
+  'password',
+] as const) {}
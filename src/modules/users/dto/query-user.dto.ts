@@ -44,6 +44,11 @@ export class QueryUserDto {
   @Min(1)
   limit?: number = 10;
 
+  // Opaque cursor from a previous response's meta, used instead of page
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
   @IsOptional()
   @IsEnum(UserSortBy)
   sortBy?: UserSortBy = UserSortBy.CREATED_AT;
@@ -0,0 +1,17 @@
+import { OmitType } from '@nestjs/mapped-types';
+import { UpdateUserDto } from './update-user.dto';
+
+/**
+ * Profile fields a user may change on their own account.
+ * Role and account status can only be changed by an admin.
+ * Email changes go through the confirmed /auth/email-change flow and
+ * avatars through the upload endpoint.
+ */
+export class UpdateMeDto extends OmitType(UpdateUserDto, [
+  'email',
+  'password',
+  'role',
+  'isActive',
+  'isEmailVerified',
+  'avatarUrl',
+] as const) {}
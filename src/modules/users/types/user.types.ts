@@ -1,14 +1,21 @@
+import { IImageVariant } from '../../../core/types/image.types';
+
 export interface IUser {
   id: string;
   email: string;
   firstName: string | null;
   lastName: string | null;
   avatarUrl: string | null;
+  avatarWidth: number | null;
+  avatarHeight: number | null;
+  avatarBlurhash: string | null;
+  avatarVariants: IImageVariant[];
   phone: string | null;
   isEmailVerified: boolean;
   isActive: boolean;
   role: string;
   lastLoginAt: string | null;
+  deletionScheduledFor: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -23,6 +30,8 @@ export interface IUsersListResponse {
   page: number;
   limit: number;
   totalPages: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
 }
 
 export interface ICreateUserRequest {
@@ -56,3 +65,48 @@ export interface IQueryUserParams {
   sortOrder?: 'asc' | 'desc';
 }
 
+
+export interface IUserDataExport {
+  exportedAt: string;
+  profile: IUser;
+  comments: {
+    id: string;
+    projectId: string;
+    parentId: string | null;
+    content: string;
+    isApproved: boolean;
+    createdAt: string;
+    updatedAt: string;
+  }[];
+  interactions: {
+    projectId: string;
+    type: string;
+    createdAt: string;
+  }[];
+  shares: {
+    projectId: string;
+    channel: string | null;
+    createdAt: string;
+  }[];
+  linkedAccounts: {
+    provider: string;
+    email: string | null;
+    createdAt: string;
+  }[];
+  sessions: {
+    deviceName: string | null;
+    ipAddress: string | null;
+    startedAt: string;
+    lastUsedAt: string;
+  }[];
+  avatar: {
+    url: string;
+    contentType: string | null;
+    base64: string | null; // Null when the avatar is not stored by us
+  } | null;
+}
+
+export interface IAccountDeletionStatus {
+  deletionRequestedAt: string;
+  deletionScheduledFor: string;
+}
@@ -13,34 +13,86 @@ import {
   Request,
   UseInterceptors,
   UploadedFile,
+  Res,
+  ParseUUIDPipe,
 } from '@nestjs/common';
+import type { Response } from 'express';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { UsersService } from './users.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { UpdateMeDto } from './dto/update-me.dto';
+import { DeleteMeDto } from './dto/delete-me.dto';
+import { InviteUserDto } from './dto/invite-user.dto';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
 import { QueryUserDto } from './dto/query-user.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { NoImpersonationGuard } from '../auth/guards/no-impersonation.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Audited } from '../audit-logs/decorators/audited.decorator';
+import { UserRole } from './enums/user-role.enum';
 import { ResponseUtil, StandardResponse } from '../../core/utils/response';
 import { RequestUtil } from '../../core/utils/request.util';
 import { UnauthorizedException } from '@nestjs/common';
 
+const USER_AUDIT = {
+  entityType: 'user',
+  table: 'users',
+};
+
 @Controller('users')
 export class UsersController {
   constructor(private readonly usersService: UsersService) {}
 
   @Post()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.CREATED)
+  @Audited(USER_AUDIT)
   async create(
     @Body() createUserDto: CreateUserDto,
     @Request() req: any,
   ): Promise<StandardResponse<any>> {
-    const user = await this.usersService.create(createUserDto);
+    const adminId = req.user?.sub || req.user?.id;
+    const user = await this.usersService.create(createUserDto, adminId);
     const lang = RequestUtil.getLanguage(req);
     return ResponseUtil.successSingle(user, 'users.create.success', lang);
   }
 
+  @Post('invite')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @HttpCode(HttpStatus.CREATED)
+  @Audited({ ...USER_AUDIT, action: 'invite' })
+  async invite(
+    @Body() inviteUserDto: InviteUserDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const adminId = req.user?.sub || req.user?.id;
+    if (!adminId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+
+    const user = await this.usersService.invite(inviteUserDto, adminId);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(user, 'users.invite.success', lang);
+  }
+
+  @Post('invitations/accept')
+  @HttpCode(HttpStatus.OK)
+  async acceptInvitation(
+    @Body() acceptInvitationDto: AcceptInvitationDto,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    await this.usersService.acceptInvitation(acceptInvitationDto);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(null, 'users.invite.accepted', lang);
+  }
+
   @Get()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   async findAll(
     @Query() queryDto: QueryUserDto,
     @Request() req: any,
@@ -54,11 +106,13 @@ export class UsersController {
       result.limit,
       'users.findAll.success',
       lang,
+      { nextCursor: result.nextCursor, prevCursor: result.prevCursor },
     );
   }
 
   @Get(':id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   async findOne(
     @Param('id') id: string,
     @Request() req: any,
@@ -103,35 +157,149 @@ export class UsersController {
 
   @Patch('me')
   @UseGuards(JwtAuthGuard)
-  async updateMe(@Request() req: any, @Body() updateUserDto: UpdateUserDto): Promise<StandardResponse<any>> {
+  async updateMe(@Request() req: any, @Body() updateMeDto: UpdateMeDto): Promise<StandardResponse<any>> {
     const userId = req.user?.sub || req.user?.id;
     if (!userId) {
       throw new UnauthorizedException('auth.user.notAuthenticated');
     }
-    const user = await this.usersService.update(userId, updateUserDto);
+    const user = await this.usersService.update(userId, updateMeDto);
     const lang = RequestUtil.getLanguage(req);
     return ResponseUtil.successSingle(user, 'users.update.me.success', lang);
   }
 
-  @Patch(':id')
+  @Get('me/export')
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  async exportMe(
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    if (!userId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+    const data = await this.usersService.exportData(userId);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="flexify-export-${userId}.json"`,
+    );
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(data, 'users.export.success', lang, false);
+  }
+
+  @Delete('me')
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @HttpCode(HttpStatus.OK)
+  async deleteMe(
+    @Request() req: any,
+    @Body() deleteMeDto: DeleteMeDto,
+  ): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    if (!userId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+    const result = await this.usersService.requestDeletion(
+      userId,
+      deleteMeDto.password,
+    );
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(
+      result,
+      'users.deleteMe.scheduled',
+      lang,
+      false,
+    );
+  }
+
+  @Post('me/deletion/cancel')
   @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async cancelDeleteMe(@Request() req: any): Promise<StandardResponse<any>> {
+    const userId = req.user?.sub || req.user?.id;
+    if (!userId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+    await this.usersService.cancelDeletion(userId);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(null, 'users.deleteMe.cancelled', lang);
+  }
+
+  @Post('deletions/purge')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async purgeDeletions(@Request() req: any): Promise<StandardResponse<any>> {
+    const result = await this.usersService.purgeScheduledDeletions();
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(
+      result,
+      'users.deleteMe.purged',
+      lang,
+      false,
+    );
+  }
+
+  @Patch(':id/deactivate')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...USER_AUDIT, param: 'id', action: 'deactivate' })
+  async deactivate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const adminId = req.user?.sub || req.user?.id;
+    if (!adminId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+
+    const user = await this.usersService.deactivate(id, adminId);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(user, 'users.deactivate.success', lang);
+  }
+
+  @Patch(':id/reactivate')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...USER_AUDIT, param: 'id', action: 'reactivate' })
+  async reactivate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: any,
+  ): Promise<StandardResponse<any>> {
+    const adminId = req.user?.sub || req.user?.id;
+    if (!adminId) {
+      throw new UnauthorizedException('auth.user.notAuthenticated');
+    }
+
+    const user = await this.usersService.reactivate(id, adminId);
+    const lang = RequestUtil.getLanguage(req);
+    return ResponseUtil.successSingle(user, 'users.reactivate.success', lang);
+  }
+
+  @Patch(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @Audited({ ...USER_AUDIT, param: 'id' })
   async update(
     @Param('id') id: string,
     @Body() updateUserDto: UpdateUserDto,
     @Request() req: any,
   ): Promise<StandardResponse<any>> {
-    const user = await this.usersService.update(id, updateUserDto);
+    const adminId = req.user?.sub || req.user?.id;
+    const user = await this.usersService.update(id, updateUserDto, adminId);
     const lang = RequestUtil.getLanguage(req);
     return ResponseUtil.successSingle(user, 'users.update.success', lang);
   }
 
   @Delete(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
   @HttpCode(HttpStatus.NO_CONTENT)
+  @Audited({ ...USER_AUDIT, param: 'id' })
   async remove(
     @Param('id') id: string,
     @Request() req: any,
   ): Promise<StandardResponse<any>> {
-    await this.usersService.remove(id);
+    const adminId = req.user?.sub || req.user?.id;
+    await this.usersService.remove(id, adminId);
     const lang = RequestUtil.getLanguage(req);
     return ResponseUtil.successSingle(null, 'users.delete.success', lang);
   }
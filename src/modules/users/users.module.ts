@@ -1,11 +1,17 @@
 import { Module } from '@nestjs/common';
 import { UsersService } from './users.service';
+import { AccountDeletionSchedulerService } from './account-deletion-scheduler.service';
 import { UsersController } from './users.controller';
 import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+import { StorageService } from '../../core/lib/storage/storage.service';
+import { ImageProcessingService } from '../../core/services/image-processing.service';
+import { ClockService } from '../../core/services/clock.service';
+import { MailerModule } from '../mailer/mailer.module';
 
 @Module({
+  imports: [MailerModule],
   controllers: [UsersController],
-  providers: [UsersService, SupabaseService],
+  providers: [UsersService, AccountDeletionSchedulerService, ImageProcessingService, StorageService, ClockService, SupabaseService],
   exports: [UsersService],
 })
 export class UsersModule {}
@@ -0,0 +1,332 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { UsersService } from './users.service';
+import { UserRole } from './enums/user-role.enum';
+import {
+  createSupabaseMock,
+  IRecordedQuery,
+  ISupabaseMock,
+} from '../../core/testing/supabase.mock';
+
+describe('UsersService role management', () => {
+  const USERS: Record<string, { id: string; role: UserRole }> = {
+    'super-1': { id: 'super-1', role: UserRole.SUPER_ADMIN },
+    'super-2': { id: 'super-2', role: UserRole.SUPER_ADMIN },
+    'admin-1': { id: 'admin-1', role: UserRole.ADMIN },
+    'user-1': { id: 'user-1', role: UserRole.USER },
+  };
+
+  let mock: ISupabaseMock;
+  let service: UsersService;
+
+  const writes = () =>
+    mock.queries.filter(
+      (query: IRecordedQuery) =>
+        query.table === 'users' && query.operation !== 'select',
+    );
+
+  beforeEach(() => {
+    mock = createSupabaseMock((query) => {
+      if (query.table !== 'users') {
+        return { data: null, error: null };
+      }
+      if (query.operation === 'insert') {
+        return { data: { id: 'new-1', ...query.payload }, error: null };
+      }
+      const row = USERS[query.filters.id];
+      if (query.operation === 'update') {
+        return { data: { ...row, ...query.payload }, error: null };
+      }
+      // exists() lookups by email find nothing
+      return query.filters.email
+        ? { data: [], error: null }
+        : { data: row ?? null, error: row ? null : { code: 'PGRST116' } };
+    });
+
+    service = new UsersService(
+      mock.supabaseService,
+      { get: () => undefined } as any,
+      {} as any,
+      {} as any,
+      { deleteUrls: jest.fn() } as any,
+      { now: () => new Date() } as any,
+    );
+  });
+
+  describe('create', () => {
+    const dto = { email: 'new@example.com', password: 'Password1!' };
+
+    it('forbids an admin from choosing a role', async () => {
+      await expect(
+        service.create({ ...dto, role: UserRole.SUPER_ADMIN }, 'admin-1'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(writes()).toHaveLength(0);
+    });
+
+    it('lets an admin create a plain account', async () => {
+      const user = await service.create(dto, 'admin-1');
+      expect(user.role).toBe(UserRole.USER);
+    });
+
+    it('lets a super admin choose a role', async () => {
+      const user = await service.create(
+        { ...dto, role: UserRole.ADMIN },
+        'super-1',
+      );
+      expect(user.role).toBe(UserRole.ADMIN);
+    });
+  });
+
+  describe('update', () => {
+    it('forbids an admin from promoting themselves', async () => {
+      await expect(
+        service.update('admin-1', { role: UserRole.SUPER_ADMIN }, 'admin-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(writes()).toHaveLength(0);
+    });
+
+    it('forbids an admin from changing another account role', async () => {
+      await expect(
+        service.update('user-1', { role: UserRole.ADMIN }, 'admin-1'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(writes()).toHaveLength(0);
+    });
+
+    it('forbids an admin from editing a super admin', async () => {
+      await expect(
+        service.update('super-1', { firstName: 'Eve' }, 'admin-1'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(writes()).toHaveLength(0);
+    });
+
+    it('lets an admin edit other fields of a plain account', async () => {
+      const user = await service.update(
+        'user-1',
+        { firstName: 'Ada' },
+        'admin-1',
+      );
+      expect(user.firstName).toBe('Ada');
+    });
+
+    it('lets a super admin change roles', async () => {
+      const user = await service.update(
+        'super-2',
+        { role: UserRole.ADMIN },
+        'super-1',
+      );
+      expect(user.role).toBe(UserRole.ADMIN);
+    });
+  });
+
+  describe('remove', () => {
+    it('forbids an admin from deleting a super admin', async () => {
+      await expect(service.remove('super-1', 'admin-1')).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(writes()).toHaveLength(0);
+    });
+  });
+});
+
+describe('UsersService avatar upload', () => {
+  const OLD_AVATAR =
+    'http://localhost:3000/uploads/avatars/avatars/user-1-1-1280.webp';
+  const STORED = {
+    url: 'http://localhost:3000/uploads/avatars/avatars/user-1-2-1280.webp',
+    width: 1280,
+    height: 1280,
+    blurhash: 'LEHV6nWB2yk8',
+    variants: [
+      {
+        url: 'http://localhost:3000/uploads/avatars/avatars/user-1-2-1280.webp',
+        width: 1280,
+        height: 1280,
+        format: 'webp',
+      },
+    ],
+  };
+  const FILE = { buffer: Buffer.from('image') } as Express.Multer.File;
+
+  let mock: ISupabaseMock;
+  let updateError: unknown;
+  let imageProcessing: Record<string, jest.Mock>;
+  let service: UsersService;
+
+  const userUpdates = () =>
+    mock.queries.filter(
+      (query) => query.table === 'users' && query.operation === 'update',
+    );
+
+  beforeEach(() => {
+    updateError = null;
+    mock = createSupabaseMock((query) =>
+      query.operation === 'update'
+        ? { data: null, error: updateError }
+        : {
+            data: {
+              id: 'user-1',
+              avatar_url: OLD_AVATAR,
+              avatar_variants: [],
+            },
+            error: null,
+          },
+    );
+    imageProcessing = {
+      process: jest.fn().mockResolvedValue({ variants: [] }),
+      store: jest.fn().mockResolvedValue(STORED),
+      remove: jest.fn().mockResolvedValue(undefined),
+    };
+
+    service = new UsersService(
+      mock.supabaseService,
+      { get: () => undefined } as any,
+      {} as any,
+      imageProcessing as any,
+      {} as any,
+      { now: () => new Date() } as any,
+    );
+  });
+
+  it('replaces the avatar and removes the previous files', async () => {
+    await expect(service.uploadAvatar('user-1', FILE)).resolves.toBe(
+      STORED.url,
+    );
+
+    expect(userUpdates()[0].payload).toMatchObject({ avatar_url: STORED.url });
+    expect(imageProcessing.remove).toHaveBeenCalledTimes(1);
+    expect(imageProcessing.remove).toHaveBeenCalledWith(
+      'avatars',
+      OLD_AVATAR,
+      [],
+      'avatars/user-1-',
+    );
+  });
+
+  it('keeps the current avatar when storage fails', async () => {
+    imageProcessing.store.mockResolvedValue(null);
+
+    await expect(service.uploadAvatar('user-1', FILE)).rejects.toThrow(
+      BadRequestException,
+    );
+
+    expect(userUpdates()).toHaveLength(0);
+    expect(imageProcessing.remove).not.toHaveBeenCalled();
+  });
+
+  it('removes the new files when the user cannot be updated', async () => {
+    updateError = { code: '08006' };
+
+    await expect(service.uploadAvatar('user-1', FILE)).rejects.toThrow(
+      BadRequestException,
+    );
+
+    expect(imageProcessing.remove).toHaveBeenCalledTimes(1);
+    expect(imageProcessing.remove).toHaveBeenCalledWith(
+      'avatars',
+      STORED.url,
+      STORED.variants,
+      'avatars/user-1-',
+    );
+  });
+});
+
+describe('UsersService scheduled deletions', () => {
+  const NOW = new Date('2026-03-01T00:00:00.000Z');
+
+  let mock: ISupabaseMock;
+  let due: Array<{ id: string }>;
+  let purgeResults: Record<string, { data: any; error: any }>;
+  let storage: Record<string, jest.Mock>;
+  let service: UsersService;
+
+  beforeEach(() => {
+    due = [{ id: 'user-1' }, { id: 'user-2' }, { id: 'user-3' }];
+    purgeResults = {};
+    mock = createSupabaseMock(
+      () => ({ data: due, error: null }),
+      (_fn, params) =>
+        purgeResults[params.p_user_id] ?? { data: true, error: null },
+    );
+    storage = {
+      list: jest.fn().mockResolvedValue([]),
+      delete: jest.fn().mockResolvedValue(undefined),
+    };
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+
+    service = new UsersService(
+      mock.supabaseService,
+      { get: () => undefined } as any,
+      {} as any,
+      {} as any,
+      storage as any,
+      { now: () => new Date(NOW) } as any,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('purges each due account in one RPC as of the clock', async () => {
+    await expect(service.purgeScheduledDeletions()).resolves.toEqual({
+      purged: 3,
+    });
+
+    expect(mock.queries[0].filters['lte:deletion_scheduled_for']).toBe(
+      NOW.toISOString(),
+    );
+    expect(mock.client.rpc).toHaveBeenCalledWith('purge_user_account', {
+      p_user_id: 'user-1',
+      p_now: NOW.toISOString(),
+    });
+    expect(
+      mock.queries.filter((query) => query.operation !== 'select'),
+    ).toHaveLength(0);
+  });
+
+  it('keeps purging the other accounts when one fails', async () => {
+    purgeResults['user-1'] = { data: null, error: { code: '08006' } };
+
+    await expect(service.purgeScheduledDeletions()).resolves.toEqual({
+      purged: 2,
+    });
+    expect(mock.client.rpc).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not count or clean up accounts purged concurrently', async () => {
+    purgeResults['user-2'] = { data: false, error: null };
+
+    await expect(service.purgeScheduledDeletions()).resolves.toEqual({
+      purged: 2,
+    });
+    expect(storage.list).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('UsersService data export', () => {
+  it('fails instead of returning a partial export', async () => {
+    const mock = createSupabaseMock((query) => {
+      if (query.table === 'users') {
+        return { data: { id: 'user-1', avatar_url: null }, error: null };
+      }
+      return query.table === 'project_interactions'
+        ? { data: null, error: { code: '08006' } }
+        : { data: [], error: null };
+    });
+    const service = new UsersService(
+      mock.supabaseService,
+      { get: () => undefined } as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      { now: () => new Date() } as any,
+    );
+
+    await expect(service.exportData('user-1')).rejects.toThrow(
+      new BadRequestException('users.export.failed'),
+    );
+  });
+});
@@ -1,26 +1,68 @@
 import {
   Injectable,
   NotFoundException,
+  ForbiddenException,
   ConflictException,
   BadRequestException,
+  UnauthorizedException,
+  Logger,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { BaseService } from '../../core/services/base.service';
+import { SupabaseService } from '../../core/lib/supabase/supabase.service';
+import { StorageService } from '../../core/lib/storage/storage.service';
+import { IStorageObject } from '../../core/lib/storage/storage.types';
+import { ImageProcessingService } from '../../core/services/image-processing.service';
+import { ClockService } from '../../core/services/clock.service';
+import { CursorUtil } from '../../core/utils/cursor.util';
+import { MailerService } from '../mailer/mailer.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { InviteUserDto } from './dto/invite-user.dto';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
 import { QueryUserDto, UserSortBy, SortOrder } from './dto/query-user.dto';
-import { IUser, IUsersListResponse } from './types/user.types';
+import {
+  IAccountDeletionStatus,
+  IUser,
+  IUserDataExport,
+  IUsersListResponse,
+} from './types/user.types';
 import { UserRole } from './enums/user-role.enum';
 import * as bcrypt from 'bcryptjs';
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
 
 @Injectable()
 export class UsersService extends BaseService {
   private readonly BCRYPT_ROUNDS = 10;
   private readonly DEFAULT_PAGE = 1;
   private readonly DEFAULT_LIMIT = 10;
+  private readonly ACCOUNT_DELETION_GRACE_DAYS = 14;
+  private readonly INVITATION_EXPIRY_DAYS = 7;
+  private readonly logger = new Logger(UsersService.name);
+
+  constructor(
+    supabaseService: SupabaseService,
+    private configService: ConfigService,
+    private mailerService: MailerService,
+    private imageProcessingService: ImageProcessingService,
+    private storageService: StorageService,
+    private clockService: ClockService,
+  ) {
+    super(supabaseService);
+  }
 
-  async create(createUserDto: CreateUserDto): Promise<IUser> {
+  /**
+   * `actorId` is set when an admin creates the account; only super
+   * admins may choose its role
+   */
+  async create(createUserDto: CreateUserDto, actorId?: string): Promise<IUser> {
     const supabase = this.getClient();
 
+    if (actorId && createUserDto.role !== undefined) {
+      await this.assertSuperAdmin(actorId);
+    }
+
     // Check if user already exists using optimized exists method
     if (await this.exists('users', 'email', createUserDto.email)) {
       throw new ConflictException('users.create.emailExists');
@@ -61,6 +103,7 @@ export class UsersService extends BaseService {
       isEmailVerified,
       sortBy = UserSortBy.CREATED_AT,
       sortOrder = SortOrder.DESC,
+      cursor,
     } = queryDto;
 
     let query = supabase.from('users').select('*', { count: 'exact' });
@@ -77,9 +120,14 @@ export class UsersService extends BaseService {
     if (isEmailVerified !== undefined) query = query.eq('is_email_verified', isEmailVerified);
 
     // Apply sorting and pagination
-    query = query
-      .order(sortBy, { ascending: sortOrder === SortOrder.ASC })
-      .range((page - 1) * limit, page * limit - 1);
+    const ascending = sortOrder === SortOrder.ASC;
+    const pagination = {
+      sort: { column: sortBy, ascending },
+      limit,
+      page,
+      cursor: cursor ? CursorUtil.decode(cursor, { column: sortBy, ascending }) : null,
+    };
+    query = CursorUtil.paginate(query, pagination);
 
     const { data, error, count } = await query;
 
@@ -87,12 +135,16 @@ export class UsersService extends BaseService {
       throw new BadRequestException('users.findAll.failed');
     }
 
+    const { rows, nextCursor, prevCursor } = CursorUtil.toPage(data || [], pagination, count || 0);
+
     return {
-      users: (data || []).map((user) => this.mapToUser(user)),
+      users: rows.map((user) => this.mapToUser(user)),
       total: count || 0,
       page,
       limit,
       totalPages: Math.ceil((count || 0) / limit),
+      nextCursor,
+      prevCursor,
     };
   }
 
@@ -124,9 +176,21 @@ export class UsersService extends BaseService {
     return error || !data ? null : this.mapToUser(data);
   }
 
-  async update(id: string, updateUserDto: UpdateUserDto): Promise<IUser> {
+  /**
+   * `actorId` is set when an admin edits another account: super admins
+   * can only be edited, and roles only changed, by a super admin
+   */
+  async update(id: string, updateUserDto: UpdateUserDto, actorId?: string): Promise<IUser> {
     const supabase = this.getClient();
 
+    if (actorId) {
+      const changesRole = updateUserDto.role !== undefined;
+      await this.assertCanManage(id, actorId, !changesRole);
+      if (changesRole) {
+        await this.assertSuperAdmin(actorId);
+      }
+    }
+
     // Check if user exists
     await this.findOne(id);
 
@@ -181,20 +245,40 @@ export class UsersService extends BaseService {
       }
     }
 
+    // A URL set by hand has no processed variants
+    if (dto.avatarUrl !== undefined) {
+      Object.assign(updateData, this.clearedAvatarMetadata());
+    }
+
     return updateData;
   }
 
-  async remove(id: string): Promise<void> {
+  private clearedAvatarMetadata(): Record<string, any> {
+    return {
+      avatar_width: null,
+      avatar_height: null,
+      avatar_blurhash: null,
+      avatar_variants: [],
+    };
+  }
+
+  async remove(id: string, actorId?: string): Promise<void> {
     const supabase = this.getClient();
 
+    if (actorId) {
+      await this.assertCanManage(id, actorId);
+    }
+
     // Check if user exists
-    await this.findOne(id);
+    const user = await this.findOne(id);
 
     const { error } = await supabase.from('users').delete().eq('id', id);
 
     if (error) {
       throw new BadRequestException('users.delete.failed');
     }
+
+    await this.imageProcessingService.remove('avatars', user.avatarUrl, user.avatarVariants, this.avatarPathPrefix(id));
   }
 
   /**
@@ -213,36 +297,490 @@ export class UsersService extends BaseService {
   async uploadAvatar(userId: string, file: Express.Multer.File): Promise<string> {
     const supabase = this.getClient();
 
-    // Check if user exists
-    await this.findOne(userId);
-
-    // Generate unique filename
-    const fileExt = file.originalname.split('.').pop() || 'jpg';
-    const fileName = `${userId}-${Date.now()}.${fileExt}`;
-    const filePath = `avatars/${fileName}`;
-
-    // Upload to Supabase Storage
-    const { error: uploadError } = await supabase.storage
-      .from('avatars')
-      .upload(filePath, file.buffer, {
-        contentType: file.mimetype,
-        upsert: false,
+    // Check if user exists, keeping the current avatar to replace it
+    const user = await this.findOne(userId);
+
+    // Strip metadata and encode the responsive variants
+    const processed = await this.imageProcessingService.process(file.buffer);
+
+    // File names start with the user id so account purges can find them
+    const avatar = await this.imageProcessingService.store(
+      'avatars',
+      `${this.avatarPathPrefix(userId)}${Date.now()}`,
+      processed,
+    );
+
+    // Keep the current avatar untouched when the upload fails
+    if (!avatar) {
+      throw new BadRequestException('users.avatar.uploadFailed');
+    }
+
+    const { error: updateError } = await supabase
+      .from('users')
+      .update({
+        avatar_url: avatar.url,
+        avatar_width: avatar.width,
+        avatar_height: avatar.height,
+        avatar_blurhash: avatar.blurhash,
+        avatar_variants: avatar.variants,
+      })
+      .eq('id', userId);
+
+    // The new files are not referenced, remove them instead of the old ones
+    if (updateError) {
+      await this.imageProcessingService.remove('avatars', avatar.url, avatar.variants, this.avatarPathPrefix(userId));
+      throw new BadRequestException('users.avatar.uploadFailed');
+    }
+
+    // The previous avatar is no longer referenced
+    await this.imageProcessingService.remove('avatars', user.avatarUrl, user.avatarVariants, this.avatarPathPrefix(userId));
+
+    return avatar.url;
+  }
+
+  /**
+   * Everything we store about the user (GDPR data portability)
+   */
+  async exportData(userId: string): Promise<IUserDataExport> {
+    const supabase = this.getClient();
+    const profile = await this.findOne(userId);
+
+    const [comments, interactions, shares, linkedAccounts, sessions, avatar] =
+      await Promise.all([
+        supabase
+          .from('project_comments')
+          .select(
+            'id, project_id, parent_id, content, is_approved, created_at, updated_at',
+          )
+          .eq('user_id', userId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('project_interactions')
+          .select('project_id, interaction_type, created_at')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('project_share_events')
+          .select('project_id, channel, created_at')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('oauth_accounts')
+          .select('provider, email, created_at')
+          .eq('user_id', userId),
+        supabase
+          .from('refresh_tokens')
+          .select('device_name, ip_address, session_started_at, created_at')
+          .eq('user_id', userId)
+          .eq('is_revoked', false)
+          .gt('expires_at', new Date().toISOString()),
+        this.exportAvatar(userId, profile.avatarUrl),
+      ]);
+
+    // A partial export would look complete to the user
+    if ([comments, interactions, shares, linkedAccounts, sessions].some((result) => result.error)) {
+      throw new BadRequestException('users.export.failed');
+    }
+
+    return {
+      exportedAt: new Date().toISOString(),
+      profile,
+      comments: (comments.data || []).map((comment) => ({
+        id: comment.id,
+        projectId: comment.project_id,
+        parentId: comment.parent_id,
+        content: comment.content,
+        isApproved: comment.is_approved,
+        createdAt: comment.created_at,
+        updatedAt: comment.updated_at,
+      })),
+      interactions: (interactions.data || []).map((interaction) => ({
+        projectId: interaction.project_id,
+        type: interaction.interaction_type,
+        createdAt: interaction.created_at,
+      })),
+      shares: (shares.data || []).map((share) => ({
+        projectId: share.project_id,
+        channel: share.channel,
+        createdAt: share.created_at,
+      })),
+      linkedAccounts: (linkedAccounts.data || []).map((account) => ({
+        provider: account.provider,
+        email: account.email,
+        createdAt: account.created_at,
+      })),
+      sessions: (sessions.data || []).map((session) => ({
+        deviceName: session.device_name,
+        ipAddress: session.ip_address,
+        startedAt: session.session_started_at,
+        lastUsedAt: session.created_at,
+      })),
+      avatar,
+    };
+  }
+
+  /**
+   * Schedule the account for deletion after the grace period and sign
+   * out every device. Logging back in and cancelling keeps the account.
+   */
+  async requestDeletion(
+    userId: string,
+    password: string,
+  ): Promise<IAccountDeletionStatus> {
+    const supabase = this.getClient();
+    const user = await this.findOne(userId);
+
+    // Admins own the projects, which would be cascade-deleted with them
+    if (user.role === UserRole.ADMIN || user.role === UserRole.SUPER_ADMIN) {
+      throw new BadRequestException('users.deleteMe.adminNotAllowed');
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('password_hash')
+      .eq('id', userId)
+      .single();
+
+    if (!userData || !(await bcrypt.compare(password, userData.password_hash))) {
+      throw new UnauthorizedException('users.deleteMe.invalidPassword');
+    }
+
+    const requestedAt = new Date();
+    const scheduledFor = new Date(requestedAt);
+    scheduledFor.setDate(
+      scheduledFor.getDate() + this.ACCOUNT_DELETION_GRACE_DAYS,
+    );
+
+    const { error } = await supabase
+      .from('users')
+      .update({
+        deletion_requested_at: requestedAt.toISOString(),
+        deletion_scheduled_for: scheduledFor.toISOString(),
+      })
+      .eq('id', userId);
+
+    if (error) {
+      throw new BadRequestException('users.deleteMe.failed');
+    }
+
+    // Sign out from all devices
+    await supabase
+      .from('refresh_tokens')
+      .update({ is_revoked: true, revoked_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('is_revoked', false);
+
+    return {
+      deletionRequestedAt: requestedAt.toISOString(),
+      deletionScheduledFor: scheduledFor.toISOString(),
+    };
+  }
+
+  async cancelDeletion(userId: string): Promise<void> {
+    const user = await this.findOne(userId);
+
+    if (!user.deletionScheduledFor) {
+      throw new BadRequestException('users.deleteMe.notScheduled');
+    }
+
+    await this.getClient()
+      .from('users')
+      .update({ deletion_requested_at: null, deletion_scheduled_for: null })
+      .eq('id', userId);
+  }
+
+  /**
+   * Purge accounts whose grace period is over. Runs on a timer (see
+   * AccountDeletionSchedulerService) or from an external cron job.
+   */
+  async purgeScheduledDeletions(): Promise<{ purged: number }> {
+    const now = this.clockService.now().toISOString();
+
+    const { data: users, error } = await this.getClient()
+      .from('users')
+      .select('id')
+      .lte('deletion_scheduled_for', now);
+
+    if (error) {
+      throw new BadRequestException('users.deleteMe.purgeFailed');
+    }
+
+    // One failing account must not hold up the others; it is retried next run
+    let purged = 0;
+    for (const user of users || []) {
+      try {
+        if (await this.purgeUser(user.id, now)) {
+          purged++;
+        }
+      } catch (purgeError) {
+        this.logger.error(`Could not purge user ${user.id}: ${purgeError}`);
+      }
+    }
+
+    return { purged };
+  }
+
+  /**
+   * Comments are kept but anonymised (user_id is set to null by the FK).
+   * The account and its likes are removed in one transaction by
+   * purge_user_account, then the stored avatars are deleted. Returns false
+   * when the account was already purged or is no longer due.
+   */
+  private async purgeUser(userId: string, now: string): Promise<boolean> {
+    const { data: purged, error } = await this.getClient().rpc('purge_user_account', {
+      p_user_id: userId,
+      p_now: now,
+    });
+
+    if (error) {
+      throw new BadRequestException('users.deleteMe.purgeFailed');
+    }
+
+    if (!purged) {
+      return false;
+    }
+
+    const avatars = await this.storageService
+      .list('avatars', 'avatars', { search: userId })
+      .catch((): IStorageObject[] => []);
+
+    const ownAvatars = avatars.filter((file) => file.path.startsWith(this.avatarPathPrefix(userId)));
+
+    if (ownAvatars.length > 0) {
+      await this.storageService
+        .delete('avatars', ownAvatars.map((file) => file.path))
+        .catch(() => undefined);
+    }
+
+    return true;
+  }
+
+  /**
+   * Storage path prefix of the user's own avatar files. Only these are
+   * ever deleted or exported, whatever avatar_url points to.
+   */
+  private avatarPathPrefix(userId: string): string {
+    return `avatars/${userId}-`;
+  }
+
+  /**
+   * Embed the avatar file when it is one the user uploaded
+   */
+  private async exportAvatar(
+    userId: string,
+    avatarUrl: string | null,
+  ): Promise<IUserDataExport['avatar']> {
+    if (!avatarUrl) {
+      return null;
+    }
+
+    const path = this.storageService.pathFromUrl('avatars', avatarUrl);
+    const file = path?.startsWith(this.avatarPathPrefix(userId))
+      ? await this.storageService.get('avatars', path)
+      : null;
+
+    if (!file) {
+      return { url: avatarUrl, contentType: null, base64: null };
+    }
+
+    return {
+      url: avatarUrl,
+      contentType: file.contentType,
+      base64: file.body.toString('base64'),
+    };
+  }
+
+  /**
+   * Create an account without a usable password and email the invitee
+   * a link to set one
+   */
+  async invite(
+    inviteUserDto: InviteUserDto,
+    invitedById: string,
+  ): Promise<IUser> {
+    const supabase = this.getClient();
+    const inviter = await this.findOne(invitedById);
+
+    // Only super admins may hand out admin roles
+    if (
+      inviteUserDto.role === UserRole.SUPER_ADMIN ||
+      (inviteUserDto.role === UserRole.ADMIN &&
+        inviter.role !== UserRole.SUPER_ADMIN)
+    ) {
+      throw new ForbiddenException('auth.forbidden');
+    }
+
+    const user = await this.create({
+      ...inviteUserDto,
+      password: randomBytes(32).toString('hex'),
+    });
+
+    const token = uuidv4();
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + this.INVITATION_EXPIRY_DAYS);
+
+    const { error } = await supabase.from('user_invitations').insert({
+      user_id: user.id,
+      invited_by: invitedById,
+      token,
+      expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+      await this.deleteById(user.id);
+      throw new BadRequestException('users.invite.failed');
+    }
+
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL') || '';
+
+    try {
+      await this.mailerService.sendInvitationEmail(user.email, {
+        firstName: user.firstName,
+        lastName: user.lastName,
+        invitedByName:
+          [inviter.firstName, inviter.lastName].filter(Boolean).join(' ') ||
+          'An administrator',
+        inviteLink: `${frontendUrl}/auth/accept-invite?token=${token}`,
+        expiresInDays: this.INVITATION_EXPIRY_DAYS,
       });
+    } catch {
+      // Without the email the invitee can never sign in, roll back
+      await this.deleteById(user.id);
+      throw new BadRequestException('users.invite.emailSendFailed');
+    }
 
-    if (uploadError) {
-      // Fallback to placeholder if storage fails
-      const placeholderUrl = `https://api.dicebear.com/7.x/initials/svg?seed=${encodeURIComponent(userId)}`;
-      await supabase.from('users').update({ avatar_url: placeholderUrl }).eq('id', userId);
-      return placeholderUrl;
+    return user;
+  }
+
+  /**
+   * Invitee sets their password; receiving the link verifies the email
+   */
+  async acceptInvitation(
+    acceptInvitationDto: AcceptInvitationDto,
+  ): Promise<void> {
+    const supabase = this.getClient();
+
+    const { data: invitation, error } = await supabase
+      .from('user_invitations')
+      .select('id, user_id, expires_at')
+      .eq('token', acceptInvitationDto.token)
+      .is('accepted_at', null)
+      .maybeSingle();
+
+    if (error || !invitation) {
+      throw new BadRequestException('users.invite.invalidToken');
     }
 
-    // Get public URL and update user
-    const { data: urlData } = supabase.storage.from('avatars').getPublicUrl(filePath);
-    const avatarUrl = urlData.publicUrl;
+    if (new Date(invitation.expires_at) < new Date()) {
+      throw new BadRequestException('users.invite.expired');
+    }
 
-    await supabase.from('users').update({ avatar_url: avatarUrl }).eq('id', userId);
+    const passwordHash = await bcrypt.hash(
+      acceptInvitationDto.password,
+      this.BCRYPT_ROUNDS,
+    );
+
+    await Promise.all([
+      supabase
+        .from('users')
+        .update({ password_hash: passwordHash, is_email_verified: true })
+        .eq('id', invitation.user_id),
+      supabase
+        .from('user_invitations')
+        .update({ accepted_at: new Date().toISOString() })
+        .eq('id', invitation.id),
+    ]);
+  }
 
-    return avatarUrl;
+  /**
+   * Deactivate an account and revoke its sessions right away.
+   * Access tokens already issued are rejected by JwtStrategy.
+   */
+  async deactivate(id: string, actorId: string): Promise<IUser> {
+    await this.assertCanManage(id, actorId);
+
+    const supabase = this.getClient();
+    const { data, error } = await supabase
+      .from('users')
+      .update({ is_active: false })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new BadRequestException('users.update.failed');
+    }
+
+    await supabase
+      .from('refresh_tokens')
+      .update({ is_revoked: true, revoked_at: new Date().toISOString() })
+      .eq('user_id', id)
+      .eq('is_revoked', false);
+
+    return this.mapToUser(data);
+  }
+
+  async reactivate(id: string, actorId: string): Promise<IUser> {
+    await this.assertCanManage(id, actorId);
+
+    const { data, error } = await this.getClient()
+      .from('users')
+      .update({ is_active: true })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new BadRequestException('users.update.failed');
+    }
+
+    return this.mapToUser(data);
+  }
+
+  /**
+   * Lightweight check used on every authenticated request
+   */
+  async isActive(id: string): Promise<boolean> {
+    const { data } = await this.getClient()
+      .from('users')
+      .select('is_active')
+      .eq('id', id)
+      .maybeSingle();
+
+    return data?.is_active === true;
+  }
+
+  /**
+   * Admins cannot act on themselves (unless `allowSelf`) or on a super admin
+   */
+  private async assertCanManage(
+    id: string,
+    actorId: string,
+    allowSelf: boolean = false,
+  ): Promise<void> {
+    if (id === actorId && !allowSelf) {
+      throw new BadRequestException('users.manage.self');
+    }
+
+    const [target, actor] = await Promise.all([
+      this.findOne(id),
+      this.findOne(actorId),
+    ]);
+
+    if (
+      target.role === UserRole.SUPER_ADMIN &&
+      actor.role !== UserRole.SUPER_ADMIN
+    ) {
+      throw new ForbiddenException('auth.forbidden');
+    }
+  }
+
+  private async assertSuperAdmin(actorId: string): Promise<void> {
+    const actor = await this.findOne(actorId);
+
+    if (actor.role !== UserRole.SUPER_ADMIN) {
+      throw new ForbiddenException('auth.forbidden');
+    }
   }
 
   async updateLastLogin(id: string): Promise<void> {
@@ -259,11 +797,16 @@ export class UsersService extends BaseService {
       firstName: data.first_name,
       lastName: data.last_name,
       avatarUrl: data.avatar_url,
+      avatarWidth: data.avatar_width ?? null,
+      avatarHeight: data.avatar_height ?? null,
+      avatarBlurhash: data.avatar_blurhash ?? null,
+      avatarVariants: data.avatar_variants ?? [],
       phone: data.phone,
       isEmailVerified: data.is_email_verified,
       isActive: data.is_active,
       role: data.role,
       lastLoginAt: data.last_login_at,
+      deletionScheduledFor: data.deletion_scheduled_for ?? null,
       createdAt: data.created_at,
       updatedAt: data.updated_at,
     };
@@ -0,0 +1,24 @@
+-- =====================================================
+-- COMMENT MODERATION
+-- Track who approved/rejected a comment and why
+-- =====================================================
+
+ALTER TABLE project_comments
+  ADD COLUMN IF NOT EXISTS rejection_reason TEXT,
+  ADD COLUMN IF NOT EXISTS rejected_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS moderated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMP WITH TIME ZONE;
+
+-- Pending queue lookups: not approved and not rejected
+CREATE INDEX IF NOT EXISTS idx_project_comments_pending
+  ON project_comments(created_at)
+  WHERE is_approved = FALSE AND rejected_at IS NULL;
+
+-- comment_count now only tracks approved comments
+UPDATE projects p
+SET comment_count = (
+  SELECT COUNT(*)
+  FROM project_comments c
+  WHERE c.project_id = p.id
+  AND c.is_approved = TRUE
+);
@@ -0,0 +1,29 @@
+-- =====================================================
+-- THREADED COMMENTS
+-- Store nesting depth and support soft deletion so that
+-- replies survive when their parent is deleted
+-- =====================================================
+
+ALTER TABLE project_comments
+  ADD COLUMN IF NOT EXISTS depth INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Backfill depth for existing replies
+WITH RECURSIVE comment_tree AS (
+  SELECT id, 0 AS depth
+  FROM project_comments
+  WHERE parent_id IS NULL
+  UNION ALL
+  SELECT c.id, t.depth + 1
+  FROM project_comments c
+  JOIN comment_tree t ON c.parent_id = t.id
+)
+UPDATE project_comments pc
+SET depth = comment_tree.depth
+FROM comment_tree
+WHERE pc.id = comment_tree.id;
+
+-- Thread loading: approved children of a set of parents
+CREATE INDEX IF NOT EXISTS idx_project_comments_thread
+  ON project_comments(project_id, parent_id, created_at)
+  WHERE is_approved = TRUE;
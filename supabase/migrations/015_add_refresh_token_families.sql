@@ -0,0 +1,29 @@
+-- =====================================================
+-- REFRESH TOKEN ROTATION & SESSIONS
+-- Every login starts a token family (= a session). Each refresh
+-- rotates the token inside its family; replaying a rotated token
+-- revokes the whole family.
+-- =====================================================
+
+ALTER TABLE refresh_tokens
+  ADD COLUMN IF NOT EXISTS family_id UUID,
+  ADD COLUMN IF NOT EXISTS replaced_by UUID REFERENCES refresh_tokens(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS session_started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS device_name VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS ip_address VARCHAR(45),
+  ADD COLUMN IF NOT EXISTS user_agent TEXT;
+
+-- Existing tokens become single-token families
+UPDATE refresh_tokens
+SET family_id = id,
+    session_started_at = created_at
+WHERE family_id IS NULL;
+
+ALTER TABLE refresh_tokens
+  ALTER COLUMN family_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens(family_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_active
+  ON refresh_tokens(user_id, expires_at)
+  WHERE is_revoked = FALSE;
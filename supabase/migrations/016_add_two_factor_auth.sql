@@ -0,0 +1,32 @@
+-- =====================================================
+-- TOTP TWO-FACTOR AUTHENTICATION
+-- The TOTP secret is stored on the user (only readable by the
+-- service role). Recovery codes are stored bcrypt-hashed and
+-- can each be used once.
+-- =====================================================
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS two_factor_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS two_factor_secret VARCHAR(64),
+  ADD COLUMN IF NOT EXISTS two_factor_enabled_at TIMESTAMP WITH TIME ZONE,
+  -- Last accepted TOTP time step, prevents replaying a code
+  ADD COLUMN IF NOT EXISTS two_factor_last_step BIGINT;
+
+CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash VARCHAR(255) NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_two_factor_recovery_codes_user_id
+  ON two_factor_recovery_codes(user_id)
+  WHERE used_at IS NULL;
+
+ALTER TABLE two_factor_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Sessions remember whether they passed the second factor so
+-- refreshed access tokens keep the claim
+ALTER TABLE refresh_tokens
+  ADD COLUMN IF NOT EXISTS two_factor_verified BOOLEAN NOT NULL DEFAULT FALSE;
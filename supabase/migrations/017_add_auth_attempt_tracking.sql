@@ -0,0 +1,27 @@
+-- =====================================================
+-- BRUTE-FORCE PROTECTION
+-- Failed authentication attempts are counted per account (email)
+-- and per client IP. Each failure past the free attempts pushes
+-- locked_until out exponentially, up to a temporary lockout.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS auth_failed_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope VARCHAR(20) NOT NULL CHECK (scope IN ('account', 'ip')),
+  identifier VARCHAR(255) NOT NULL,
+  failed_count INT NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (scope, identifier)
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_failed_attempts_locked_until
+  ON auth_failed_attempts(locked_until)
+  WHERE locked_until IS NOT NULL;
+
+ALTER TABLE auth_failed_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Email OTPs are invalidated after too many wrong guesses
+ALTER TABLE email_verification_tokens
+  ADD COLUMN IF NOT EXISTS failed_attempts INT NOT NULL DEFAULT 0;
@@ -0,0 +1,22 @@
+-- =====================================================
+-- PASSWORDLESS LOGIN (MAGIC LINK / EMAIL OTP)
+-- Each request emails a link token and a 6-digit code. Both are
+-- stored as SHA-256 hashes, expire quickly and are single use.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS magic_link_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  otp_hash VARCHAR(64) NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  failed_attempts INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_magic_link_tokens_user_id
+  ON magic_link_tokens(user_id, created_at DESC)
+  WHERE used_at IS NULL;
+
+ALTER TABLE magic_link_tokens ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,25 @@
+-- =====================================================
+-- EMAIL CHANGE REQUESTS
+-- A new address is only applied after the OTP sent to it is
+-- confirmed. The old address gets a cancel link that can also
+-- revert a confirmed change for a limited time.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS email_change_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  old_email VARCHAR(255) NOT NULL,
+  new_email VARCHAR(255) NOT NULL,
+  token VARCHAR(10) NOT NULL, -- OTP sent to the new address
+  cancel_token UUID UNIQUE NOT NULL DEFAULT gen_random_uuid(),
+  failed_attempts INT NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  confirmed_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_change_requests_user_id
+  ON email_change_requests(user_id, created_at DESC);
+
+ALTER TABLE email_change_requests ENABLE ROW LEVEL SECURITY;
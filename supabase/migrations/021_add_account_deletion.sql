@@ -0,0 +1,36 @@
+-- =====================================================
+-- ACCOUNT SELF-DELETION
+-- A deletion request schedules the purge after a grace period.
+-- Purged users' comments are kept but detached from the account.
+-- =====================================================
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS deletion_requested_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS deletion_scheduled_for TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_users_deletion_scheduled_for
+  ON users(deletion_scheduled_for)
+  WHERE deletion_scheduled_for IS NOT NULL;
+
+-- Keep the constraint name: the API embeds users!project_comments_user_id_fkey
+ALTER TABLE project_comments
+  ALTER COLUMN user_id DROP NOT NULL,
+  DROP CONSTRAINT IF EXISTS project_comments_user_id_fkey,
+  ADD CONSTRAINT project_comments_user_id_fkey
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL;
+
+-- Used when interactions are removed (unlike/unshare, account purge)
+CREATE OR REPLACE FUNCTION decrement_project_count(project_id UUID, count_field TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF count_field NOT IN ('like_count', 'share_count', 'comment_count', 'view_count') THEN
+    RAISE EXCEPTION 'Invalid count field: %', count_field;
+  END IF;
+
+  EXECUTE format(
+    'UPDATE projects SET %I = GREATEST(%I - 1, 0) WHERE id = $1',
+    count_field,
+    count_field
+  ) USING project_id;
+END;
+$$ LANGUAGE plpgsql;
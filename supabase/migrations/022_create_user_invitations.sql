@@ -0,0 +1,19 @@
+-- =====================================================
+-- USER INVITATIONS
+-- Admins invite users by email; the invitee sets their own
+-- password through the emailed link.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS user_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  token VARCHAR(500) UNIQUE NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_invitations_user_id ON user_invitations(user_id);
+
+ALTER TABLE user_invitations ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,21 @@
+-- =====================================================
+-- PROJECT REVISIONS
+-- Every save stores a full snapshot of the project aggregate
+-- (fields, translations, links, technologies, categories) so
+-- earlier content can be compared and restored.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS project_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  restored_from UUID REFERENCES project_revisions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(project_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_revisions_project_id ON project_revisions(project_id, revision_number DESC);
+
+ALTER TABLE project_revisions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,14 @@
+-- =====================================================
+-- PROJECT SCHEDULING
+-- Projects can be published and unpublished at a set time.
+-- A project is only public once publish_at has passed and
+-- until unpublish_at is reached; the scheduler then flips
+-- the status and clears the timestamp.
+-- =====================================================
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS unpublish_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_projects_publish_at ON projects(publish_at) WHERE publish_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_projects_unpublish_at ON projects(unpublish_at) WHERE unpublish_at IS NOT NULL;
@@ -0,0 +1,132 @@
+-- =====================================================
+-- PROJECT AGGREGATE WRITES
+-- Create/update a project together with its translations,
+-- technologies, categories, links and images in a single
+-- transaction. Any failure rolls back the whole write, so a
+-- project is never left half-written.
+--
+-- Payload (jsonb), relation keys are optional and, when
+-- present, replace the existing rows:
+--   project               column values to set
+--   translations          upserted by locale
+--   replace_translations  also delete locales not in the list
+--   technology_ids, category_ids, links, image_urls
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION write_project_relations(p_project_id UUID, p_payload JSONB)
+RETURNS VOID AS $$
+BEGIN
+  IF p_payload ? 'translations' THEN
+    IF COALESCE((p_payload->>'replace_translations')::BOOLEAN, FALSE) THEN
+      DELETE FROM project_translations
+      WHERE project_id = p_project_id
+        AND locale NOT IN (
+          SELECT t->>'locale' FROM jsonb_array_elements(p_payload->'translations') AS t
+        );
+    END IF;
+
+    INSERT INTO project_translations (
+      project_id, locale, title, description, short_description, content, meta_title, meta_description
+    )
+    SELECT p_project_id, t.locale, t.title, t.description, t.short_description, t.content, t.meta_title, t.meta_description
+    FROM jsonb_to_recordset(p_payload->'translations') AS t(
+      locale VARCHAR, title VARCHAR, description TEXT, short_description VARCHAR,
+      content TEXT, meta_title VARCHAR, meta_description VARCHAR
+    )
+    ON CONFLICT (project_id, locale) DO UPDATE SET
+      title = EXCLUDED.title,
+      description = EXCLUDED.description,
+      short_description = EXCLUDED.short_description,
+      content = EXCLUDED.content,
+      meta_title = EXCLUDED.meta_title,
+      meta_description = EXCLUDED.meta_description;
+  END IF;
+
+  IF p_payload ? 'technology_ids' THEN
+    DELETE FROM project_technologies WHERE project_id = p_project_id;
+    INSERT INTO project_technologies (project_id, technology_id)
+    SELECT p_project_id, id::UUID FROM jsonb_array_elements_text(p_payload->'technology_ids') AS id;
+  END IF;
+
+  IF p_payload ? 'category_ids' THEN
+    DELETE FROM project_categories WHERE project_id = p_project_id;
+    INSERT INTO project_categories (project_id, category_id)
+    SELECT p_project_id, id::UUID FROM jsonb_array_elements_text(p_payload->'category_ids') AS id;
+  END IF;
+
+  IF p_payload ? 'links' THEN
+    DELETE FROM project_links WHERE project_id = p_project_id;
+    INSERT INTO project_links (project_id, link_type, url, label, icon, order_index)
+    SELECT p_project_id, l.link_type::link_type, l.url, l.label, l.icon, l.order_index
+    FROM jsonb_to_recordset(p_payload->'links') AS l(
+      link_type TEXT, url TEXT, label VARCHAR, icon VARCHAR, order_index INTEGER
+    );
+  END IF;
+
+  IF p_payload ? 'image_urls' THEN
+    INSERT INTO project_images (project_id, image_url, order_index, is_primary)
+    SELECT p_project_id, url, (ord - 1)::INTEGER, ord = 1
+    FROM jsonb_array_elements_text(p_payload->'image_urls') WITH ORDINALITY AS i(url, ord);
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION create_project_aggregate(p_user_id UUID, p_payload JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_project JSONB := COALESCE(p_payload->'project', '{}'::JSONB);
+  v_project_id UUID;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_payload->'translations', '[]'::JSONB)) = 0 THEN
+    RAISE EXCEPTION 'At least one translation is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO projects (
+    user_id, slug, thumbnail_url, project_type, status, order_index, is_featured,
+    start_date, end_date, publish_at, unpublish_at
+  )
+  VALUES (
+    p_user_id,
+    v_project->>'slug',
+    v_project->>'thumbnail_url',
+    COALESCE((v_project->>'project_type')::project_type, 'personal'),
+    COALESCE((v_project->>'status')::project_status, 'draft'),
+    COALESCE((v_project->>'order_index')::INTEGER, 0),
+    COALESCE((v_project->>'is_featured')::BOOLEAN, FALSE),
+    (v_project->>'start_date')::DATE,
+    (v_project->>'end_date')::DATE,
+    (v_project->>'publish_at')::TIMESTAMPTZ,
+    (v_project->>'unpublish_at')::TIMESTAMPTZ
+  )
+  RETURNING id INTO v_project_id;
+
+  PERFORM write_project_relations(v_project_id, p_payload);
+
+  RETURN v_project_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_project_aggregate(p_project_id UUID, p_payload JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_project JSONB := COALESCE(p_payload->'project', '{}'::JSONB);
+BEGIN
+  -- Only keys present in the payload are changed; a JSON null clears the column
+  UPDATE projects SET
+    project_type = CASE WHEN v_project ? 'project_type' THEN (v_project->>'project_type')::project_type ELSE project_type END,
+    status = CASE WHEN v_project ? 'status' THEN (v_project->>'status')::project_status ELSE status END,
+    order_index = CASE WHEN v_project ? 'order_index' THEN (v_project->>'order_index')::INTEGER ELSE order_index END,
+    is_featured = CASE WHEN v_project ? 'is_featured' THEN (v_project->>'is_featured')::BOOLEAN ELSE is_featured END,
+    start_date = CASE WHEN v_project ? 'start_date' THEN (v_project->>'start_date')::DATE ELSE start_date END,
+    end_date = CASE WHEN v_project ? 'end_date' THEN (v_project->>'end_date')::DATE ELSE end_date END,
+    publish_at = CASE WHEN v_project ? 'publish_at' THEN (v_project->>'publish_at')::TIMESTAMPTZ ELSE publish_at END,
+    unpublish_at = CASE WHEN v_project ? 'unpublish_at' THEN (v_project->>'unpublish_at')::TIMESTAMPTZ ELSE unpublish_at END
+  WHERE id = p_project_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project % not found', p_project_id USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM write_project_relations(p_project_id, p_payload);
+END;
+$$ LANGUAGE plpgsql;
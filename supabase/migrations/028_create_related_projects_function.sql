@@ -0,0 +1,51 @@
+-- =====================================================
+-- RELATED PROJECTS
+-- Scores every publicly visible project against a source
+-- project. Shared technologies and categories weigh most,
+-- then a matching project type; likes and views only break
+-- ties between similarly related projects.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_related_projects(
+  p_project_id UUID,
+  p_limit INTEGER DEFAULT 6,
+  p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TABLE (project_id UUID, score DOUBLE PRECISION) AS $$
+  WITH source AS (
+    SELECT id, project_type FROM projects WHERE id = p_project_id
+  ),
+  shared_technologies AS (
+    SELECT pt.project_id, COUNT(*) AS shared
+    FROM project_technologies pt
+    WHERE pt.technology_id IN (
+      SELECT technology_id FROM project_technologies WHERE project_id = p_project_id
+    )
+    GROUP BY pt.project_id
+  ),
+  shared_categories AS (
+    SELECT pc.project_id, COUNT(*) AS shared
+    FROM project_categories pc
+    WHERE pc.category_id IN (
+      SELECT category_id FROM project_categories WHERE project_id = p_project_id
+    )
+    GROUP BY pc.project_id
+  )
+  SELECT
+    p.id,
+    COALESCE(st.shared, 0) * 3.0
+      + COALESCE(sc.shared, 0) * 2.0
+      + CASE WHEN p.project_type = s.project_type THEN 1.0 ELSE 0.0 END
+      + LN(1 + COALESCE(p.like_count, 0)) * 0.2
+      + LN(1 + COALESCE(p.view_count, 0)) * 0.05 AS score
+  FROM projects p
+  CROSS JOIN source s
+  LEFT JOIN shared_technologies st ON st.project_id = p.id
+  LEFT JOIN shared_categories sc ON sc.project_id = p.id
+  WHERE p.id <> s.id
+    AND p.status = 'published'
+    AND (p.publish_at IS NULL OR p.publish_at <= p_now)
+    AND (p.unpublish_at IS NULL OR p.unpublish_at > p_now)
+  ORDER BY score DESC, p.created_at DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
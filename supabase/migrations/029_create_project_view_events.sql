@@ -0,0 +1,122 @@
+-- =====================================================
+-- PROJECT VIEW ANALYTICS
+-- One row per counted view. Visitors are identified only by
+-- an HMAC of their IP address and user agent, computed by the
+-- API; a visitor is counted once per project per window.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS project_view_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  visitor_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_project_view_events_visitor ON project_view_events(project_id, visitor_hash, created_at DESC);
+CREATE INDEX idx_project_view_events_created_at ON project_view_events(created_at);
+
+ALTER TABLE project_view_events ENABLE ROW LEVEL SECURITY;
+
+-- Records the view and bumps view_count unless the visitor was
+-- already counted within the window. Returns whether it counted.
+CREATE OR REPLACE FUNCTION record_project_view(
+  p_project_id UUID,
+  p_visitor_hash TEXT,
+  p_window_seconds INTEGER
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  -- Serialise concurrent views from the same visitor
+  PERFORM pg_advisory_xact_lock(hashtext(p_project_id::TEXT || p_visitor_hash));
+
+  IF EXISTS (
+    SELECT 1 FROM project_view_events
+    WHERE project_id = p_project_id
+      AND visitor_hash = p_visitor_hash
+      AND created_at > NOW() - make_interval(secs => p_window_seconds)
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO project_view_events (project_id, visitor_hash)
+  VALUES (p_project_id, p_visitor_hash);
+
+  UPDATE projects SET view_count = COALESCE(view_count, 0) + 1 WHERE id = p_project_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Daily views, likes and shares of one project (UTC days, every
+-- day in the range is returned, including empty ones)
+CREATE OR REPLACE FUNCTION get_project_daily_analytics(
+  p_project_id UUID,
+  p_from DATE,
+  p_to DATE
+)
+RETURNS TABLE (day DATE, views BIGINT, likes BIGINT, shares BIGINT) AS $$
+  SELECT
+    d.day::DATE,
+    (SELECT COUNT(*) FROM project_view_events v
+      WHERE v.project_id = p_project_id
+        AND (v.created_at AT TIME ZONE 'UTC')::DATE = d.day),
+    (SELECT COUNT(*) FROM project_interactions i
+      WHERE i.project_id = p_project_id AND i.interaction_type = 'like'
+        AND (i.created_at AT TIME ZONE 'UTC')::DATE = d.day),
+    (SELECT COUNT(*) FROM project_interactions i
+      WHERE i.project_id = p_project_id AND i.interaction_type = 'share'
+        AND (i.created_at AT TIME ZONE 'UTC')::DATE = d.day)
+  FROM generate_series(p_from, p_to, INTERVAL '1 day') AS d(day)
+  ORDER BY d.day;
+$$ LANGUAGE sql STABLE;
+
+-- Per-project totals for the admin dashboard, most viewed first
+CREATE OR REPLACE FUNCTION get_projects_analytics_summary(
+  p_from DATE,
+  p_to DATE,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  project_id UUID,
+  slug TEXT,
+  status TEXT,
+  views BIGINT,
+  likes BIGINT,
+  shares BIGINT,
+  view_count INTEGER,
+  like_count INTEGER,
+  share_count INTEGER
+) AS $$
+  WITH period_views AS (
+    SELECT v.project_id, COUNT(*) AS views
+    FROM project_view_events v
+    WHERE v.created_at >= (p_from::TIMESTAMP AT TIME ZONE 'UTC')
+      AND v.created_at < ((p_to + 1)::TIMESTAMP AT TIME ZONE 'UTC')
+    GROUP BY v.project_id
+  ),
+  period_interactions AS (
+    SELECT
+      i.project_id,
+      COUNT(*) FILTER (WHERE i.interaction_type = 'like') AS likes,
+      COUNT(*) FILTER (WHERE i.interaction_type = 'share') AS shares
+    FROM project_interactions i
+    WHERE i.created_at >= (p_from::TIMESTAMP AT TIME ZONE 'UTC')
+      AND i.created_at < ((p_to + 1)::TIMESTAMP AT TIME ZONE 'UTC')
+    GROUP BY i.project_id
+  )
+  SELECT
+    p.id,
+    p.slug::TEXT,
+    p.status::TEXT,
+    COALESCE(pv.views, 0),
+    COALESCE(pi.likes, 0),
+    COALESCE(pi.shares, 0),
+    COALESCE(p.view_count, 0),
+    COALESCE(p.like_count, 0),
+    COALESCE(p.share_count, 0)
+  FROM projects p
+  LEFT JOIN period_views pv ON pv.project_id = p.id
+  LEFT JOIN period_interactions pi ON pi.project_id = p.id
+  ORDER BY COALESCE(pv.views, 0) DESC, COALESCE(p.view_count, 0) DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
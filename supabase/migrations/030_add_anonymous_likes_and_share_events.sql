@@ -0,0 +1,222 @@
+-- =====================================================
+-- ANONYMOUS LIKES AND SHARE EVENTS
+-- Likes can come from signed-in users or from anonymous
+-- visitors identified by a signed visitor id cookie.
+-- Anonymous likes also store an HMAC of the client IP so
+-- the API can cap likes from one network.
+--
+-- Shares are no longer toggled: every share is an
+-- append-only event with the channel it went to. Existing
+-- share interactions are moved over with an unknown channel.
+-- =====================================================
+
+CREATE TYPE share_channel AS ENUM ('twitter', 'linkedin', 'copy_link', 'email');
+
+-- =====================================================
+-- 1. ANONYMOUS LIKES
+-- =====================================================
+ALTER TABLE project_interactions
+  ALTER COLUMN user_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS visitor_id UUID,
+  ADD COLUMN IF NOT EXISTS visitor_hash TEXT,
+  ADD CONSTRAINT project_interactions_actor_check
+    CHECK (user_id IS NOT NULL OR visitor_id IS NOT NULL);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_interactions_visitor_unique
+  ON project_interactions(project_id, visitor_id, interaction_type)
+  WHERE visitor_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_project_interactions_visitor_hash
+  ON project_interactions(project_id, visitor_hash, created_at)
+  WHERE visitor_hash IS NOT NULL;
+
+-- =====================================================
+-- 2. SHARE EVENTS
+-- =====================================================
+CREATE TABLE IF NOT EXISTS project_share_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  -- NULL for shares recorded before channels were tracked
+  channel share_channel,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  visitor_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_project_share_events_project ON project_share_events(project_id, created_at);
+CREATE INDEX idx_project_share_events_user_id ON project_share_events(user_id);
+
+ALTER TABLE project_share_events ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO project_share_events (project_id, channel, user_id, created_at)
+SELECT project_id, NULL, user_id, created_at
+FROM project_interactions
+WHERE interaction_type = 'share';
+
+DELETE FROM project_interactions WHERE interaction_type = 'share';
+
+-- =====================================================
+-- 3. FUNCTIONS
+-- =====================================================
+
+-- Like or unlike for a user or a visitor, keeping like_count in step.
+-- Returns 'added', 'removed' or 'limited' when a new anonymous like
+-- would exceed p_max_per_hash likes on the project from one network
+-- within a day.
+CREATE OR REPLACE FUNCTION toggle_project_like(
+  p_project_id UUID,
+  p_user_id UUID,
+  p_visitor_id UUID,
+  p_visitor_hash TEXT,
+  p_max_per_hash INTEGER
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_existing UUID;
+BEGIN
+  SELECT id INTO v_existing
+  FROM project_interactions
+  WHERE project_id = p_project_id
+    AND interaction_type = 'like'
+    AND (
+      (p_user_id IS NOT NULL AND user_id = p_user_id)
+      OR (p_user_id IS NULL AND visitor_id = p_visitor_id)
+    )
+  FOR UPDATE;
+
+  IF v_existing IS NOT NULL THEN
+    DELETE FROM project_interactions WHERE id = v_existing;
+    UPDATE projects SET like_count = GREATEST(COALESCE(like_count, 0) - 1, 0) WHERE id = p_project_id;
+    RETURN 'removed';
+  END IF;
+
+  IF p_user_id IS NULL AND (
+    SELECT COUNT(*) FROM project_interactions
+    WHERE project_id = p_project_id
+      AND visitor_hash = p_visitor_hash
+      AND created_at > NOW() - INTERVAL '1 day'
+  ) >= p_max_per_hash THEN
+    RETURN 'limited';
+  END IF;
+
+  INSERT INTO project_interactions (project_id, user_id, visitor_id, visitor_hash, interaction_type)
+  VALUES (
+    p_project_id,
+    p_user_id,
+    CASE WHEN p_user_id IS NULL THEN p_visitor_id END,
+    CASE WHEN p_user_id IS NULL THEN p_visitor_hash END,
+    'like'
+  );
+
+  UPDATE projects SET like_count = COALESCE(like_count, 0) + 1 WHERE id = p_project_id;
+  RETURN 'added';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_project_share(
+  p_project_id UUID,
+  p_channel share_channel,
+  p_user_id UUID,
+  p_visitor_id UUID
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO project_share_events (project_id, channel, user_id, visitor_id)
+  VALUES (p_project_id, p_channel, p_user_id, CASE WHEN p_user_id IS NULL THEN p_visitor_id END);
+
+  UPDATE projects SET share_count = COALESCE(share_count, 0) + 1 WHERE id = p_project_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Shares per channel of one project within a date range (UTC days)
+CREATE OR REPLACE FUNCTION get_project_share_channels(
+  p_project_id UUID,
+  p_from DATE,
+  p_to DATE
+)
+RETURNS TABLE (channel TEXT, shares BIGINT) AS $$
+  SELECT COALESCE(s.channel::TEXT, 'unknown'), COUNT(*)
+  FROM project_share_events s
+  WHERE s.project_id = p_project_id
+    AND s.created_at >= (p_from::TIMESTAMP AT TIME ZONE 'UTC')
+    AND s.created_at < ((p_to + 1)::TIMESTAMP AT TIME ZONE 'UTC')
+  GROUP BY 1;
+$$ LANGUAGE sql STABLE;
+
+-- Shares now come from project_share_events
+CREATE OR REPLACE FUNCTION get_project_daily_analytics(
+  p_project_id UUID,
+  p_from DATE,
+  p_to DATE
+)
+RETURNS TABLE (day DATE, views BIGINT, likes BIGINT, shares BIGINT) AS $$
+  SELECT
+    d.day::DATE,
+    (SELECT COUNT(*) FROM project_view_events v
+      WHERE v.project_id = p_project_id
+        AND (v.created_at AT TIME ZONE 'UTC')::DATE = d.day),
+    (SELECT COUNT(*) FROM project_interactions i
+      WHERE i.project_id = p_project_id AND i.interaction_type = 'like'
+        AND (i.created_at AT TIME ZONE 'UTC')::DATE = d.day),
+    (SELECT COUNT(*) FROM project_share_events s
+      WHERE s.project_id = p_project_id
+        AND (s.created_at AT TIME ZONE 'UTC')::DATE = d.day)
+  FROM generate_series(p_from, p_to, INTERVAL '1 day') AS d(day)
+  ORDER BY d.day;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION get_projects_analytics_summary(
+  p_from DATE,
+  p_to DATE,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  project_id UUID,
+  slug TEXT,
+  status TEXT,
+  views BIGINT,
+  likes BIGINT,
+  shares BIGINT,
+  view_count INTEGER,
+  like_count INTEGER,
+  share_count INTEGER
+) AS $$
+  WITH period_views AS (
+    SELECT v.project_id, COUNT(*) AS views
+    FROM project_view_events v
+    WHERE v.created_at >= (p_from::TIMESTAMP AT TIME ZONE 'UTC')
+      AND v.created_at < ((p_to + 1)::TIMESTAMP AT TIME ZONE 'UTC')
+    GROUP BY v.project_id
+  ),
+  period_likes AS (
+    SELECT i.project_id, COUNT(*) AS likes
+    FROM project_interactions i
+    WHERE i.interaction_type = 'like'
+      AND i.created_at >= (p_from::TIMESTAMP AT TIME ZONE 'UTC')
+      AND i.created_at < ((p_to + 1)::TIMESTAMP AT TIME ZONE 'UTC')
+    GROUP BY i.project_id
+  ),
+  period_shares AS (
+    SELECT s.project_id, COUNT(*) AS shares
+    FROM project_share_events s
+    WHERE s.created_at >= (p_from::TIMESTAMP AT TIME ZONE 'UTC')
+      AND s.created_at < ((p_to + 1)::TIMESTAMP AT TIME ZONE 'UTC')
+    GROUP BY s.project_id
+  )
+  SELECT
+    p.id,
+    p.slug::TEXT,
+    p.status::TEXT,
+    COALESCE(pv.views, 0),
+    COALESCE(pl.likes, 0),
+    COALESCE(ps.shares, 0),
+    COALESCE(p.view_count, 0),
+    COALESCE(p.like_count, 0),
+    COALESCE(p.share_count, 0)
+  FROM projects p
+  LEFT JOIN period_views pv ON pv.project_id = p.id
+  LEFT JOIN period_likes pl ON pl.project_id = p.id
+  LEFT JOIN period_shares ps ON ps.project_id = p.id
+  ORDER BY COALESCE(pv.views, 0) DESC, COALESCE(p.view_count, 0) DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
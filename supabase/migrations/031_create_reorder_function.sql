@@ -0,0 +1,69 @@
+-- =====================================================
+-- REORDERING
+-- Renumbers order_index of an ordered table in one
+-- statement. The given ids take positions 0..n-1 in the
+-- order listed; rows not listed keep their relative order
+-- after them, so positions end up contiguous and unique.
+--
+-- Scoped tables (project images and links) are renumbered
+-- within one project only.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION reorder_rows(
+  p_table TEXT,
+  p_ids UUID[],
+  p_scope_column TEXT DEFAULT NULL,
+  p_scope_value UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_scope TEXT := '';
+  v_found INTEGER;
+BEGIN
+  IF p_table NOT IN (
+    'projects', 'project_images', 'project_links', 'technologies',
+    'categories', 'services', 'inquiry_types', 'testimonials'
+  ) THEN
+    RAISE EXCEPTION 'Table % cannot be reordered', p_table USING ERRCODE = '22023';
+  END IF;
+
+  IF p_scope_column IS NOT NULL THEN
+    IF p_scope_column <> 'project_id' THEN
+      RAISE EXCEPTION 'Invalid scope column: %', p_scope_column USING ERRCODE = '22023';
+    END IF;
+    v_scope := format(' AND %I = %L', p_scope_column, p_scope_value);
+  END IF;
+
+  -- Concurrent reorders of the same list would interleave positions
+  PERFORM pg_advisory_xact_lock(hashtext('reorder:' || p_table || COALESCE(p_scope_value::TEXT, '')));
+
+  IF (SELECT COUNT(DISTINCT id) FROM unnest(p_ids) AS id) <> cardinality(p_ids) THEN
+    RAISE EXCEPTION 'Duplicate ids' USING ERRCODE = '22023';
+  END IF;
+
+  -- Every id must belong to the table (and scope)
+  EXECUTE format('SELECT COUNT(*) FROM %I WHERE id = ANY($1)%s', p_table, v_scope)
+    INTO v_found
+    USING p_ids;
+
+  IF v_found <> cardinality(p_ids) THEN
+    RAISE EXCEPTION 'Unknown ids' USING ERRCODE = 'P0002';
+  END IF;
+
+  EXECUTE format(
+    'UPDATE %1$I t
+     SET order_index = ranked.position
+     FROM (
+       SELECT r.id, (ROW_NUMBER() OVER (
+         ORDER BY listed.ordinality NULLS LAST, r.order_index, r.created_at, r.id
+       ) - 1)::INTEGER AS position
+       FROM %1$I r
+       LEFT JOIN unnest($1) WITH ORDINALITY AS listed(id, ordinality) ON listed.id = r.id
+       WHERE TRUE%2$s
+     ) ranked
+     WHERE t.id = ranked.id AND t.order_index IS DISTINCT FROM ranked.position',
+    p_table,
+    v_scope
+  ) USING p_ids;
+END;
+$$ LANGUAGE plpgsql;
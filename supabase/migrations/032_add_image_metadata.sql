@@ -0,0 +1,35 @@
+-- =====================================================
+-- IMAGE METADATA
+-- Uploaded images are re-encoded into responsive WebP/AVIF
+-- variants with EXIF metadata stripped. The existing *_url
+-- columns keep the default variant (largest WebP); the
+-- intrinsic size, blurhash placeholder and every variant
+-- are stored next to them.
+--
+-- variants: [{ "url", "width", "height", "format" }]
+-- Rows uploaded before this migration keep NULL metadata.
+-- =====================================================
+
+ALTER TABLE project_images
+  ADD COLUMN width INTEGER,
+  ADD COLUMN height INTEGER,
+  ADD COLUMN blurhash TEXT,
+  ADD COLUMN variants JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE projects
+  ADD COLUMN thumbnail_width INTEGER,
+  ADD COLUMN thumbnail_height INTEGER,
+  ADD COLUMN thumbnail_blurhash TEXT,
+  ADD COLUMN thumbnail_variants JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE users
+  ADD COLUMN avatar_width INTEGER,
+  ADD COLUMN avatar_height INTEGER,
+  ADD COLUMN avatar_blurhash TEXT,
+  ADD COLUMN avatar_variants JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE testimonials
+  ADD COLUMN avatar_width INTEGER,
+  ADD COLUMN avatar_height INTEGER,
+  ADD COLUMN avatar_blurhash TEXT,
+  ADD COLUMN avatar_variants JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,13 @@
+-- =====================================================
+-- IMPERSONATION SESSIONS
+-- Impersonation tokens get their own session (refresh token family)
+-- so they show up in the user's session list and can be revoked.
+-- The stored token is never handed out and cannot be refreshed.
+-- =====================================================
+
+ALTER TABLE refresh_tokens
+  ADD COLUMN IF NOT EXISTS impersonated_by UUID REFERENCES users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_impersonated_by
+  ON refresh_tokens(impersonated_by)
+  WHERE impersonated_by IS NOT NULL;
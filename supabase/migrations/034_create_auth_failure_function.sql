@@ -0,0 +1,61 @@
+-- =====================================================
+-- ATOMIC FAILED-ATTEMPT COUNTING
+-- Counts one failed authentication attempt for a key and
+-- computes its lockout in a single transaction. The upsert
+-- locks the row, so concurrent failures for the same key
+-- are counted one after the other and none is lost.
+--
+-- A failure after p_window_minutes of quiet starts a new
+-- count. Past p_free_attempts each failure doubles the wait
+-- (capped at p_max_backoff_seconds); at p_lockout_threshold
+-- the key is locked for p_lockout_minutes.
+-- Returns the updated auth_failed_attempts row.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION record_auth_failure(
+  p_scope VARCHAR,
+  p_identifier VARCHAR,
+  p_window_minutes INTEGER,
+  p_free_attempts INTEGER,
+  p_lockout_threshold INTEGER,
+  p_max_backoff_seconds INTEGER,
+  p_lockout_minutes INTEGER
+)
+RETURNS auth_failed_attempts AS $$
+DECLARE
+  v_count INTEGER;
+  v_locked_until TIMESTAMP WITH TIME ZONE;
+  v_row auth_failed_attempts;
+BEGIN
+  INSERT INTO auth_failed_attempts AS a (scope, identifier, failed_count, last_failed_at)
+  VALUES (p_scope, p_identifier, 1, NOW())
+  ON CONFLICT (scope, identifier) DO UPDATE SET
+    failed_count = CASE
+      WHEN a.last_failed_at IS NULL
+        OR a.last_failed_at < NOW() - make_interval(mins => p_window_minutes)
+      THEN 1
+      ELSE a.failed_count + 1
+    END,
+    last_failed_at = NOW()
+  RETURNING a.failed_count INTO v_count;
+
+  v_locked_until := CASE
+    WHEN v_count >= p_lockout_threshold
+      THEN NOW() + make_interval(mins => p_lockout_minutes)
+    WHEN v_count < p_free_attempts
+      THEN NULL
+    -- 1s, 2s, 4s, ... (exponent bounded so power() cannot overflow)
+    ELSE NOW() + make_interval(secs => LEAST(
+      power(2, LEAST(v_count - p_free_attempts, 30)),
+      p_max_backoff_seconds
+    ))
+  END;
+
+  UPDATE auth_failed_attempts
+  SET locked_until = v_locked_until
+  WHERE scope = p_scope AND identifier = p_identifier
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$ LANGUAGE plpgsql;
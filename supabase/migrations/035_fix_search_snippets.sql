@@ -0,0 +1,106 @@
+-- =====================================================
+-- SEARCH SNIPPETS FROM THE ORIGINAL TEXT
+-- Snippets used to be built from the normalised text, so
+-- Arabic results lost their diacritics and letter forms.
+-- Only the query and the stored vectors are normalised now;
+-- ts_headline runs on the original column.
+-- The source text is HTML-escaped before highlighting, so
+-- the <mark> tags are the only markup a snippet contains
+-- and it can be rendered as HTML safely.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION escape_html(input TEXT)
+RETURNS TEXT AS $$
+  SELECT replace(replace(replace(replace(replace(
+    COALESCE(input, ''),
+    '&', '&amp;'),
+    '<', '&lt;'),
+    '>', '&gt;'),
+    '"', '&quot;'),
+    '''', '&#39;');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Up to p_limit results per type, only publicly visible content
+CREATE OR REPLACE FUNCTION search_content(
+  p_query TEXT,
+  p_locale TEXT DEFAULT 'en',
+  p_type TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 10,
+  p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TABLE (result_type TEXT, id UUID, slug TEXT, title TEXT, snippet TEXT, rank REAL) AS $$
+#variable_conflict use_column
+DECLARE
+  v_config regconfig := search_config(p_locale);
+  v_query tsquery := websearch_to_tsquery(search_config(p_locale), normalize_search_text(p_query));
+  v_simple_query tsquery := websearch_to_tsquery('simple'::regconfig, normalize_search_text(p_query));
+  v_options TEXT := 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2';
+BEGIN
+  RETURN QUERY
+  (
+    SELECT 'project'::TEXT, p.id, p.slug::TEXT, pt.title::TEXT,
+      ts_headline(v_config, escape_html(concat_ws(' ', pt.short_description, pt.description, pt.content)), v_query, v_options),
+      ts_rank_cd(pt.search_vector, v_query)
+    FROM project_translations pt
+    JOIN projects p ON p.id = pt.project_id
+    WHERE (p_type IS NULL OR p_type = 'project')
+      AND pt.locale = p_locale
+      AND pt.search_vector @@ v_query
+      AND p.status = 'published'
+      AND (p.publish_at IS NULL OR p.publish_at <= p_now)
+      AND (p.unpublish_at IS NULL OR p.unpublish_at > p_now)
+    ORDER BY 6 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'service'::TEXT, s.id, s.slug::TEXT, st.name::TEXT,
+      ts_headline(v_config, escape_html(st.description), v_query, v_options),
+      ts_rank_cd(st.search_vector, v_query)
+    FROM service_translations st
+    JOIN services s ON s.id = st.service_id
+    WHERE (p_type IS NULL OR p_type = 'service')
+      AND st.locale = p_locale
+      AND st.search_vector @@ v_query
+      AND s.is_active = TRUE
+    ORDER BY 6 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'testimonial'::TEXT, t.id, NULL::TEXT, tt.author_name::TEXT,
+      ts_headline(v_config, escape_html(tt.content), v_query, v_options),
+      ts_rank_cd(tt.search_vector, v_query)
+    FROM testimonial_translations tt
+    JOIN testimonials t ON t.id = tt.testimonial_id
+    WHERE (p_type IS NULL OR p_type = 'testimonial')
+      AND tt.locale = p_locale
+      AND tt.search_vector @@ v_query
+      AND t.is_approved = TRUE
+    ORDER BY 6 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'technology'::TEXT, te.id, te.slug::TEXT, te.name::TEXT,
+      ts_headline('simple'::regconfig, escape_html(te.description), v_simple_query, v_options),
+      ts_rank_cd(te.search_vector, v_simple_query)
+    FROM technologies te
+    WHERE (p_type IS NULL OR p_type = 'technology')
+      AND te.search_vector @@ v_simple_query
+    ORDER BY 6 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'category'::TEXT, c.id, c.slug::TEXT, c.name::TEXT,
+      ts_headline('simple'::regconfig, escape_html(c.description), v_simple_query, v_options),
+      ts_rank_cd(c.search_vector, v_simple_query)
+    FROM categories c
+    WHERE (p_type IS NULL OR p_type = 'category')
+      AND c.search_vector @@ v_simple_query
+    ORDER BY 6 DESC
+    LIMIT p_limit
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,22 @@
+-- =====================================================
+-- ATOMIC COUNTER ADJUSTMENT
+-- Adds delta (positive or negative) to a project counter
+-- in a single UPDATE, so concurrent moderation actions
+-- cannot overwrite each other's changes. Counters never
+-- drop below zero.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION adjust_project_count(project_id UUID, count_field TEXT, delta INTEGER)
+RETURNS VOID AS $$
+BEGIN
+  IF count_field NOT IN ('like_count', 'share_count', 'comment_count', 'view_count') THEN
+    RAISE EXCEPTION 'Invalid count field: %', count_field;
+  END IF;
+
+  EXECUTE format(
+    'UPDATE projects SET %I = GREATEST(%I + $2, 0) WHERE id = $1',
+    count_field,
+    count_field
+  ) USING project_id, delta;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,56 @@
+-- =====================================================
+-- DAILY ANALYTICS PERFORMANCE
+-- get_project_daily_analytics ran three correlated
+-- subqueries per day, each casting created_at and so
+-- unable to use an index. Each event table is now scanned
+-- once over the requested range, grouped by UTC day and
+-- joined to the calendar.
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_project_view_events_project
+  ON project_view_events(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_project_interactions_project_created
+  ON project_interactions(project_id, interaction_type, created_at);
+
+CREATE OR REPLACE FUNCTION get_project_daily_analytics(
+  p_project_id UUID,
+  p_from DATE,
+  p_to DATE
+)
+RETURNS TABLE (day DATE, views BIGINT, likes BIGINT, shares BIGINT) AS $$
+  WITH daily_views AS (
+    SELECT date_trunc('day', v.created_at AT TIME ZONE 'UTC')::DATE AS day, COUNT(*) AS views
+    FROM project_view_events v
+    WHERE v.project_id = p_project_id
+      AND v.created_at >= (p_from::TIMESTAMP AT TIME ZONE 'UTC')
+      AND v.created_at < ((p_to + 1)::TIMESTAMP AT TIME ZONE 'UTC')
+    GROUP BY 1
+  ),
+  daily_likes AS (
+    SELECT date_trunc('day', i.created_at AT TIME ZONE 'UTC')::DATE AS day, COUNT(*) AS likes
+    FROM project_interactions i
+    WHERE i.project_id = p_project_id
+      AND i.interaction_type = 'like'
+      AND i.created_at >= (p_from::TIMESTAMP AT TIME ZONE 'UTC')
+      AND i.created_at < ((p_to + 1)::TIMESTAMP AT TIME ZONE 'UTC')
+    GROUP BY 1
+  ),
+  daily_shares AS (
+    SELECT date_trunc('day', s.created_at AT TIME ZONE 'UTC')::DATE AS day, COUNT(*) AS shares
+    FROM project_share_events s
+    WHERE s.project_id = p_project_id
+      AND s.created_at >= (p_from::TIMESTAMP AT TIME ZONE 'UTC')
+      AND s.created_at < ((p_to + 1)::TIMESTAMP AT TIME ZONE 'UTC')
+    GROUP BY 1
+  )
+  SELECT
+    d.day::DATE,
+    COALESCE(dv.views, 0),
+    COALESCE(dl.likes, 0),
+    COALESCE(ds.shares, 0)
+  FROM generate_series(p_from, p_to, INTERVAL '1 day') AS d(day)
+  LEFT JOIN daily_views dv ON dv.day = d.day::DATE
+  LEFT JOIN daily_likes dl ON dl.day = d.day::DATE
+  LEFT JOIN daily_shares ds ON ds.day = d.day::DATE
+  ORDER BY d.day;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,45 @@
+-- =====================================================
+-- ATOMIC ACCOUNT PURGE
+-- Removes an account whose deletion is due and takes its
+-- likes off the project counters in one transaction. The
+-- decrement is derived from the interaction rows actually
+-- deleted, so a failed, retried or concurrent purge never
+-- lowers a counter twice.
+-- =====================================================
+
+-- Returns false when the account is gone or not due (e.g.
+-- purged by a concurrent run, or the deletion was cancelled)
+CREATE OR REPLACE FUNCTION purge_user_account(p_user_id UUID, p_now TIMESTAMP WITH TIME ZONE)
+RETURNS BOOLEAN AS $$
+BEGIN
+  -- Concurrent purges of the same account wait here, then find it gone
+  PERFORM 1 FROM users
+  WHERE id = p_user_id AND deletion_scheduled_for <= p_now
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  WITH removed AS (
+    DELETE FROM project_interactions
+    WHERE user_id = p_user_id
+    RETURNING project_id, interaction_type
+  ),
+  likes AS (
+    SELECT project_id, COUNT(*) AS total
+    FROM removed
+    WHERE interaction_type = 'like'
+    GROUP BY project_id
+  )
+  UPDATE projects p
+  SET like_count = GREATEST(COALESCE(p.like_count, 0) - l.total, 0)
+  FROM likes l
+  WHERE p.id = l.project_id;
+
+  -- Comments are kept: project_comments.user_id is set to null by the FK
+  DELETE FROM users WHERE id = p_user_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;